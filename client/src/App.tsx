@@ -10,6 +10,8 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
+      <Route path="/history/lorries/:lorryId" component={Dashboard} />
+      <Route path="/:view" component={Dashboard} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+
+type ExportFormat = 'csv' | 'xlsx';
+
+// Downloads a server-side export of the same query the view shows. The
+// browser's language goes along so CSV numbers use the separators the
+// user's spreadsheet program expects.
+export function ExportButtons({
+  path,
+  params = {},
+  testIdPrefix = 'export'
+}: {
+  path: string;
+  params?: Record<string, string | null | undefined>;
+  testIdPrefix?: string;
+}) {
+  const download = (format: ExportFormat) => {
+    const query = new URLSearchParams({ format, locale: navigator.language });
+    Object.entries(params).forEach(([key, value]) => value && query.set(key, value));
+
+    const link = document.createElement('a');
+    link.href = `${path}?${query}`;
+    link.download = '';
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button size="sm" variant="outline" onClick={() => download('csv')} data-testid={`${testIdPrefix}-csv`}>
+        <Download className="mr-2 h-4 w-4" />
+        CSV
+      </Button>
+      <Button size="sm" variant="outline" onClick={() => download('xlsx')} data-testid={`${testIdPrefix}-xlsx`}>
+        <Download className="mr-2 h-4 w-4" />
+        Excel
+      </Button>
+    </div>
+  );
+}
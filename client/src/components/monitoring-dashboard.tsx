@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ExportButtons } from "@/components/export-buttons";
+import { WeightComparisonChart } from "@/components/weight-comparison-chart";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { 
   Truck, 
@@ -9,7 +11,8 @@ import {
   AlertTriangle, 
   TrendingUp, 
   Activity,
-  Clock
+  Clock,
+  Printer
 } from "lucide-react";
 import type { SystemActivity } from "@shared/schema";
 
@@ -39,6 +42,8 @@ export function MonitoringDashboard() {
     refetchInterval: 5000
   });
 
+  const todayUtc = new Date().toISOString().slice(0, 10);
+
   const [realtimeActivities, setRealtimeActivities] = useState<SystemActivity[]>([]);
 
   // Subscribe to real-time updates
@@ -72,9 +77,13 @@ export function MonitoringDashboard() {
       case 'weighment':
         return <Weight className="h-4 w-4 text-primary" />;
       case 'tolerance_violation':
+      case 'duplicate_tag':
         return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
       case 'api_sync':
+      case 'webhook':
         return <Activity className="h-4 w-4 text-blue-500" />;
+      case 'printer':
+        return <Printer className="h-4 w-4 text-muted-foreground" />;
       default:
         return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
@@ -178,23 +187,7 @@ export function MonitoringDashboard() {
         </Card>
       </div>
 
-      {/* Weight Comparison Chart Placeholder */}
-      <Card className="glass-card">
-        <CardContent className="p-6">
-          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-weight-comparison">
-            <Activity className="text-accent" />
-            PLC vs Serial Weight Comparison
-          </h3>
-          <div className="h-64 flex items-center justify-center bg-muted/10 rounded-lg border border-border">
-            <div className="text-center text-muted-foreground">
-              <Activity className="h-12 w-12 mx-auto mb-2 opacity-50" />
-              <p className="text-lg font-medium">Real-time Weight Chart</p>
-              <p className="text-sm">Chart implementation with Chart.js would be integrated here</p>
-              <p className="text-xs mt-2">Showing PLC vs Serial weight readings over time</p>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      <WeightComparisonChart />
 
       {/* Real-time Activities */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -286,10 +279,18 @@ export function MonitoringDashboard() {
       {/* Today's Weighments Summary */}
       <Card className="glass-card">
         <CardContent className="p-6">
-          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-todays-weighments">
-            <Weight className="text-primary" />
-            Today's Weighments Summary
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold flex items-center gap-3" data-testid="heading-todays-weighments">
+              <Weight className="text-primary" />
+              Today's Weighments Summary
+            </h3>
+            {/* The server counts days in UTC, so "today" is the UTC date here too */}
+            <ExportButtons
+              path="/api/weighments/export"
+              params={{ from: todayUtc, to: todayUtc, order: 'asc' }}
+              testIdPrefix="export-today"
+            />
+          </div>
           
           {todaysWeighments.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground" data-testid="no-todays-weighments">
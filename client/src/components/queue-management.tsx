@@ -5,10 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WeighbridgeBadge, weighbridgeNet } from "@/components/weighbridge-badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Truck, Calendar, Save, Plus, Trash2, Play, Square } from "lucide-react";
-import type { TareConfiguration, LorryWithTareConfig } from "@shared/schema";
+import type { TareConfiguration, LorryWithTareConfig, WeighingMode } from "@shared/schema";
 
 export function QueueManagement() {
   const { toast } = useToast();
@@ -20,12 +22,14 @@ export function QueueManagement() {
     tareWeight: ''
   });
 
-  const [lorryForm, setLorryForm] = useState({
+  const emptyLorryForm = {
     lorryNumber: '',
     line: '',
     lineManager: '',
-    phone: ''
-  });
+    phone: '',
+    weighingMode: 'bags' as WeighingMode
+  };
+  const [lorryForm, setLorryForm] = useState(emptyLorryForm);
 
   // Get today's tare configuration
   const { data: currentTare } = useQuery<TareConfiguration | null>({
@@ -33,6 +37,17 @@ export function QueueManagement() {
     enabled: !!tareForm.date
   });
 
+  // Lorries and suppliers from Odoo, offered as suggestions (empty unless the connector is set up)
+  const { data: odooLorries = [] } = useQuery<{ odooId: number; lorryNumber: string }[]>({
+    queryKey: ['/api/odoo/lorries'],
+    retry: false
+  });
+
+  const { data: odooSuppliers = [] } = useQuery<{ odooId: number; name: string; phone: string | null }[]>({
+    queryKey: ['/api/odoo/suppliers'],
+    retry: false
+  });
+
   // Get lorry queue
   const { data: lorryQueue = [], isLoading: queueLoading } = useQuery<LorryWithTareConfig[]>({
     queryKey: ['/api/lorry-queue']
@@ -67,9 +82,10 @@ export function QueueManagement() {
   // Create lorry
   const createLorryMutation = useMutation({
     mutationFn: async (data: typeof lorryForm) => {
+      // Weighbridge lorries get their own tare on the way out
       const response = await apiRequest('POST', '/api/lorry-queue', {
         ...data,
-        tareConfigId: currentTare?.id || null
+        tareConfigId: data.weighingMode === 'bags' ? currentTare?.id || null : null
       });
       return response.json();
     },
@@ -79,12 +95,7 @@ export function QueueManagement() {
         description: "Lorry added to queue successfully"
       });
       queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
-      setLorryForm({
-        lorryNumber: '',
-        line: '',
-        lineManager: '',
-        phone: ''
-      });
+      setLorryForm(emptyLorryForm);
     },
     onError: () => {
       toast({
@@ -120,6 +131,14 @@ export function QueueManagement() {
         description: "Lorry removed from queue"
       });
       queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove lorry from queue",
+        variant: "destructive"
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
     }
   });
 
@@ -132,7 +151,7 @@ export function QueueManagement() {
   const handleLorrySubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!lorryForm.lorryNumber || !lorryForm.line || !lorryForm.lineManager) return;
-    if (!currentTare) {
+    if (lorryForm.weighingMode === 'bags' && !currentTare) {
       toast({
         title: "Error",
         description: "Please configure daily tare weight first",
@@ -242,8 +261,14 @@ export function QueueManagement() {
                     value={lorryForm.lorryNumber}
                     onChange={(e) => setLorryForm(prev => ({ ...prev, lorryNumber: e.target.value }))}
                     className="mt-2"
+                    list="odoo-lorries"
                     data-testid="input-lorry-number"
                   />
+                  <datalist id="odoo-lorries">
+                    {odooLorries.map((lorry) => (
+                      <option key={lorry.odooId} value={lorry.lorryNumber} />
+                    ))}
+                  </datalist>
                 </div>
                 <div>
                   <Label htmlFor="line" className="text-xs text-muted-foreground">Line</Label>
@@ -267,10 +292,24 @@ export function QueueManagement() {
                     type="text"
                     placeholder="Manager name"
                     value={lorryForm.lineManager}
-                    onChange={(e) => setLorryForm(prev => ({ ...prev, lineManager: e.target.value }))}
+                    onChange={(e) => {
+                      const lineManager = e.target.value;
+                      const supplier = odooSuppliers.find((s) => s.name === lineManager);
+                      setLorryForm(prev => ({
+                        ...prev,
+                        lineManager,
+                        phone: supplier?.phone && !prev.phone ? supplier.phone : prev.phone
+                      }));
+                    }}
                     className="mt-2"
+                    list="odoo-suppliers"
                     data-testid="input-line-manager"
                   />
+                  <datalist id="odoo-suppliers">
+                    {odooSuppliers.map((supplier) => (
+                      <option key={supplier.odooId} value={supplier.name} />
+                    ))}
+                  </datalist>
                 </div>
                 <div>
                   <Label htmlFor="phone" className="text-xs text-muted-foreground">Phone</Label>
@@ -286,12 +325,28 @@ export function QueueManagement() {
                 </div>
               </div>
 
+              <div>
+                <Label className="text-xs text-muted-foreground">Weighing Mode</Label>
+                <Select
+                  value={lorryForm.weighingMode}
+                  onValueChange={(value) => setLorryForm(prev => ({ ...prev, weighingMode: value as WeighingMode }))}
+                >
+                  <SelectTrigger className="mt-2" data-testid="select-weighing-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bags">Bags on hook (daily tare)</SelectItem>
+                    <SelectItem value="weighbridge">Weighbridge (weigh in and out)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex gap-3 pt-2">
                 <Button 
                   type="button" 
                   variant="secondary" 
                   className="flex-1"
-                  onClick={() => setLorryForm({ lorryNumber: '', line: '', lineManager: '', phone: '' })}
+                  onClick={() => setLorryForm(emptyLorryForm)}
                   data-testid="button-clear-lorry"
                 >
                   Clear
@@ -383,6 +438,7 @@ export function QueueManagement() {
                     <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Manager</th>
                     <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Tare (kg)</th>
                     <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Total Bags</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">In / Out</th>
                     <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
@@ -402,10 +458,23 @@ export function QueueManagement() {
                         {lorry.lineManager}
                       </td>
                       <td className="py-3 px-2 font-mono" data-testid={`text-tare-${lorry.id}`}>
-                        {lorry.tareConfig?.tareWeight || '—'}
+                        {(lorry.weighingMode === 'weighbridge' ? lorry.tareWeight : lorry.tareConfig?.tareWeight) || '—'}
                       </td>
                       <td className="py-3 px-2" data-testid={`text-bags-${lorry.id}`}>
-                        {lorry.totalBags ? `${lorry.totalBags} bags` : '—'}
+                        {lorry.totalBags && lorry.weighingMode !== 'weighbridge' ? `${lorry.totalBags} bags` : '—'}
+                      </td>
+                      <td className="py-3 px-2" data-testid={`text-in-out-${lorry.id}`}>
+                        {lorry.weighingMode === 'weighbridge' ? (
+                          <div className="space-y-1">
+                            <WeighbridgeBadge lorry={lorry} />
+                            {lorry.grossWeight != null && (
+                              <div className="text-xs font-mono text-muted-foreground">
+                                Gross {lorry.grossWeight.toFixed(3)}
+                                {weighbridgeNet(lorry) != null && ` · Net ${weighbridgeNet(lorry)!.toFixed(3)}`}
+                              </div>
+                            )}
+                          </div>
+                        ) : '—'}
                       </td>
                       <td className="py-3 px-2 text-right">
                         <div className="flex gap-2 justify-end">
@@ -433,15 +502,18 @@ export function QueueManagement() {
                               Complete
                             </Button>
                           )}
-                          <Button
-                            size="sm"
-                            variant="secondary"
-                            onClick={() => removeLorryMutation.mutate(lorry.id)}
-                            disabled={removeLorryMutation.isPending}
-                            data-testid={`button-remove-${lorry.id}`}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+                          {/* Weighed lorries keep their weighments; they are completed, not removed */}
+                          {!lorry.weighmentCount && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              onClick={() => removeLorryMutation.mutate(lorry.id)}
+                              disabled={removeLorryMutation.isPending}
+                              data-testid={`button-remove-${lorry.id}`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -0,0 +1,219 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToleranceBadge } from "@/components/weighment-badges";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { apiRequest } from "@/lib/queryClient";
+import { ClipboardCheck, Check, X } from "lucide-react";
+import type { WeighmentWithLorry } from "@shared/schema";
+
+type ReviewDraft = {
+  finalWeight: string;
+  reason: string;
+};
+
+export function ReviewQueue() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { subscribe } = useWebSocket();
+
+  const [reviewer, setReviewer] = useState("");
+  const [drafts, setDrafts] = useState<Record<string, ReviewDraft>>({});
+
+  const { data: pending = [], isLoading } = useQuery<WeighmentWithLorry[]>({
+    queryKey: ['/api/weighments/review-queue']
+  });
+
+  // Refresh when weighments are flagged or another supervisor decides
+  useEffect(() => {
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/weighments/review-queue'] });
+    const unsubscribeCreated = subscribe('weighment_created', refresh);
+    const unsubscribeReviewed = subscribe('weighment_reviewed', refresh);
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeReviewed();
+    };
+  }, [subscribe, queryClient]);
+
+  const getDraft = (id: string): ReviewDraft => drafts[id] || { finalWeight: '', reason: '' };
+
+  const updateDraft = (id: string, field: keyof ReviewDraft, value: string) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...getDraft(id), [field]: value } }));
+  };
+
+  const onDecided = (id: string, description: string) => {
+    toast({ title: "Success", description });
+    setDrafts(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    queryClient.invalidateQueries({ queryKey: ['/api/weighments/review-queue'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/weighments/lorry'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
+  };
+
+  const onFailed = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (weighment: WeighmentWithLorry) => {
+      const draft = getDraft(weighment.id);
+      const response = await apiRequest('POST', `/api/weighments/${weighment.id}/approve`, {
+        reviewedBy: reviewer,
+        finalWeight: draft.finalWeight ? parseFloat(draft.finalWeight) : undefined,
+        reason: draft.reason || undefined
+      });
+      return response.json();
+    },
+    onSuccess: (weighment) => onDecided(weighment.id, `Weighment ${weighment.tagId} approved`),
+    onError: onFailed
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (weighment: WeighmentWithLorry) => {
+      const response = await apiRequest('POST', `/api/weighments/${weighment.id}/reject`, {
+        reviewedBy: reviewer,
+        reason: getDraft(weighment.id).reason
+      });
+      return response.json();
+    },
+    onSuccess: (weighment) => onDecided(weighment.id, `Weighment ${weighment.tagId} rejected`),
+    onError: onFailed
+  });
+
+  const isPending = approveMutation.isPending || rejectMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-xl font-bold flex items-center gap-3" data-testid="heading-review-queue">
+                <ClipboardCheck className="text-primary" />
+                Manual Review Queue
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                Out-of-tolerance weighments held for supervisor approval
+              </p>
+            </div>
+            <div className="w-64">
+              <Label htmlFor="reviewer" className="text-xs text-muted-foreground">Supervisor</Label>
+              <Input
+                id="reviewer"
+                type="text"
+                placeholder="Your name"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+                className="mt-2"
+                data-testid="input-reviewer"
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="text-center py-8" data-testid="loading-review-queue">
+              Loading review queue...
+            </div>
+          ) : pending.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="empty-review-queue">
+              No weighments awaiting review
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Time</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Lorry</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Tag ID</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">PLC (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Serial (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Final (kg)</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Override (kg)</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Reason</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {pending.map((weighment) => {
+                    const draft = getDraft(weighment.id);
+                    return (
+                      <tr key={weighment.id} data-testid={`row-review-${weighment.id}`}>
+                        <td className="py-3 px-2 text-sm">
+                          {weighment.createdAt ? new Date(weighment.createdAt).toLocaleTimeString() : '—'}
+                        </td>
+                        <td className="py-3 px-2 font-medium">{weighment.lorry.lorryNumber}</td>
+                        <td className="py-3 px-2 font-mono">{weighment.tagId}</td>
+                        <td className="py-3 px-2 text-right font-mono">{weighment.plcWeight?.toFixed(3) ?? '—'}</td>
+                        <td className="py-3 px-2 text-right font-mono">{weighment.serialWeight?.toFixed(3) ?? '—'}</td>
+                        <td className="py-3 px-2 text-right font-mono font-bold text-primary">{weighment.finalWeight.toFixed(3)}</td>
+                        <td className="py-3 px-2"><ToleranceBadge status={weighment.toleranceStatus} /></td>
+                        <td className="py-3 px-2">
+                          <Input
+                            type="number"
+                            step="0.001"
+                            placeholder={weighment.finalWeight.toFixed(3)}
+                            value={draft.finalWeight}
+                            onChange={(e) => updateDraft(weighment.id, 'finalWeight', e.target.value)}
+                            className="w-28"
+                            data-testid={`input-override-${weighment.id}`}
+                          />
+                        </td>
+                        <td className="py-3 px-2">
+                          <Input
+                            type="text"
+                            placeholder="Required to reject or override"
+                            value={draft.reason}
+                            onChange={(e) => updateDraft(weighment.id, 'reason', e.target.value)}
+                            className="w-56"
+                            data-testid={`input-reason-${weighment.id}`}
+                          />
+                        </td>
+                        <td className="py-3 px-2 text-right">
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              size="sm"
+                              className="bg-primary text-primary-foreground"
+                              onClick={() => approveMutation.mutate(weighment)}
+                              disabled={isPending || !reviewer || (!!draft.finalWeight && !draft.reason)}
+                              data-testid={`button-approve-${weighment.id}`}
+                            >
+                              <Check className="h-3 w-3 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => rejectMutation.mutate(weighment)}
+                              disabled={isPending || !reviewer || !draft.reason}
+                              data-testid={`button-reject-${weighment.id}`}
+                            >
+                              <X className="h-3 w-3 mr-1" />
+                              Reject
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
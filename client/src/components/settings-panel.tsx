@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { WebhookSettings } from "@/components/webhook-settings";
 import { 
   Cloud, 
   Wifi, 
@@ -16,9 +17,26 @@ import {
   Save, 
   TestTube,
   CheckCircle,
-  XCircle
+  XCircle,
+  Activity,
+  ScanLine,
+  Copy,
+  Database,
+  Printer
 } from "lucide-react";
 
+// Weighment values that can be written to Odoo, in the order they are shown
+const ODOO_MAPPED_FIELDS: { key: string; label: string }[] = [
+  { key: "weighmentId", label: "Weighment ID" },
+  { key: "idempotencyKey", label: "Idempotency Key" },
+  { key: "tagId", label: "Tag ID" },
+  { key: "lorryNumber", label: "Lorry Number" },
+  { key: "weight", label: "Gross Weight" },
+  { key: "tareWeight", label: "Tare Weight" },
+  { key: "netWeight", label: "Net Weight" },
+  { key: "timestamp", label: "Timestamp" }
+];
+
 interface SettingsCategory {
   api: {
     endpoint: string;
@@ -40,11 +58,63 @@ interface SettingsCategory {
     stopBits: number;
     parity: string;
   };
+  tagReader: {
+    mode: string;
+    port: string;
+    baudRate: number;
+    debounceMs: number;
+  };
   tolerance: {
     toleranceRange: number;
     weightSourcePriority: string;
     validationAction: string;
   };
+  stability: {
+    enabled: boolean;
+    threshold: number;
+    stableDurationMs: number;
+    maxReadingAgeMs: number;
+  };
+  duplicates: {
+    action: string;
+    scope: string;
+  };
+  odoo: {
+    enabled: boolean;
+    url: string;
+    db: string;
+    username: string;
+    password: string;
+    model: string;
+    fieldMapping: Record<string, string>;
+    lorryModel: string;
+    lorryNumberField: string;
+    supplierModel: string;
+  };
+  documents: {
+    siteName: string;
+    ticketLayout: string;
+    deliveryNoteLayout: string;
+    printTicketOnSave: boolean;
+    printDeliveryNoteOnComplete: boolean;
+  };
+  printer: {
+    enabled: boolean;
+    mode: string;
+    port: string;
+    baudRate: number;
+    filePath: string;
+    columns: number;
+    autoPrintTickets: boolean;
+    autoPrintSummary: boolean;
+  };
+}
+
+interface PrintJob {
+  label: string;
+  bytes: number;
+  printedAt: string;
+  text: string;
 }
 
 export function SettingsPanel() {
@@ -72,10 +142,63 @@ export function SettingsPanel() {
       stopBits: 1,
       parity: "none"
     },
+    tagReader: {
+      mode: "rfid",
+      port: "COM4",
+      baudRate: 9600,
+      debounceMs: 3000
+    },
     tolerance: {
       toleranceRange: 0.05,
       weightSourcePriority: "plc",
       validationAction: "log"
+    },
+    stability: {
+      enabled: true,
+      threshold: 0.1,
+      stableDurationMs: 2000,
+      maxReadingAgeMs: 5000
+    },
+    duplicates: {
+      action: "reject",
+      scope: "day"
+    },
+    odoo: {
+      enabled: false,
+      url: "",
+      db: "",
+      username: "",
+      password: "",
+      model: "weighment.weighment",
+      fieldMapping: {
+        weighmentId: "x_weighment_id",
+        tagId: "tag_id",
+        lorryNumber: "lorry_number",
+        weight: "final_weight",
+        tareWeight: "tare_weight",
+        netWeight: "net_weight",
+        timestamp: "timestamp"
+      },
+      lorryModel: "fleet.vehicle",
+      lorryNumberField: "license_plate",
+      supplierModel: "res.partner"
+    },
+    documents: {
+      siteName: "WeightSyncPro",
+      ticketLayout: "thermal",
+      deliveryNoteLayout: "a4",
+      printTicketOnSave: false,
+      printDeliveryNoteOnComplete: true
+    },
+    printer: {
+      enabled: false,
+      mode: "serial",
+      port: "COM5",
+      baudRate: 9600,
+      filePath: "/dev/usb/lp0",
+      columns: 48,
+      autoPrintTickets: true,
+      autoPrintSummary: true
     }
   });
 
@@ -83,10 +206,12 @@ export function SettingsPanel() {
     api: boolean | null;
     mqtt: boolean | null;
     serial: boolean | null;
+    odoo: boolean | null;
   }>({
     api: null,
     mqtt: null,
-    serial: null
+    serial: null,
+    odoo: null
   });
 
   // Load settings for each category
@@ -102,10 +227,41 @@ export function SettingsPanel() {
     queryKey: ['/api/settings/serial']
   });
 
+  const { data: tagReaderSettings } = useQuery({
+    queryKey: ['/api/settings/tagReader']
+  });
+
   const { data: toleranceSettings } = useQuery({
     queryKey: ['/api/settings/tolerance']
   });
 
+  const { data: stabilitySettings } = useQuery({
+    queryKey: ['/api/settings/stability']
+  });
+
+  const { data: duplicateSettings } = useQuery({
+    queryKey: ['/api/settings/duplicates']
+  });
+
+  const { data: odooSettings } = useQuery({
+    queryKey: ['/api/settings/odoo']
+  });
+
+  const { data: documentSettings } = useQuery({
+    queryKey: ['/api/settings/documents']
+  });
+
+  const { data: printerSettings } = useQuery({
+    queryKey: ['/api/settings/printer']
+  });
+
+  // Only polled while the loopback sink is selected, to preview what would have printed
+  const { data: printJobs = [] } = useQuery<PrintJob[]>({
+    queryKey: ['/api/printer/jobs'],
+    enabled: settings.printer.mode === "loopback",
+    refetchInterval: 5000
+  });
+
   // Load settings when data is available
   useEffect(() => {
     if (apiSettings) {
@@ -125,12 +281,48 @@ export function SettingsPanel() {
     }
   }, [serialSettings]);
 
+  useEffect(() => {
+    if (tagReaderSettings) {
+      setSettings(prev => ({ ...prev, tagReader: { ...prev.tagReader, ...tagReaderSettings } }));
+    }
+  }, [tagReaderSettings]);
+
   useEffect(() => {
     if (toleranceSettings) {
       setSettings(prev => ({ ...prev, tolerance: { ...prev.tolerance, ...toleranceSettings } }));
     }
   }, [toleranceSettings]);
 
+  useEffect(() => {
+    if (stabilitySettings) {
+      setSettings(prev => ({ ...prev, stability: { ...prev.stability, ...stabilitySettings } }));
+    }
+  }, [stabilitySettings]);
+
+  useEffect(() => {
+    if (duplicateSettings) {
+      setSettings(prev => ({ ...prev, duplicates: { ...prev.duplicates, ...duplicateSettings } }));
+    }
+  }, [duplicateSettings]);
+
+  useEffect(() => {
+    if (odooSettings) {
+      setSettings(prev => ({ ...prev, odoo: { ...prev.odoo, ...odooSettings } }));
+    }
+  }, [odooSettings]);
+
+  useEffect(() => {
+    if (documentSettings) {
+      setSettings(prev => ({ ...prev, documents: { ...prev.documents, ...documentSettings } }));
+    }
+  }, [documentSettings]);
+
+  useEffect(() => {
+    if (printerSettings) {
+      setSettings(prev => ({ ...prev, printer: { ...prev.printer, ...printerSettings } }));
+    }
+  }, [printerSettings]);
+
   // Save settings mutation
   const saveSettingsMutation = useMutation({
     mutationFn: async ({ category, data }: { category: keyof SettingsCategory, data: any }) => {
@@ -152,6 +344,16 @@ export function SettingsPanel() {
         queryKey: [`/api/settings/${variables.category}`],
         exact: true
       });
+      if (variables.category === 'tagReader') {
+        queryClient.invalidateQueries({ queryKey: ['/api/tag-reader/status'] });
+      }
+      if (variables.category === 'printer') {
+        queryClient.invalidateQueries({ queryKey: ['/api/printer/status'] });
+      }
+      if (variables.category === 'odoo') {
+        queryClient.invalidateQueries({ queryKey: ['/api/odoo/lorries'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/odoo/suppliers'] });
+      }
     },
     onError: (_, variables) => {
       toast({
@@ -165,7 +367,8 @@ export function SettingsPanel() {
   // Test connection mutation
   const testConnectionMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/test-connection');
+      // Probe the values on screen, even if they have not been saved yet
+      const response = await apiRequest('POST', '/api/test-connection', settings.api);
       return response.json();
     },
     onSuccess: (data) => {
@@ -186,6 +389,52 @@ export function SettingsPanel() {
     }
   });
 
+  const testOdooMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/odoo/test-connection', settings.odoo);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setConnectionStatus(prev => ({ ...prev, odoo: data.success }));
+      toast({
+        title: data.success ? "Success" : "Error",
+        description: data.success
+          ? `Connected to Odoo ${data.data?.serverVersion ?? ""} as user #${data.data?.uid}`
+          : `Connection failed: ${data.error}`,
+        variant: data.success ? "default" : "destructive"
+      });
+    },
+    onError: () => {
+      setConnectionStatus(prev => ({ ...prev, odoo: false }));
+      toast({
+        title: "Error",
+        description: "Odoo connection test failed",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const testPrinterMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/printer/test');
+      return response.json() as Promise<PrintJob>;
+    },
+    onSuccess: (job) => {
+      toast({
+        title: "Success",
+        description: `Test page sent (${job.bytes} bytes)`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/printer/jobs'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Test print failed: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+
   const handleSaveCategory = (category: keyof SettingsCategory) => {
     saveSettingsMutation.mutate({
       category,
@@ -209,6 +458,16 @@ export function SettingsPanel() {
     }));
   };
 
+  const updateOdooMapping = (key: string, field: string) => {
+    setSettings(prev => ({
+      ...prev,
+      odoo: {
+        ...prev.odoo,
+        fieldMapping: { ...prev.odoo.fieldMapping, [key]: field.trim() }
+      }
+    }));
+  };
+
   const getConnectionBadge = (status: boolean | null, label: string) => {
     if (status === null) {
       return <Badge variant="secondary" data-testid={`connection-${label.toLowerCase()}`}>Not Tested</Badge>;
@@ -285,12 +544,19 @@ export function SettingsPanel() {
                 <Input
                   id="apiKey"
                   type="password"
-                  placeholder="Enter API credentials"
+                  placeholder={settings.api.authMethod === "basic" ? "username:password" : "Enter API credentials"}
                   value={settings.api.apiKey}
                   onChange={(e) => updateSetting('api', 'apiKey', e.target.value)}
                   className="mt-2"
                   data-testid="input-api-key"
                 />
+                <p className="text-xs text-muted-foreground mt-1">
+                  {settings.api.authMethod === "basic"
+                    ? "Sent as HTTP Basic credentials"
+                    : settings.api.authMethod === "apikey"
+                    ? "Sent in the X-API-Key header"
+                    : "Sent as a Bearer token"}
+                </p>
               </div>
               <div>
                 <Label htmlFor="retryAttempts" className="text-xs text-muted-foreground">Retry Attempts</Label>
@@ -328,6 +594,171 @@ export function SettingsPanel() {
         </CardContent>
       </Card>
 
+      {/* Odoo Connector */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-odoo-config">
+            <Database className="text-accent" />
+            Odoo Connector
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="odooEnabled" className="text-xs text-muted-foreground">Send Weighments To</Label>
+                <Select
+                  value={settings.odoo.enabled ? "on" : "off"}
+                  onValueChange={(value) => updateSetting('odoo', 'enabled', value === "on")}
+                >
+                  <SelectTrigger className="mt-2" data-testid="select-odoo-enabled">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="on">Odoo (XML-RPC)</SelectItem>
+                    <SelectItem value="off">API Endpoint</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="odooUrl" className="text-xs text-muted-foreground">Odoo URL</Label>
+                <Input
+                  id="odooUrl"
+                  type="url"
+                  placeholder="http://odoo-host:8069"
+                  value={settings.odoo.url}
+                  onChange={(e) => updateSetting('odoo', 'url', e.target.value)}
+                  className="mt-2"
+                  data-testid="input-odoo-url"
+                />
+              </div>
+              <div>
+                <Label htmlFor="odooDb" className="text-xs text-muted-foreground">Database</Label>
+                <Input
+                  id="odooDb"
+                  value={settings.odoo.db}
+                  onChange={(e) => updateSetting('odoo', 'db', e.target.value)}
+                  className="mt-2"
+                  data-testid="input-odoo-db"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="odooUser" className="text-xs text-muted-foreground">Username</Label>
+                  <Input
+                    id="odooUser"
+                    value={settings.odoo.username}
+                    onChange={(e) => updateSetting('odoo', 'username', e.target.value)}
+                    className="mt-2"
+                    data-testid="input-odoo-user"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="odooPassword" className="text-xs text-muted-foreground">Password / API Key</Label>
+                  <Input
+                    id="odooPassword"
+                    type="password"
+                    value={settings.odoo.password}
+                    onChange={(e) => updateSetting('odoo', 'password', e.target.value)}
+                    className="mt-2"
+                    data-testid="input-odoo-password"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="odooModel" className="text-xs text-muted-foreground">Weighment Model</Label>
+                <Input
+                  id="odooModel"
+                  value={settings.odoo.model}
+                  onChange={(e) => updateSetting('odoo', 'model', e.target.value)}
+                  className="mt-2 font-mono"
+                  data-testid="input-odoo-model"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="odooLorryModel" className="text-xs text-muted-foreground">Lorry Model</Label>
+                  <Input
+                    id="odooLorryModel"
+                    value={settings.odoo.lorryModel}
+                    onChange={(e) => updateSetting('odoo', 'lorryModel', e.target.value)}
+                    className="mt-2 font-mono"
+                    data-testid="input-odoo-lorry-model"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="odooLorryField" className="text-xs text-muted-foreground">Lorry Number Field</Label>
+                  <Input
+                    id="odooLorryField"
+                    value={settings.odoo.lorryNumberField}
+                    onChange={(e) => updateSetting('odoo', 'lorryNumberField', e.target.value)}
+                    className="mt-2 font-mono"
+                    data-testid="input-odoo-lorry-field"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="odooSupplierModel" className="text-xs text-muted-foreground">Supplier Model</Label>
+                  <Input
+                    id="odooSupplierModel"
+                    value={settings.odoo.supplierModel}
+                    onChange={(e) => updateSetting('odoo', 'supplierModel', e.target.value)}
+                    className="mt-2 font-mono"
+                    data-testid="input-odoo-supplier-model"
+                  />
+                </div>
+              </div>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <Label className="text-xs text-muted-foreground">Field Mapping</Label>
+                <div className="mt-2 space-y-2">
+                  {ODOO_MAPPED_FIELDS.map(({ key, label }) => (
+                    <div key={key} className="grid grid-cols-2 gap-4 items-center">
+                      <span className="text-sm">{label}</span>
+                      <Input
+                        placeholder="not sent"
+                        value={settings.odoo.fieldMapping[key] ?? ""}
+                        onChange={(e) => updateOdooMapping(key, e.target.value)}
+                        className="font-mono"
+                        data-testid={`input-odoo-field-${key}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                {settings.odoo.fieldMapping.weighmentId ? (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Weighment ID is used to update the existing Odoo record when a weighment is re-sent
+                  </p>
+                ) : (
+                  <p className="text-xs text-yellow-400 mt-1" data-testid="warning-odoo-weighment-id">
+                    Weighment ID is not mapped: every re-send or correction creates a new Odoo record
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 pt-4">
+                <Button
+                  onClick={() => testOdooMutation.mutate()}
+                  disabled={testOdooMutation.isPending}
+                  data-testid="button-test-odoo"
+                >
+                  <TestTube className="mr-2 h-4 w-4" />
+                  Test Connection
+                </Button>
+                {getConnectionBadge(connectionStatus.odoo, "Odoo")}
+              </div>
+              <Button
+                onClick={() => handleSaveCategory('odoo')}
+                disabled={saveSettingsMutation.isPending}
+                className="w-full"
+                data-testid="button-save-odoo"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                Save Odoo Settings
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* MQTT Settings */}
       <Card className="glass-card">
         <CardContent className="p-6">
@@ -475,6 +906,398 @@ export function SettingsPanel() {
         </CardContent>
       </Card>
 
+      {/* Weight Stability Settings */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-stability-config">
+            <Activity className="text-accent" />
+            Weight Stability Settings
+          </h3>
+          
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div>
+              <Label htmlFor="stabilityEnabled" className="text-xs text-muted-foreground">Stability Check</Label>
+              <Select 
+                value={settings.stability.enabled ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('stability', 'enabled', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-stability-enabled">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Require Stable Weight</SelectItem>
+                  <SelectItem value="off">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="stabilityThreshold" className="text-xs text-muted-foreground">Max Deviation (kg)</Label>
+              <Input
+                id="stabilityThreshold"
+                type="number"
+                step="0.001"
+                value={settings.stability.threshold}
+                onChange={(e) => updateSetting('stability', 'threshold', parseFloat(e.target.value))}
+                className="mt-2"
+                data-testid="input-stability-threshold"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Standard deviation allowed across the window</p>
+            </div>
+            <div>
+              <Label htmlFor="stableDuration" className="text-xs text-muted-foreground">Stable Duration (ms)</Label>
+              <Input
+                id="stableDuration"
+                type="number"
+                step="100"
+                value={settings.stability.stableDurationMs}
+                onChange={(e) => updateSetting('stability', 'stableDurationMs', parseInt(e.target.value))}
+                className="mt-2"
+                data-testid="input-stable-duration"
+              />
+              <p className="text-xs text-muted-foreground mt-1">How long readings must stay within the limit</p>
+            </div>
+            <div>
+              <Label htmlFor="maxReadingAge" className="text-xs text-muted-foreground">Max Reading Age (ms)</Label>
+              <Input
+                id="maxReadingAge"
+                type="number"
+                step="500"
+                value={settings.stability.maxReadingAgeMs}
+                onChange={(e) => updateSetting('stability', 'maxReadingAgeMs', parseInt(e.target.value))}
+                className="mt-2"
+                data-testid="input-max-reading-age"
+              />
+              <p className="text-xs text-muted-foreground mt-1">A scale silent for longer is treated as unstable</p>
+            </div>
+          </div>
+          
+          <div className="mt-6">
+            <Button 
+              onClick={() => handleSaveCategory('stability')}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-stability"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Stability Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Duplicate Tag Settings */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-duplicates-config">
+            <Copy className="text-accent" />
+            Duplicate Tag Detection
+          </h3>
+          
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <Label htmlFor="duplicateAction" className="text-xs text-muted-foreground">When a Tag Repeats</Label>
+              <Select 
+                value={settings.duplicates.action} 
+                onValueChange={(value) => updateSetting('duplicates', 'action', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-duplicate-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="reject">Reject Weighment</SelectItem>
+                  <SelectItem value="warn">Save and Log Warning</SelectItem>
+                  <SelectItem value="allow_with_reason">Allow With Reason</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="duplicateScope" className="text-xs text-muted-foreground">Check Against</Label>
+              <Select 
+                value={settings.duplicates.scope} 
+                onValueChange={(value) => updateSetting('duplicates', 'scope', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-duplicate-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lorry">Same Lorry</SelectItem>
+                  <SelectItem value="day">Today (All Lorries)</SelectItem>
+                  <SelectItem value="all">All Time</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          <div className="mt-6">
+            <Button 
+              onClick={() => handleSaveCategory('duplicates')}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-duplicates"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Duplicate Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Printed Documents */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-documents-config">
+            <Printer className="text-accent" />
+            Tickets &amp; Delivery Notes
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <Label htmlFor="documentSiteName" className="text-xs text-muted-foreground">Site Name</Label>
+              <Input
+                id="documentSiteName"
+                value={settings.documents.siteName}
+                onChange={(e) => updateSetting('documents', 'siteName', e.target.value)}
+                className="mt-2"
+                data-testid="input-document-site-name"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Printed at the top of every ticket and note</p>
+            </div>
+            <div>
+              <Label htmlFor="ticketLayout" className="text-xs text-muted-foreground">Bag Ticket</Label>
+              <Select 
+                value={settings.documents.ticketLayout} 
+                onValueChange={(value) => updateSetting('documents', 'ticketLayout', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-ticket-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="thermal">Thermal 80mm</SelectItem>
+                  <SelectItem value="a4">A4</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="deliveryNoteLayout" className="text-xs text-muted-foreground">Delivery Note</Label>
+              <Select 
+                value={settings.documents.deliveryNoteLayout} 
+                onValueChange={(value) => updateSetting('documents', 'deliveryNoteLayout', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-delivery-note-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="thermal">Thermal 80mm</SelectItem>
+                  <SelectItem value="a4">A4</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="printTicketOnSave" className="text-xs text-muted-foreground">After Each Bag</Label>
+              <Select 
+                value={settings.documents.printTicketOnSave ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('documents', 'printTicketOnSave', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-print-ticket-on-save">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Print Ticket</SelectItem>
+                  <SelectItem value="off">Don't Print</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="printDeliveryNoteOnComplete" className="text-xs text-muted-foreground">When a Lorry Completes</Label>
+              <Select 
+                value={settings.documents.printDeliveryNoteOnComplete ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('documents', 'printDeliveryNoteOnComplete', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-print-note-on-complete">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Print Delivery Note</SelectItem>
+                  <SelectItem value="off">Don't Print</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <Button 
+              onClick={() => handleSaveCategory('documents')}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-documents"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Document Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Receipt Printer */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-printer-config">
+            <Printer className="text-accent" />
+            Receipt Printer (ESC/POS)
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <Label htmlFor="printerEnabled" className="text-xs text-muted-foreground">Printer</Label>
+              <Select 
+                value={settings.printer.enabled ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('printer', 'enabled', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-printer-enabled">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Enabled</SelectItem>
+                  <SelectItem value="off">Disabled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="printerMode" className="text-xs text-muted-foreground">Connection</Label>
+              <Select 
+                value={settings.printer.mode} 
+                onValueChange={(value) => updateSetting('printer', 'mode', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-printer-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="serial">Serial / USB COM Port</SelectItem>
+                  <SelectItem value="file">Device or File</SelectItem>
+                  <SelectItem value="loopback">Loopback (No Hardware)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="printerColumns" className="text-xs text-muted-foreground">Paper Width</Label>
+              <Select 
+                value={String(settings.printer.columns)} 
+                onValueChange={(value) => updateSetting('printer', 'columns', parseInt(value))}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-printer-columns">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="48">80mm (48 characters)</SelectItem>
+                  <SelectItem value="32">58mm (32 characters)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {settings.printer.mode === "serial" && (
+              <>
+                <div>
+                  <Label htmlFor="printerPort" className="text-xs text-muted-foreground">Port</Label>
+                  <Input
+                    id="printerPort"
+                    value={settings.printer.port}
+                    onChange={(e) => updateSetting('printer', 'port', e.target.value)}
+                    className="mt-2 font-mono"
+                    data-testid="input-printer-port"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="printerBaudRate" className="text-xs text-muted-foreground">Baud Rate</Label>
+                  <Input
+                    id="printerBaudRate"
+                    type="number"
+                    value={settings.printer.baudRate}
+                    onChange={(e) => updateSetting('printer', 'baudRate', parseInt(e.target.value))}
+                    className="mt-2 font-mono"
+                    data-testid="input-printer-baud-rate"
+                  />
+                </div>
+              </>
+            )}
+            {settings.printer.mode === "file" && (
+              <div>
+                <Label htmlFor="printerFilePath" className="text-xs text-muted-foreground">Device or File Path</Label>
+                <Input
+                  id="printerFilePath"
+                  value={settings.printer.filePath}
+                  onChange={(e) => updateSetting('printer', 'filePath', e.target.value)}
+                  className="mt-2 font-mono"
+                  data-testid="input-printer-file-path"
+                />
+                <p className="text-xs text-muted-foreground mt-1">Raw bytes are appended, e.g. /dev/usb/lp0</p>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="printerAutoTickets" className="text-xs text-muted-foreground">After Each Bag</Label>
+              <Select 
+                value={settings.printer.autoPrintTickets ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('printer', 'autoPrintTickets', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-printer-auto-tickets">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Print Ticket</SelectItem>
+                  <SelectItem value="off">Don't Print</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="printerAutoSummary" className="text-xs text-muted-foreground">When a Lorry Completes</Label>
+              <Select 
+                value={settings.printer.autoPrintSummary ? "on" : "off"} 
+                onValueChange={(value) => updateSetting('printer', 'autoPrintSummary', value === "on")}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-printer-auto-summary">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="on">Print Lorry Summary</SelectItem>
+                  <SelectItem value="off">Don't Print</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {settings.printer.mode === "loopback" && (
+            <div className="mt-6">
+              <Label className="text-xs text-muted-foreground">Last Loopback Job</Label>
+              {printJobs.length === 0 ? (
+                <p className="text-sm text-muted-foreground mt-2" data-testid="text-no-print-jobs">Nothing printed yet</p>
+              ) : (
+                <pre
+                  className="mt-2 p-3 rounded-lg border border-border bg-muted/30 text-xs font-mono overflow-x-auto max-h-80"
+                  data-testid="text-last-print-job"
+                >
+                  {printJobs[0].text}
+                </pre>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6 flex gap-4">
+            <Button 
+              onClick={() => handleSaveCategory('printer')}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-printer"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Printer Settings
+            </Button>
+            <Button 
+              variant="secondary"
+              onClick={() => testPrinterMutation.mutate()}
+              disabled={testPrinterMutation.isPending || !settings.printer.enabled}
+              data-testid="button-test-printer"
+            >
+              <TestTube className="mr-2 h-4 w-4" />
+              Print Test Page
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Serial Port Settings */}
       <Card className="glass-card">
         <CardContent className="p-6">
@@ -564,6 +1387,100 @@ export function SettingsPanel() {
         </CardContent>
       </Card>
 
+      {/* Tag Reader Settings */}
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-tag-reader-config">
+            <ScanLine className="text-accent" />
+            Tag Reader Configuration
+          </h3>
+          
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="tagReaderMode" className="text-xs text-muted-foreground">Mode</Label>
+              <Select 
+                value={settings.tagReader.mode} 
+                onValueChange={(value) => updateSetting('tagReader', 'mode', value)}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-tag-reader-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rfid">RFID Reader (Serial/USB)</SelectItem>
+                  <SelectItem value="barcode">Barcode (Keyboard Wedge)</SelectItem>
+                  <SelectItem value="simulator">Simulator</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tagReaderPort" className="text-xs text-muted-foreground">Port</Label>
+              <Select 
+                value={settings.tagReader.port} 
+                onValueChange={(value) => updateSetting('tagReader', 'port', value)}
+                disabled={settings.tagReader.mode !== "rfid"}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-tag-reader-port">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="COM1">COM1</SelectItem>
+                  <SelectItem value="COM2">COM2</SelectItem>
+                  <SelectItem value="COM3">COM3</SelectItem>
+                  <SelectItem value="COM4">COM4</SelectItem>
+                  <SelectItem value="COM5">COM5</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tagReaderBaudRate" className="text-xs text-muted-foreground">Baud Rate</Label>
+              <Select 
+                value={settings.tagReader.baudRate.toString()} 
+                onValueChange={(value) => updateSetting('tagReader', 'baudRate', parseInt(value))}
+                disabled={settings.tagReader.mode !== "rfid"}
+              >
+                <SelectTrigger className="mt-2" data-testid="select-tag-reader-baud-rate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="9600">9600</SelectItem>
+                  <SelectItem value="19200">19200</SelectItem>
+                  <SelectItem value="38400">38400</SelectItem>
+                  <SelectItem value="57600">57600</SelectItem>
+                  <SelectItem value="115200">115200</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tagDebounce" className="text-xs text-muted-foreground">Repeat Window (ms)</Label>
+              <Input
+                id="tagDebounce"
+                type="number"
+                step="500"
+                value={settings.tagReader.debounceMs}
+                onChange={(e) => updateSetting('tagReader', 'debounceMs', parseInt(e.target.value))}
+                className="mt-2"
+                data-testid="input-tag-debounce"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Repeated reads of the same tag are ignored</p>
+            </div>
+          </div>
+
+          <div className="mt-6">
+            <Button 
+              onClick={() => handleSaveCategory('tagReader')}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-tag-reader"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save Tag Reader Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Webhooks */}
+      <WebhookSettings />
+
       {/* Save All Settings */}
       <div className="flex justify-end">
         <Button 
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Webhook, Plus, Trash2, Copy, RotateCcw } from "lucide-react";
+import { WEBHOOK_EVENTS, type WebhookDelivery, type WebhookSubscription } from "@shared/schema";
+
+export function WebhookSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [form, setForm] = useState({
+    url: "",
+    description: "",
+    events: [...WEBHOOK_EVENTS] as string[]
+  });
+  // The server returns a subscription's whole secret only when it is created
+  const [createdSecret, setCreatedSecret] = useState<{ url: string; secret: string } | null>(null);
+
+  const { data: subscriptions = [] } = useQuery<WebhookSubscription[]>({
+    queryKey: ['/api/webhooks']
+  });
+
+  const { data: deliveries = [] } = useQuery<WebhookDelivery[]>({
+    queryKey: ['/api/webhook-deliveries'],
+    refetchInterval: 10000
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/webhooks'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/webhook-deliveries'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/webhooks', {
+        url: form.url.trim(),
+        description: form.description.trim() || null,
+        events: form.events
+      });
+      return response.json() as Promise<WebhookSubscription>;
+    },
+    onSuccess: (subscription) => {
+      toast({
+        title: "Success",
+        description: `Webhook added for ${subscription.url}`
+      });
+      setForm({ url: "", description: "", events: [...WEBHOOK_EVENTS] });
+      setCreatedSecret({ url: subscription.url, secret: subscription.secret });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: string; active: boolean }) => {
+      await apiRequest('PATCH', `/api/webhooks/${id}`, { active });
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/webhooks/${id}`);
+    },
+    onSuccess: invalidate
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/webhook-deliveries/${id}/redeliver`);
+    },
+    onSuccess: () => {
+      toast({ title: "Success", description: "Delivery queued again" });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Copied", description: "Signing secret copied to clipboard" });
+  };
+
+  const subscriptionUrl = (id: string) =>
+    subscriptions.find(s => s.id === id)?.url ?? "—";
+
+  const getDeliveryBadge = (status: string) => {
+    switch (status) {
+      case "delivered":
+        return <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Delivered</Badge>;
+      case "pending":
+        return <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30">Retrying</Badge>;
+      case "dead":
+        return <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Failed</Badge>;
+      default:
+        return <Badge variant="secondary">Cancelled</Badge>;
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-bold mb-4 flex items-center gap-3" data-testid="heading-webhooks">
+          <Webhook className="text-accent" />
+          Webhooks
+        </h3>
+        <p className="text-xs text-muted-foreground mb-4">
+          Events are POSTed as JSON with an X-WeightSync-Signature header: sha256 HMAC of
+          "timestamp.body" using the subscription secret, with the timestamp in X-WeightSync-Timestamp.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="webhookUrl" className="text-xs text-muted-foreground">Endpoint URL</Label>
+              <Input
+                id="webhookUrl"
+                type="url"
+                placeholder="https://payroll.example.com/hooks/weighsync"
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                className="mt-2"
+                data-testid="input-webhook-url"
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhookDescription" className="text-xs text-muted-foreground">Description</Label>
+              <Input
+                id="webhookDescription"
+                placeholder="WhatsApp notifier"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                className="mt-2"
+                data-testid="input-webhook-description"
+              />
+            </div>
+          </div>
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs text-muted-foreground">Events</Label>
+              <div className="mt-2 space-y-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-${event}`}
+                    />
+                    {event}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !form.url.trim() || form.events.length === 0}
+              className="w-full"
+              data-testid="button-add-webhook"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Webhook
+            </Button>
+          </div>
+        </div>
+
+        {createdSecret && (
+          <div
+            className="mt-6 p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/10"
+            data-testid="webhook-created-secret"
+          >
+            <div className="text-sm">
+              Signing secret for <span className="font-mono">{createdSecret.url}</span>. Copy it now; it is not shown again.
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <code className="font-mono text-xs break-all">{createdSecret.secret}</code>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => copySecret(createdSecret.secret)}
+                title="Copy signing secret"
+                data-testid="button-copy-secret"
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setCreatedSecret(null)}
+                data-testid="button-dismiss-secret"
+              >
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {subscriptions.length > 0 && (
+          <div className="mt-6 space-y-3">
+            {subscriptions.map((subscription) => (
+              <div
+                key={subscription.id}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border"
+                data-testid={`webhook-${subscription.id}`}
+              >
+                <div className="min-w-0">
+                  <div className="font-mono text-sm truncate">{subscription.url}</div>
+                  {subscription.description && (
+                    <div className="text-xs text-muted-foreground">{subscription.description}</div>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {subscription.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="text-xs font-mono">{event}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span
+                    className="font-mono text-xs text-muted-foreground"
+                    title="Signing secret"
+                    data-testid={`text-secret-${subscription.id}`}
+                  >
+                    {subscription.secret}
+                  </span>
+                  <Switch
+                    checked={subscription.active}
+                    onCheckedChange={(active) => toggleMutation.mutate({ id: subscription.id, active })}
+                    data-testid={`switch-webhook-${subscription.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => deleteMutation.mutate(subscription.id)}
+                    data-testid={`button-delete-webhook-${subscription.id}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <h4 className="text-sm font-semibold mt-6 mb-2">Recent Deliveries</h4>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-deliveries">No deliveries yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Time</th>
+                  <th className="text-left py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Event</th>
+                  <th className="text-left py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Endpoint</th>
+                  <th className="text-left py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="text-right py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Attempts</th>
+                  <th className="text-left py-2 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Response</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                    <td className="py-2 px-2 text-sm">
+                      {delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : '—'}
+                    </td>
+                    <td className="py-2 px-2 text-sm font-mono">{delivery.event}</td>
+                    <td className="py-2 px-2 text-sm font-mono truncate max-w-[16rem]">
+                      {subscriptionUrl(delivery.subscriptionId)}
+                    </td>
+                    <td className="py-2 px-2">{getDeliveryBadge(delivery.status)}</td>
+                    <td className="py-2 px-2 text-sm text-right font-mono">{delivery.attempts}</td>
+                    <td className="py-2 px-2 text-xs text-muted-foreground">
+                      {delivery.lastError ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {delivery.status !== "pending" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => redeliverMutation.mutate(delivery.id)}
+                          disabled={redeliverMutation.isPending}
+                          title="Redeliver"
+                          data-testid={`button-redeliver-${delivery.id}`}
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
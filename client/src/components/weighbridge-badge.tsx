@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { weighbridgeState, type LorryQueue } from '@shared/schema';
+
+// In/out state of a lorry weighed on the weighbridge; nothing for bag lorries
+export function WeighbridgeBadge({ lorry }: { lorry: LorryQueue }) {
+  if (lorry.weighingMode !== 'weighbridge') return null;
+
+  switch (weighbridgeState(lorry)) {
+    case 'awaiting_gross':
+      return <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30" data-testid={`weighbridge-awaiting-gross-${lorry.id}`}>Awaiting Weigh-In</Badge>;
+    case 'awaiting_tare':
+      return <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30" data-testid={`weighbridge-awaiting-tare-${lorry.id}`}>Weighed In</Badge>;
+    case 'complete':
+      return <Badge className="bg-green-500/20 text-green-400 border-green-500/30" data-testid={`weighbridge-complete-${lorry.id}`}>Weighed Out</Badge>;
+  }
+}
+
+// Net of a weighbridge lorry once it has been weighed in and out
+export function weighbridgeNet(lorry: LorryQueue): number | null {
+  return lorry.grossWeight != null && lorry.tareWeight != null ? lorry.grossWeight - lorry.tareWeight : null;
+}
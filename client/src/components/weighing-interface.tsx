@@ -1,11 +1,16 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { apiRequest } from "@/lib/queryClient";
+import { printPdf, ticketUrl, deliveryNoteUrl } from "@/lib/print";
+import { WeighmentCorrectionDialog, type CorrectionMode } from "@/components/weighment-correction-dialog";
+import { WeighbridgeBadge, weighbridgeNet } from "@/components/weighbridge-badge";
+import { ReviewBadge, ToleranceBadge } from "@/components/weighment-badges";
 import { 
   Microchip, 
   Usb, 
@@ -13,9 +18,24 @@ import {
   RotateCcw, 
   Save, 
   Check,
-  History
+  History,
+  Pencil,
+  Ban,
+  Printer,
+  FileText
 } from "lucide-react";
-import type { WeightReading, Weighment, LorryWithTareConfig } from "@shared/schema";
+import {
+  UNCOUNTED_WEIGHMENT_STATUSES,
+  weighbridgeState,
+  type WeightReading,
+  type Weighment,
+  type LorryWithTareConfig
+} from "@shared/schema";
+
+// crypto.randomUUID is only available on HTTPS, and stations are often reached over plain HTTP
+function newIdempotencyKey(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
 
 export function WeighingInterface() {
   const { toast } = useToast();
@@ -28,7 +48,15 @@ export function WeighingInterface() {
     timestamp: new Date()
   });
   
+  // Server-side stability verdict per source (undefined until the first reading)
+  const [stability, setStability] = useState<{ plc?: boolean; serial?: boolean }>({});
+
   const [currentTag, setCurrentTag] = useState<string>("");
+  const [tagReadAt, setTagReadAt] = useState<Date | null>(null);
+  // Set when the server asks for a reason before recording a repeated tag
+  const [duplicatePrompt, setDuplicatePrompt] = useState<string | null>(null);
+  const [duplicateReason, setDuplicateReason] = useState("");
+  const [correction, setCorrection] = useState<{ weighment: Weighment; mode: CorrectionMode } | null>(null);
   const [connectionStatus, setConnectionStatus] = useState({
     plc: false,
     serial: false,
@@ -41,6 +69,8 @@ export function WeighingInterface() {
   });
   
   const activeLorry = lorryQueue.find((l: LorryWithTareConfig) => l.status === 'active') as LorryWithTareConfig | undefined;
+  // Weighbridge lorries take two passes: gross on the way in, tare on the way out
+  const bridgeState = activeLorry?.weighingMode === 'weighbridge' ? weighbridgeState(activeLorry) : undefined;
 
   // Get weighments for active lorry
   const { data: weighments = [] } = useQuery<Weighment[]>({
@@ -48,6 +78,33 @@ export function WeighingInterface() {
     enabled: !!activeLorry
   });
 
+  // Tolerance settings drive the on-screen preview; the server recomputes on save
+  const { data: toleranceSettings } = useQuery<{
+    toleranceRange?: number;
+    weightSourcePriority?: "plc" | "serial" | "average";
+  }>({
+    queryKey: ['/api/settings/tolerance']
+  });
+
+  // Layouts are chosen on the server; these only say when to print without being asked
+  const { data: documentSettings } = useQuery<{
+    printTicketOnSave?: boolean;
+    printDeliveryNoteOnComplete?: boolean;
+  }>({
+    queryKey: ['/api/settings/documents']
+  });
+
+  const { data: printerStatus } = useQuery<{ enabled: boolean; connected: boolean }>({
+    queryKey: ['/api/printer/status']
+  });
+
+  const { data: tagReaderStatus } = useQuery<{ mode: "rfid" | "barcode" | "simulator"; connected: boolean }>({
+    queryKey: ['/api/tag-reader/status']
+  });
+
+  const toleranceRange = toleranceSettings?.toleranceRange ?? 0.05;
+  const weightSourcePriority = toleranceSettings?.weightSourcePriority ?? "plc";
+
   // Subscribe to WebSocket updates
   useEffect(() => {
     const unsubscribeWeight = subscribe('weight_update', (data) => {
@@ -56,10 +113,16 @@ export function WeighingInterface() {
         [data.source === 'plc' ? 'plcWeight' : 'serialWeight']: data.weight,
         timestamp: new Date()
       }));
+      if (typeof data.stable === 'boolean') {
+        setStability(prev => ({ ...prev, [data.source]: data.stable }));
+      }
     });
 
     const unsubscribeTag = subscribe('tag_update', (data) => {
       setCurrentTag(data.tagId);
+      setTagReadAt(data.readAt ? new Date(data.readAt) : new Date());
+      setDuplicatePrompt(null);
+      setDuplicateReason("");
     });
 
     const unsubscribeMQTT = subscribe('mqtt_status', (data) => {
@@ -83,14 +146,56 @@ export function WeighingInterface() {
     };
   }, [subscribe]);
 
-  // Calculate weight validation
+  // Keyboard-wedge scanners "type" the code followed by Enter. Keystrokes
+  // arriving faster than a person can type are buffered and forwarded to the
+  // server, which emits tag_update like any other reader.
+  const scanBuffer = useRef({ code: "", lastKeyAt: 0 });
+
+  useEffect(() => {
+    if (tagReaderStatus?.mode !== "barcode") return;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) {
+        return;
+      }
+
+      const now = Date.now();
+      const buffer = scanBuffer.current;
+      if (now - buffer.lastKeyAt > 50) {
+        buffer.code = "";
+      }
+      buffer.lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        const code = buffer.code;
+        buffer.code = "";
+        if (code.length >= 4) {
+          apiRequest('POST', '/api/tag-reader/scan', { code }).catch((error) => {
+            toast({
+              title: "Scan Failed",
+              description: error.message,
+              variant: "destructive"
+            });
+          });
+        }
+      } else if (event.key.length === 1) {
+        buffer.code += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tagReaderStatus?.mode, toast]);
+
+  // Preview of the server-side validation (WeightValidator.validateWeights)
   const calculateValidation = () => {
     const { plcWeight, serialWeight } = currentWeights;
     
     if (!plcWeight && !serialWeight) {
       return {
         difference: 0,
-        tolerance: 0.05,
+        tolerance: toleranceRange,
         status: "error" as const,
         finalWeight: 0,
         weightSource: "plc" as const
@@ -102,7 +207,7 @@ export function WeighingInterface() {
       const weightSource: "plc" | "serial" = plcWeight ? "plc" : "serial";
       return {
         difference: 0,
-        tolerance: 0.05,
+        tolerance: toleranceRange,
         status: "good" as const,
         finalWeight,
         weightSource
@@ -110,53 +215,97 @@ export function WeighingInterface() {
     }
 
     const difference = Math.abs(plcWeight - serialWeight);
-    const tolerance = 0.05; // 50g tolerance
+    const tolerance = toleranceRange;
     
     const status = difference <= tolerance ? "good" : 
                   difference <= tolerance * 2 ? "warning" : "error";
 
+    const finalWeight = weightSourcePriority === "serial" ? serialWeight :
+                        weightSourcePriority === "average" ? (plcWeight + serialWeight) / 2 :
+                        plcWeight;
+
     return {
       difference,
       tolerance,
       status: status as "good" | "warning" | "error",
-      finalWeight: plcWeight, // Use PLC as primary
-      weightSource: "plc" as const
+      finalWeight,
+      weightSource: weightSourcePriority
     };
   };
 
   const validation = calculateValidation();
+  const isUnstable = stability.plc === false || stability.serial === false;
 
   // Save weighment
+  const pendingSaveRef = useRef<{ key: string; lorryId: string; tagId: string } | null>(null);
+
   const saveWeighmentMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ duplicateReason }: { duplicateReason?: string }) => {
       if (!activeLorry || !currentTag) {
         throw new Error("No active lorry or tag ID");
       }
 
-      const netWeight = validation.finalWeight - (activeLorry.tareConfig?.tareWeight || 0);
-      
+      // Every attempt to save this bag carries the same key, so a double click or a
+      // retry after a dropped response returns the first weighment instead of a second one
+      const pending = pendingSaveRef.current;
+      const idempotencyKey =
+        pending && pending.lorryId === activeLorry.id && pending.tagId === currentTag
+          ? pending.key
+          : newIdempotencyKey();
+      pendingSaveRef.current = { key: idempotencyKey, lorryId: activeLorry.id, tagId: currentTag };
+
+      // The server records weights from its own readings; what we send is only cross-checked
       const response = await apiRequest('POST', '/api/weighments', {
         lorryId: activeLorry.id,
         tagId: currentTag,
         plcWeight: currentWeights.plcWeight,
         serialWeight: currentWeights.serialWeight,
         finalWeight: validation.finalWeight,
-        tareWeight: activeLorry.tareConfig?.tareWeight || 0,
-        netWeight,
-        weightSource: validation.weightSource,
-        toleranceStatus: validation.status,
-        weightDifference: validation.difference
-      });
+        duplicateReason
+      }, { 'Idempotency-Key': idempotencyKey });
       
-      return response.json();
+      return {
+        weighment: await response.json() as Weighment,
+        replayed: response.headers.get('Idempotent-Replayed') === 'true'
+      };
     },
-    onSuccess: () => {
+    onSuccess: ({ weighment, replayed }) => {
+      pendingSaveRef.current = null;
+      setDuplicatePrompt(null);
+      setDuplicateReason("");
+
+      if (replayed) {
+        // The first attempt went through; its bag is already counted
+        toast({
+          title: "Already Saved",
+          description: `Weighment ${weighment.tagId} was already recorded (${weighment.netWeight.toFixed(3)} kg net)`
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/weighments/lorry'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
+        return;
+      }
+
+      const saved = weighment.pass === "gross"
+        ? `Gross ${weighment.finalWeight.toFixed(3)} kg recorded; weigh the lorry out once unloaded`
+        : weighment.pass === "tare"
+          ? `Tare ${weighment.finalWeight.toFixed(3)} kg recorded; the lorry is weighed out`
+          : `Weighment saved: ${weighment.netWeight.toFixed(3)} kg net`;
       toast({
-        title: "Success",
-        description: "Weighment saved successfully"
+        title: weighment.status === "pending_review" ? "Pending Review" : "Success",
+        description: weighment.status === "pending_review" ? `${saved}. Sent for supervisor review` : saved
       });
+
+      if (documentSettings?.printTicketOnSave) {
+        printPdf(ticketUrl(weighment.id));
+      }
       
       queryClient.invalidateQueries({ queryKey: ['/api/weighments/lorry'] });
+
+      // The server settles a weighbridge lorry's gross and tare from its passes
+      if (weighment.pass) {
+        queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
+        return;
+      }
       
       // Update lorry total bags count
       const newTotalBags = (activeLorry?.totalBags || 0) + 1;
@@ -169,9 +318,20 @@ export function WeighingInterface() {
       );
     },
     onError: (error) => {
+      // apiRequest errors read "<status>: <body>"
+      const [, status, body] = error.message.match(/^(\d{3}): ([\s\S]*)$/) ?? [];
+      if (status === "409") {
+        try {
+          const details = JSON.parse(body);
+          if (details.requiresReason) {
+            setDuplicatePrompt(details.error);
+            return;
+          }
+        } catch {}
+      }
       toast({
         title: "Error",
-        description: "Failed to save weighment",
+        description: `Failed to save weighment: ${error.message}`,
         variant: "destructive"
       });
     }
@@ -184,20 +344,55 @@ export function WeighingInterface() {
       
       const response = await apiRequest('PATCH', `/api/lorry-queue/${activeLorry.id}/status`, {
         status: 'completed',
-        totalBags: weighments.length + 1 // Include current weighment
+        totalBags: activeLorry.weighingMode === 'weighbridge'
+          ? 0
+          : weighments.filter(w => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status)).length
       });
       
-      return response.json();
+      return response.json() as Promise<LorryWithTareConfig>;
     },
-    onSuccess: () => {
+    onSuccess: (lorry) => {
       toast({
         title: "Success",
         description: "Lorry completed successfully"
       });
+      // Defaults to on, as in the settings panel and on the server; nothing prints before the settings load
+      if (documentSettings !== undefined && (documentSettings.printDeliveryNoteOnComplete ?? true)) {
+        printPdf(deliveryNoteUrl(lorry.id));
+      }
       queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
     }
   });
 
+  // Reprints go to the receipt printer when there is one, otherwise to the browser
+  const reprintMutation = useMutation({
+    mutationFn: async (weighment: Weighment) => {
+      await apiRequest('POST', `/api/weighments/${weighment.id}/print`);
+      return weighment;
+    },
+    onSuccess: (weighment) => {
+      toast({
+        title: "Printed",
+        description: `Ticket for ${weighment.tagId} sent to the receipt printer`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to print ticket: ${error.message}`,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const reprintTicket = (weighment: Weighment) => {
+    if (printerStatus?.enabled) {
+      reprintMutation.mutate(weighment);
+    } else {
+      printPdf(ticketUrl(weighment.id));
+    }
+  };
+
   const getStatusBadge = (connected: boolean, label: string) => (
     <Badge 
       className={`${
@@ -214,16 +409,27 @@ export function WeighingInterface() {
     </Badge>
   );
 
-  const getToleranceBadge = (status: string) => {
-    switch (status) {
-      case "good":
-        return <Badge className="bg-green-500/20 text-green-400 border-green-500/30" data-testid="tolerance-good">Within Tolerance</Badge>;
-      case "warning":
-        return <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30" data-testid="tolerance-warning">Warning</Badge>;
-      case "error":
-        return <Badge className="bg-red-500/20 text-red-400 border-red-500/30" data-testid="tolerance-error">Error</Badge>;
+  const getStabilityLabel = (stable: boolean | undefined, label: string) => {
+    if (stable === undefined) return null;
+    return (
+      <div
+        className={`text-xs font-medium mt-1 ${stable ? "text-green-400" : "text-yellow-400 animate-pulse"}`}
+        data-testid={`stability-${label.toLowerCase()}`}
+      >
+        {stable ? "Stable" : "Settling..."}
+      </div>
+    );
+  };
+
+  // Only deliveries that still need attention are flagged; synced and never-synced rows stay quiet
+  const getSyncBadge = (syncStatus: string) => {
+    switch (syncStatus) {
+      case "pending":
+        return <Badge className="bg-blue-500/20 text-blue-400 border-blue-500/30" data-testid="sync-pending">Sync Pending</Badge>;
+      case "failed":
+        return <Badge className="bg-red-500/20 text-red-400 border-red-500/30" data-testid="sync-failed">Sync Failed</Badge>;
       default:
-        return <Badge variant="secondary" data-testid="tolerance-unknown">Unknown</Badge>;
+        return null;
     }
   };
 
@@ -252,12 +458,38 @@ export function WeighingInterface() {
                 Lorry: {activeLorry.lorryNumber} | {activeLorry.line} | Manager: {activeLorry.lineManager}
               </p>
             </div>
-            <div className="text-right">
-              <div className="text-sm text-muted-foreground">Auto Tare Applied</div>
-              <div className="text-lg font-bold text-primary" data-testid="text-tare-weight">
-                {activeLorry.tareConfig?.tareWeight || 0} kg
+            {bridgeState ? (
+              <div className="text-right space-y-1" data-testid="weighbridge-summary">
+                <WeighbridgeBadge lorry={activeLorry} />
+                <div className="grid grid-cols-3 gap-4 text-right">
+                  <div>
+                    <div className="text-sm text-muted-foreground">Gross</div>
+                    <div className="text-lg font-bold font-mono" data-testid="text-gross-weight">
+                      {activeLorry.grossWeight != null ? `${activeLorry.grossWeight.toFixed(3)} kg` : '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-muted-foreground">Tare</div>
+                    <div className="text-lg font-bold font-mono" data-testid="text-tare-weight">
+                      {activeLorry.tareWeight != null ? `${activeLorry.tareWeight.toFixed(3)} kg` : '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-sm text-muted-foreground">Net</div>
+                    <div className="text-lg font-bold font-mono text-primary" data-testid="text-lorry-net-weight">
+                      {weighbridgeNet(activeLorry) != null ? `${weighbridgeNet(activeLorry)!.toFixed(3)} kg` : '—'}
+                    </div>
+                  </div>
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="text-right">
+                <div className="text-sm text-muted-foreground">Auto Tare Applied</div>
+                <div className="text-lg font-bold text-primary" data-testid="text-tare-weight">
+                  {activeLorry.tareConfig?.tareWeight || 0} kg
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -282,6 +514,7 @@ export function WeighingInterface() {
                 {currentWeights.plcWeight?.toFixed(3) || "—"}
               </div>
               <div className="text-sm text-muted-foreground">kg</div>
+              {getStabilityLabel(stability.plc, "PLC")}
             </div>
           </CardContent>
         </Card>
@@ -304,6 +537,7 @@ export function WeighingInterface() {
                 {currentWeights.serialWeight?.toFixed(3) || "—"}
               </div>
               <div className="text-sm text-muted-foreground">kg</div>
+              {getStabilityLabel(stability.serial, "Serial")}
             </div>
           </CardContent>
         </Card>
@@ -319,7 +553,7 @@ export function WeighingInterface() {
                   <p className="text-xs text-muted-foreground">Difference Check</p>
                 </div>
               </div>
-              {getToleranceBadge(validation.status)}
+              <ToleranceBadge status={validation.status} />
             </div>
             <div className="space-y-3">
               <div className="flex justify-between">
@@ -351,16 +585,54 @@ export function WeighingInterface() {
           <div className="flex items-center justify-between mb-4">
             <div>
               <h3 className="text-lg font-bold" data-testid="heading-current-weighment">Current Weighment</h3>
-              <p className="text-sm text-muted-foreground">Tag ID will be automatically captured</p>
+              <p className="text-sm text-muted-foreground">
+                {bridgeState === "awaiting_gross"
+                  ? "Weigh in: lorry loaded on the weighbridge"
+                  : bridgeState === "awaiting_tare"
+                    ? "Weigh out: lorry unloaded on the weighbridge"
+                    : bridgeState === "complete"
+                      ? "This lorry has been weighed in and out"
+                      : tagReaderStatus?.mode === "barcode"
+                        ? "Scan the bag barcode to capture its Tag ID"
+                        : "Tag ID will be automatically captured"}
+              </p>
             </div>
             <div className="text-right">
               <div className="text-sm text-muted-foreground">Current Tag</div>
               <div className="text-xl font-mono font-bold" data-testid="text-current-tag">
                 {currentTag || "Waiting for tag..."}
               </div>
+              {tagReadAt && (
+                <div className="text-xs text-muted-foreground" data-testid="text-tag-read-at">
+                  Read at {tagReadAt.toLocaleTimeString()}
+                </div>
+              )}
             </div>
           </div>
 
+          {duplicatePrompt && (
+            <div className="mb-4 p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10" data-testid="duplicate-tag-prompt">
+              <p className="text-sm text-yellow-400 mb-3">{duplicatePrompt}</p>
+              <div className="flex gap-2">
+                <Input
+                  type="text"
+                  placeholder="Reason for weighing this tag again"
+                  value={duplicateReason}
+                  onChange={(e) => setDuplicateReason(e.target.value)}
+                  data-testid="input-duplicate-reason"
+                />
+                <Button
+                  variant="secondary"
+                  onClick={() => saveWeighmentMutation.mutate({ duplicateReason })}
+                  disabled={saveWeighmentMutation.isPending || !duplicateReason.trim()}
+                  data-testid="button-save-duplicate"
+                >
+                  Save Anyway
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-4">
             <Button 
               variant="secondary"
@@ -372,12 +644,32 @@ export function WeighingInterface() {
             </Button>
             <Button 
               className="flex-1 bg-primary text-primary-foreground px-6 py-3"
-              onClick={() => saveWeighmentMutation.mutate()}
-              disabled={saveWeighmentMutation.isPending || !currentTag || validation.status === "error"}
+              onClick={() => saveWeighmentMutation.mutate({})}
+              disabled={
+                saveWeighmentMutation.isPending ||
+                !currentTag ||
+                validation.status === "error" ||
+                isUnstable ||
+                bridgeState === "complete"
+              }
               data-testid="button-save-weighment"
             >
               <Save className="mr-2 h-4 w-4" />
-              Save Weighment
+              {bridgeState === "awaiting_gross"
+                ? "Save Gross (Weigh In)"
+                : bridgeState === "awaiting_tare"
+                  ? "Save Tare (Weigh Out)"
+                  : "Save Weighment"}
+            </Button>
+            <Button 
+              variant="secondary"
+              className="px-6 py-3"
+              onClick={() => activeLorry && printPdf(deliveryNoteUrl(activeLorry.id))}
+              disabled={!activeLorry}
+              data-testid="button-delivery-note"
+            >
+              <FileText className="mr-2 h-4 w-4" />
+              Delivery Note
             </Button>
             <Button 
               variant="destructive"
@@ -416,16 +708,26 @@ export function WeighingInterface() {
                     <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Net (kg)</th>
                     <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Source</th>
                     <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-border">
                   {weighments.map((weighment, index) => (
-                    <tr key={weighment.id} data-testid={`row-weighment-${index}`}>
+                    <tr
+                      key={weighment.id}
+                      className={weighment.status === "voided" ? "opacity-50 line-through" : undefined}
+                      data-testid={`row-weighment-${index}`}
+                    >
                       <td className="py-3 px-2 font-medium" data-testid={`text-number-${index}`}>
                         {String(index + 1).padStart(3, '0')}
                       </td>
                       <td className="py-3 px-2 font-mono" data-testid={`text-tag-${index}`}>
                         {weighment.tagId}
+                        {weighment.pass && (
+                          <Badge variant="outline" className="ml-2 text-xs" data-testid={`badge-pass-${index}`}>
+                            {weighment.pass === "gross" ? "IN · GROSS" : "OUT · TARE"}
+                          </Badge>
+                        )}
                       </td>
                       <td className="py-3 px-2 text-right font-mono" data-testid={`text-gross-${index}`}>
                         {weighment.finalWeight.toFixed(3)}
@@ -442,7 +744,46 @@ export function WeighingInterface() {
                         </Badge>
                       </td>
                       <td className="py-3 px-2">
-                        {getToleranceBadge(weighment.toleranceStatus)}
+                        <div className="flex gap-2">
+                          <ToleranceBadge status={weighment.toleranceStatus} />
+                          <ReviewBadge status={weighment.status} />
+                          {getSyncBadge(weighment.syncStatus)}
+                        </div>
+                      </td>
+                      <td className="py-3 px-2 text-right">
+                        <div className="flex gap-1 justify-end">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => reprintTicket(weighment)}
+                            disabled={reprintMutation.isPending}
+                            title="Reprint ticket"
+                            data-testid={`button-reprint-${index}`}
+                          >
+                            <Printer className="h-3 w-3" />
+                          </Button>
+                          {!UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status) && (
+                            <>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setCorrection({ weighment, mode: "correct" })}
+                                data-testid={`button-correct-${index}`}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="text-destructive"
+                                onClick={() => setCorrection({ weighment, mode: "void" })}
+                                data-testid={`button-void-${index}`}
+                              >
+                                <Ban className="h-3 w-3" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </td>
                     </tr>
                   ))}
@@ -452,6 +793,12 @@ export function WeighingInterface() {
           )}
         </CardContent>
       </Card>
+
+      <WeighmentCorrectionDialog
+        weighment={correction?.weighment ?? null}
+        mode={correction?.mode ?? "correct"}
+        onClose={() => setCorrection(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,37 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+type WeighmentBadgeProps = {
+  status: string;
+  className?: string;
+};
+
+// How far the PLC and serial readings of a weighment were apart
+export function ToleranceBadge({ status, className }: WeighmentBadgeProps) {
+  switch (status) {
+    case 'good':
+      return <Badge className={cn('bg-green-500/20 text-green-400 border-green-500/30', className)} data-testid="tolerance-good">Within Tolerance</Badge>;
+    case 'warning':
+      return <Badge className={cn('bg-yellow-500/20 text-yellow-400 border-yellow-500/30', className)} data-testid="tolerance-warning">Warning</Badge>;
+    case 'error':
+      return <Badge className={cn('bg-red-500/20 text-red-400 border-red-500/30', className)} data-testid="tolerance-error">Error</Badge>;
+    default:
+      return <Badge variant="secondary" className={className} data-testid="tolerance-unknown">Unknown</Badge>;
+  }
+}
+
+// Review or void state of a weighment; nothing for an accepted one
+export function ReviewBadge({ status, className }: WeighmentBadgeProps) {
+  switch (status) {
+    case 'pending_review':
+      return <Badge className={cn('bg-blue-500/20 text-blue-400 border-blue-500/30', className)} data-testid="review-pending">Pending Review</Badge>;
+    case 'approved':
+      return <Badge className={cn('bg-green-500/20 text-green-400 border-green-500/30', className)} data-testid="review-approved">Approved</Badge>;
+    case 'rejected':
+      return <Badge className={cn('bg-red-500/20 text-red-400 border-red-500/30', className)} data-testid="review-rejected">Rejected</Badge>;
+    case 'voided':
+      return <Badge className={cn('bg-muted text-muted-foreground', className)} data-testid="review-voided">Voided</Badge>;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { Weighment } from "@shared/schema";
+
+export type CorrectionMode = "void" | "correct";
+
+interface WeighmentCorrectionDialogProps {
+  weighment: Weighment | null;
+  mode: CorrectionMode;
+  onClose: () => void;
+}
+
+export function WeighmentCorrectionDialog({ weighment, mode, onClose }: WeighmentCorrectionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [performedBy, setPerformedBy] = useState("");
+  const [reason, setReason] = useState("");
+  const [tagId, setTagId] = useState("");
+  const [finalWeight, setFinalWeight] = useState("");
+
+  // Start each correction from the weighment's current values
+  useEffect(() => {
+    setReason("");
+    setTagId(weighment?.tagId ?? "");
+    setFinalWeight(weighment ? weighment.finalWeight.toFixed(3) : "");
+  }, [weighment, mode]);
+
+  const correctionMutation = useMutation({
+    mutationFn: async () => {
+      if (!weighment) throw new Error("No weighment selected");
+
+      if (mode === "void") {
+        const response = await apiRequest('POST', `/api/weighments/${weighment.id}/void`, {
+          performedBy,
+          reason
+        });
+        return response.json() as Promise<Weighment>;
+      }
+
+      const weight = parseFloat(finalWeight);
+      const response = await apiRequest('POST', `/api/weighments/${weighment.id}/correct`, {
+        performedBy,
+        reason,
+        tagId: tagId !== weighment.tagId ? tagId : undefined,
+        finalWeight: weight !== weighment.finalWeight ? weight : undefined
+      });
+      return response.json() as Promise<Weighment>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Success",
+        description: mode === "void"
+          ? `Weighment ${updated.tagId} voided`
+          : `Weighment ${updated.tagId} corrected: ${updated.netWeight.toFixed(3)} kg net`
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/weighments/lorry'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/lorry-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const unchanged = mode === "correct" && !!weighment &&
+    tagId === weighment.tagId && parseFloat(finalWeight) === weighment.finalWeight;
+
+  return (
+    <Dialog open={!!weighment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent data-testid={`dialog-${mode}-weighment`}>
+        <DialogHeader>
+          <DialogTitle>{mode === "void" ? "Void Weighment" : "Correct Weighment"}</DialogTitle>
+          <DialogDescription>
+            {mode === "void"
+              ? "The weighment stays on record but no longer counts towards the lorry's bags or totals."
+              : "The original values are kept in the weighment's audit trail."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {mode === "correct" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="correctTagId" className="text-xs text-muted-foreground">Tag ID</Label>
+                <Input
+                  id="correctTagId"
+                  value={tagId}
+                  onChange={(e) => setTagId(e.target.value)}
+                  className="mt-2 font-mono"
+                  data-testid="input-correct-tag"
+                />
+              </div>
+              <div>
+                <Label htmlFor="correctWeight" className="text-xs text-muted-foreground">Gross Weight (kg)</Label>
+                <Input
+                  id="correctWeight"
+                  type="number"
+                  step="0.001"
+                  value={finalWeight}
+                  onChange={(e) => setFinalWeight(e.target.value)}
+                  className="mt-2 font-mono"
+                  data-testid="input-correct-weight"
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="performedBy" className="text-xs text-muted-foreground">Your Name</Label>
+            <Input
+              id="performedBy"
+              value={performedBy}
+              onChange={(e) => setPerformedBy(e.target.value)}
+              className="mt-2"
+              data-testid="input-performed-by"
+            />
+          </div>
+          <div>
+            <Label htmlFor="correctionReason" className="text-xs text-muted-foreground">Reason</Label>
+            <Input
+              id="correctionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-2"
+              data-testid="input-correction-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose} data-testid="button-cancel-correction">
+            Cancel
+          </Button>
+          <Button
+            variant={mode === "void" ? "destructive" : "default"}
+            onClick={() => correctionMutation.mutate()}
+            disabled={correctionMutation.isPending || !performedBy.trim() || !reason.trim() || unchanged}
+            data-testid={`button-confirm-${mode}`}
+          >
+            {mode === "void" ? "Void Weighment" : "Save Correction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,776 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useRoute, useSearch } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ReviewBadge, ToleranceBadge } from "@/components/weighment-badges";
+import { WeighbridgeBadge, weighbridgeNet } from "@/components/weighbridge-badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExportButtons } from "@/components/export-buttons";
+import { printPdf, deliveryNoteUrl } from "@/lib/print";
+import {
+  History,
+  Truck,
+  Search,
+  RotateCcw,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ArrowUp,
+  ArrowDown,
+  ArrowLeft,
+  FileText
+} from "lucide-react";
+import { LORRY_SORT_FIELDS, UNCOUNTED_WEIGHMENT_STATUSES } from "@shared/schema";
+import type { LorryWithTareConfig, Weighment, WeighmentHistoryPage } from "@shared/schema";
+
+type HistoryTab = "weighments" | "lorries";
+
+// Filters shared by both tabs; the lorries tab ignores the weighment-only ones
+const FILTER_FIELDS = ["from", "to", "line", "lineManager", "lorryNumber", "tagId", "toleranceStatus", "weightSource"] as const;
+type FilterField = (typeof FILTER_FIELDS)[number];
+type Filters = Record<FilterField, string>;
+
+const PAGE_SIZE = 50;
+const ANY = "any";
+
+// Everything lives in the query string, so a filtered page can be bookmarked or shared
+export function WeighmentHistory() {
+  const [isLorryDetail, detailParams] = useRoute("/history/lorries/:lorryId");
+  if (isLorryDetail) {
+    return <LorryDetail lorryId={detailParams.lorryId} />;
+  }
+  return <HistoryTables />;
+}
+
+function HistoryTables() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+
+  const tab: HistoryTab = params.get('tab') === 'lorries' ? 'lorries' : 'weighments';
+  const applied = useMemo(
+    () => Object.fromEntries(FILTER_FIELDS.map(field => [field, params.get(field) || ''])) as Filters,
+    [params]
+  );
+  const [draft, setDraft] = useState<Filters>(applied);
+
+  // Back/forward navigation changes the applied filters underneath the form
+  useEffect(() => setDraft(applied), [applied]);
+
+  const navigate = (changes: Record<string, string | undefined>) => {
+    const next = new URLSearchParams(search);
+    Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+    const query = next.toString();
+    setLocation(`/history${query ? `?${query}` : ''}`);
+  };
+
+  // Any change to what is listed starts again from the first page
+  const firstPage = { cursor: undefined, page: undefined };
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    navigate({ ...draft, ...firstPage });
+  };
+
+  const resetFilters = () => {
+    navigate({ ...Object.fromEntries(FILTER_FIELDS.map(field => [field, undefined])), ...firstPage });
+  };
+
+  const switchTab = (next: HistoryTab) => {
+    navigate({ tab: next === 'weighments' ? undefined : next, sort: undefined, order: undefined, ...firstPage });
+  };
+
+  const updateDraft = (field: FilterField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value === ANY ? '' : value }));
+  };
+
+  // The export covers the whole filtered listing, not just the page on screen
+  const exportParams = useMemo(() => {
+    if (tab === 'weighments') {
+      return Object.fromEntries(['sort', 'order', ...FILTER_FIELDS].map(key => [key, params.get(key)]));
+    }
+    // A sort left over from the other tab is ignored by the lorry table, so drop it here too
+    const sort = params.get('sort');
+    return {
+      ...Object.fromEntries(['order', 'from', 'to', 'line', 'lineManager', 'lorryNumber'].map(key => [key, params.get(key)])),
+      sort: sort && (LORRY_SORT_FIELDS as readonly string[]).includes(sort) ? sort : undefined
+    };
+  }, [tab, params]);
+
+  // Identifies the listing apart from its page, so paging state resets when it changes
+  const listingKey = useMemo(() => {
+    const listing = new URLSearchParams(params);
+    listing.delete('cursor');
+    listing.delete('page');
+    return listing.toString();
+  }, [params]);
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold flex items-center gap-3" data-testid="heading-history">
+              <History className="text-accent" />
+              History
+            </h3>
+            <div className="flex gap-2">
+              <ExportButtons
+                path={tab === 'weighments' ? '/api/weighments/export' : '/api/lorry-queue/export'}
+                params={exportParams}
+              />
+              <div className="w-px bg-border/50" />
+              <Button
+                size="sm"
+                variant={tab === 'weighments' ? 'default' : 'outline'}
+                onClick={() => switchTab('weighments')}
+                data-testid="tab-weighments"
+              >
+                Weighments
+              </Button>
+              <Button
+                size="sm"
+                variant={tab === 'lorries' ? 'default' : 'outline'}
+                onClick={() => switchTab('lorries')}
+                data-testid="tab-lorries"
+              >
+                Lorries
+              </Button>
+            </div>
+          </div>
+
+          <form onSubmit={applyFilters} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="historyFrom" className="text-xs text-muted-foreground">From</Label>
+              <Input
+                id="historyFrom"
+                type="date"
+                value={draft.from}
+                onChange={(e) => updateDraft('from', e.target.value)}
+                className="mt-2"
+                data-testid="input-history-from"
+              />
+            </div>
+            <div>
+              <Label htmlFor="historyTo" className="text-xs text-muted-foreground">To</Label>
+              <Input
+                id="historyTo"
+                type="date"
+                value={draft.to}
+                onChange={(e) => updateDraft('to', e.target.value)}
+                className="mt-2"
+                data-testid="input-history-to"
+              />
+            </div>
+            <div>
+              <Label htmlFor="historyLorry" className="text-xs text-muted-foreground">Lorry Number</Label>
+              <Input
+                id="historyLorry"
+                placeholder="AB-1234"
+                value={draft.lorryNumber}
+                onChange={(e) => updateDraft('lorryNumber', e.target.value)}
+                className="mt-2"
+                data-testid="input-history-lorry"
+              />
+            </div>
+            <div>
+              <Label htmlFor="historyLine" className="text-xs text-muted-foreground">Line</Label>
+              <Input
+                id="historyLine"
+                placeholder="Line A"
+                value={draft.line}
+                onChange={(e) => updateDraft('line', e.target.value)}
+                className="mt-2"
+                data-testid="input-history-line"
+              />
+            </div>
+            <div>
+              <Label htmlFor="historyLineManager" className="text-xs text-muted-foreground">Line Manager</Label>
+              <Input
+                id="historyLineManager"
+                value={draft.lineManager}
+                onChange={(e) => updateDraft('lineManager', e.target.value)}
+                className="mt-2"
+                data-testid="input-history-line-manager"
+              />
+            </div>
+            {tab === 'weighments' && (
+              <>
+                <div>
+                  <Label htmlFor="historyTag" className="text-xs text-muted-foreground">Tag ID</Label>
+                  <Input
+                    id="historyTag"
+                    value={draft.tagId}
+                    onChange={(e) => updateDraft('tagId', e.target.value)}
+                    className="mt-2 font-mono"
+                    data-testid="input-history-tag"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Tolerance</Label>
+                  <Select
+                    value={draft.toleranceStatus || ANY}
+                    onValueChange={(value) => updateDraft('toleranceStatus', value)}
+                  >
+                    <SelectTrigger className="mt-2" data-testid="select-history-tolerance">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      <SelectItem value="good">Within Tolerance</SelectItem>
+                      <SelectItem value="warning">Warning</SelectItem>
+                      <SelectItem value="error">Error</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Weight Source</Label>
+                  <Select
+                    value={draft.weightSource || ANY}
+                    onValueChange={(value) => updateDraft('weightSource', value)}
+                  >
+                    <SelectTrigger className="mt-2" data-testid="select-history-source">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      <SelectItem value="plc">PLC</SelectItem>
+                      <SelectItem value="serial">Serial</SelectItem>
+                      <SelectItem value="average">Average</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div className="flex items-end gap-2 md:col-span-4 justify-end">
+              <Button type="button" variant="outline" onClick={resetFilters} data-testid="button-history-reset">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reset
+              </Button>
+              <Button type="submit" data-testid="button-history-apply">
+                <Search className="mr-2 h-4 w-4" />
+                Apply Filters
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {tab === 'weighments' ? (
+        <WeighmentTable key={listingKey} params={params} filters={applied} navigate={navigate} />
+      ) : (
+        <LorryTable params={params} filters={applied} navigate={navigate} />
+      )}
+    </div>
+  );
+}
+
+type TableProps = {
+  params: URLSearchParams;
+  filters: Filters;
+  navigate: (changes: Record<string, string | undefined>) => void;
+};
+
+function SortHeader({
+  label,
+  field,
+  params,
+  navigate,
+  defaultSort,
+  align = 'left'
+}: {
+  label: string;
+  field: string;
+  params: URLSearchParams;
+  navigate: TableProps['navigate'];
+  defaultSort: string;
+  align?: 'left' | 'right';
+}) {
+  const sort = params.get('sort') || defaultSort;
+  const order = params.get('order') || 'desc';
+  const active = sort === field;
+
+  // First click sorts descending, the next one flips it
+  const toggle = () => navigate({
+    sort: field,
+    order: active && order === 'desc' ? 'asc' : 'desc',
+    cursor: undefined,
+    page: undefined
+  });
+
+  return (
+    <th className={`text-${align} py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider`}>
+      <button
+        type="button"
+        onClick={toggle}
+        className={`inline-flex items-center gap-1 uppercase hover:text-foreground ${active ? 'text-foreground' : ''}`}
+        data-testid={`sort-${field}`}
+      >
+        {label}
+        {active && (order === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+}
+
+function WeighmentTable({ params, filters, navigate }: TableProps) {
+  const query = useMemo(() => {
+    const query = new URLSearchParams();
+    FILTER_FIELDS.forEach(field => filters[field] && query.set(field, filters[field]));
+    ['sort', 'order', 'cursor'].forEach(key => params.get(key) && query.set(key, params.get(key)!));
+    query.set('limit', String(PAGE_SIZE));
+    return query.toString();
+  }, [params, filters]);
+
+  // Cursors of the pages before this one, for the Previous button
+  const [previousCursors, setPreviousCursors] = useState<string[]>([]);
+  const cursor = params.get('cursor') || '';
+
+  const { data, isLoading, error } = useQuery<WeighmentHistoryPage>({
+    queryKey: [`/api/weighments?${query}`],
+    refetchOnMount: 'always' // weighments saved since the last visit
+  });
+  const weighments = data?.weighments ?? [];
+
+  const goNext = () => {
+    if (!data?.nextCursor) return;
+    setPreviousCursors(prev => [...prev, cursor]);
+    navigate({ cursor: data.nextCursor });
+  };
+
+  const goPrevious = () => {
+    setPreviousCursors(prev => prev.slice(0, -1));
+    navigate({ cursor: previousCursors[previousCursors.length - 1] || undefined });
+  };
+
+  const goFirst = () => {
+    setPreviousCursors([]);
+    navigate({ cursor: undefined });
+  };
+
+  const headerProps = { params, navigate, defaultSort: 'createdAt' };
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-6">
+        {isLoading ? (
+          <div className="text-center py-8" data-testid="loading-history">
+            Loading weighments...
+          </div>
+        ) : error ? (
+          <div className="text-center py-8 text-destructive" data-testid="history-error">
+            {(error as Error).message}
+          </div>
+        ) : weighments.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground" data-testid="no-history">
+            No weighments match these filters
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <SortHeader label="Date" field="createdAt" {...headerProps} />
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Lorry</th>
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Line</th>
+                  <SortHeader label="Tag ID" field="tagId" {...headerProps} />
+                  <SortHeader label="Gross (kg)" field="finalWeight" align="right" {...headerProps} />
+                  <SortHeader label="Net (kg)" field="netWeight" align="right" {...headerProps} />
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Source</th>
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {weighments.map((weighment, index) => (
+                  <tr
+                    key={weighment.id}
+                    className={weighment.status === 'voided' ? 'opacity-50 line-through' : undefined}
+                    data-testid={`row-history-${index}`}
+                  >
+                    <td className="py-3 px-2 text-sm whitespace-nowrap" data-testid={`text-history-date-${index}`}>
+                      {formatDateTime(weighment.createdAt)}
+                    </td>
+                    <td className="py-3 px-2 font-medium">
+                      <Link
+                        href={`/history/lorries/${weighment.lorryId}`}
+                        className="text-primary hover:underline"
+                        data-testid={`link-history-lorry-${index}`}
+                      >
+                        {weighment.lorry.lorryNumber}
+                      </Link>
+                    </td>
+                    <td className="py-3 px-2 text-sm">
+                      {weighment.lorry.line}
+                      <div className="text-xs text-muted-foreground">{weighment.lorry.lineManager}</div>
+                    </td>
+                    <td className="py-3 px-2 font-mono" data-testid={`text-history-tag-${index}`}>
+                      {weighment.tagId}
+                    </td>
+                    <td className="py-3 px-2 text-right font-mono">
+                      {weighment.finalWeight.toFixed(3)}
+                    </td>
+                    <td className="py-3 px-2 text-right font-mono font-bold text-primary">
+                      {weighment.netWeight.toFixed(3)}
+                    </td>
+                    <td className="py-3 px-2">
+                      <Badge className="bg-green-500/20 text-green-400 border-green-500/30 text-xs">
+                        {weighment.weightSource.toUpperCase()}
+                      </Badge>
+                    </td>
+                    <td className="py-3 px-2">
+                      <div className="flex gap-2">
+                        <ToleranceBadge status={weighment.toleranceStatus} className="text-xs" />
+                        <ReviewBadge status={weighment.status} className="text-xs" />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 mt-4">
+          <Button size="sm" variant="outline" onClick={goFirst} disabled={!cursor} data-testid="button-history-first">
+            <ChevronsLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={goPrevious}
+            disabled={!cursor || previousCursors.length === 0}
+            data-testid="button-history-previous"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Button>
+          <Button size="sm" variant="outline" onClick={goNext} disabled={!data?.nextCursor} data-testid="button-history-next">
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Lorries are few enough to filter, sort and page in the browser
+function LorryTable({ params, filters, navigate }: TableProps) {
+  const { data: lorries = [], isLoading } = useQuery<LorryWithTareConfig[]>({
+    queryKey: ['/api/lorry-queue'],
+    refetchOnMount: 'always'
+  });
+
+  const sort = (LORRY_SORT_FIELDS as readonly string[]).includes(params.get('sort') || '') ? params.get('sort')! : 'createdAt';
+  const direction = params.get('order') === 'asc' ? 1 : -1;
+  const page = Math.max(1, parseInt(params.get('page') || '1') || 1);
+
+  const matching = useMemo(() => {
+    const contains = (value: string, search: string) => !search || value.toLowerCase().includes(search.toLowerCase());
+    // Dates are compared as UTC days, like the weighments API does
+    const day = (lorry: LorryWithTareConfig) => new Date(lorry.createdAt || 0).toISOString().slice(0, 10);
+
+    return lorries
+      .filter(lorry =>
+        (!filters.from || day(lorry) >= filters.from) &&
+        (!filters.to || day(lorry) <= filters.to) &&
+        (!filters.line || lorry.line === filters.line) &&
+        (!filters.lineManager || lorry.lineManager === filters.lineManager) &&
+        contains(lorry.lorryNumber, filters.lorryNumber)
+      )
+      .sort((a, b) => {
+        const value = (lorry: LorryWithTareConfig) =>
+          sort === 'lorryNumber' ? lorry.lorryNumber
+            : sort === 'weighmentCount' ? lorry.weighmentCount ?? 0
+            : new Date(lorry.createdAt || 0).getTime();
+        const [left, right] = [value(a), value(b)];
+        return (left < right ? -1 : left > right ? 1 : 0) * direction;
+      });
+  }, [lorries, filters, sort, direction]);
+
+  const pageCount = Math.max(1, Math.ceil(matching.length / PAGE_SIZE));
+  const rows = matching.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE);
+  const headerProps = { params, navigate, defaultSort: 'createdAt' };
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-6">
+        {isLoading ? (
+          <div className="text-center py-8" data-testid="loading-lorry-history">
+            Loading lorries...
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground" data-testid="no-lorry-history">
+            <Truck className="h-8 w-8 mx-auto mb-2 opacity-50" />
+            <p>No lorries match these filters</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-border">
+                  <SortHeader label="Arrived" field="createdAt" {...headerProps} />
+                  <SortHeader label="Lorry" field="lorryNumber" {...headerProps} />
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Line</th>
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Line Manager</th>
+                  <SortHeader label="Bags" field="weighmentCount" align="right" {...headerProps} />
+                  <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map((lorry, index) => (
+                  <tr key={lorry.id} data-testid={`row-lorry-history-${index}`}>
+                    <td className="py-3 px-2 text-sm whitespace-nowrap">
+                      {formatDateTime(lorry.createdAt)}
+                    </td>
+                    <td className="py-3 px-2 font-medium">
+                      <Link
+                        href={`/history/lorries/${lorry.id}`}
+                        className="text-primary hover:underline"
+                        data-testid={`link-lorry-history-${index}`}
+                      >
+                        {lorry.lorryNumber}
+                      </Link>
+                    </td>
+                    <td className="py-3 px-2">{lorry.line}</td>
+                    <td className="py-3 px-2">{lorry.lineManager}</td>
+                    <td className="py-3 px-2 text-right font-mono">{lorry.weighmentCount ?? 0}</td>
+                    <td className="py-3 px-2">
+                      <Badge variant="secondary" className="text-xs capitalize">{lorry.status}</Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 mt-4">
+          <span className="text-sm text-muted-foreground mr-2" data-testid="text-lorry-page">
+            Page {Math.min(page, pageCount)} of {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => navigate({ page: page > 2 ? String(page - 1) : undefined })}
+            disabled={page <= 1}
+            data-testid="button-lorry-previous"
+          >
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Previous
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => navigate({ page: String(page + 1) })}
+            disabled={page >= pageCount}
+            data-testid="button-lorry-next"
+          >
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Every bag of one lorry with both scale readings, oldest first
+function LorryDetail({ lorryId }: { lorryId: string }) {
+  const { data: lorry, isLoading, error } = useQuery<LorryWithTareConfig>({
+    queryKey: ['/api/lorry-queue', lorryId]
+  });
+  const { data: weighments = [] } = useQuery<Weighment[]>({
+    queryKey: ['/api/weighments/lorry', lorryId],
+    refetchOnMount: 'always'
+  });
+
+  const bags = useMemo(() => [...weighments].reverse(), [weighments]);
+  const counted = bags.filter(w => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status));
+  const totalGross = counted.reduce((sum, w) => sum + w.finalWeight, 0);
+  const totalNet = counted.reduce((sum, w) => sum + w.netWeight, 0);
+  const flagged = counted.filter(w => w.toleranceStatus !== 'good').length;
+
+  const backLink = (
+    <Link href="/history?tab=lorries" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground" data-testid="link-history-back">
+      <ArrowLeft className="mr-2 h-4 w-4" />
+      Back to History
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8" data-testid="loading-lorry-detail">
+        Loading lorry...
+      </div>
+    );
+  }
+
+  if (error || !lorry) {
+    return (
+      <div className="space-y-4">
+        {backLink}
+        <div className="text-center py-8 text-muted-foreground" data-testid="lorry-not-found">
+          Lorry not found
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {backLink}
+
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          <div className="flex items-start justify-between mb-6">
+            <div>
+              <h3 className="text-lg font-bold flex items-center gap-3" data-testid="heading-lorry-detail">
+                <Truck className="text-primary" />
+                {lorry.lorryNumber}
+                <Badge variant="secondary" className="text-xs capitalize">{lorry.status}</Badge>
+                <WeighbridgeBadge lorry={lorry} />
+              </h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                {lorry.line} • {lorry.lineManager}{lorry.phone ? ` • ${lorry.phone}` : ''} • Arrived {formatDateTime(lorry.createdAt)}
+              </p>
+            </div>
+            <Button variant="outline" onClick={() => printPdf(deliveryNoteUrl(lorry.id))} data-testid="button-detail-delivery-note">
+              <FileText className="mr-2 h-4 w-4" />
+              Delivery Note
+            </Button>
+          </div>
+
+          {lorry.weighingMode === 'weighbridge' ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-accent" data-testid="detail-gross">
+                  {lorry.grossWeight != null ? lorry.grossWeight.toFixed(1) : '-'}
+                </div>
+                <div className="text-sm text-muted-foreground">Gross (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold" data-testid="detail-tare">
+                  {lorry.tareWeight != null ? lorry.tareWeight.toFixed(1) : '-'}
+                </div>
+                <div className="text-sm text-muted-foreground">Tare (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-green-400" data-testid="detail-net">
+                  {weighbridgeNet(lorry)?.toFixed(1) ?? '-'}
+                </div>
+                <div className="text-sm text-muted-foreground">Net (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-yellow-400" data-testid="detail-flagged">{flagged}</div>
+                <div className="text-sm text-muted-foreground">Tolerance Flags</div>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-primary" data-testid="detail-bags">{counted.length}</div>
+                <div className="text-sm text-muted-foreground">Bags Counted</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold" data-testid="detail-tare">
+                  {lorry.tareConfig ? lorry.tareConfig.tareWeight.toFixed(3) : '-'}
+                </div>
+                <div className="text-sm text-muted-foreground">Tare per Bag (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-accent" data-testid="detail-gross">{totalGross.toFixed(1)}</div>
+                <div className="text-sm text-muted-foreground">Total Gross (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-green-400" data-testid="detail-net">{totalNet.toFixed(1)}</div>
+                <div className="text-sm text-muted-foreground">Total Net (kg)</div>
+              </div>
+              <div className="text-center p-4 bg-muted/10 rounded-lg">
+                <div className="text-2xl font-bold text-yellow-400" data-testid="detail-flagged">{flagged}</div>
+                <div className="text-sm text-muted-foreground">Tolerance Flags</div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardContent className="p-6">
+          {bags.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="no-detail-bags">
+              No weighments recorded for this lorry
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">#</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Time</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Tag ID</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">PLC (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Serial (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Diff (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Gross (kg)</th>
+                    <th className="text-right py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Net (kg)</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Source</th>
+                    <th className="text-left py-3 px-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {bags.map((weighment, index) => (
+                    <tr
+                      key={weighment.id}
+                      className={UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status) ? 'opacity-50 line-through' : undefined}
+                      data-testid={`row-detail-${index}`}
+                    >
+                      <td className="py-3 px-2 font-medium">{String(index + 1).padStart(3, '0')}</td>
+                      <td className="py-3 px-2 text-sm whitespace-nowrap">{formatDateTime(weighment.createdAt)}</td>
+                      <td className="py-3 px-2 font-mono">{weighment.tagId}</td>
+                      <td className="py-3 px-2 text-right font-mono" data-testid={`text-detail-plc-${index}`}>
+                        {weighment.plcWeight?.toFixed(3) ?? '-'}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono" data-testid={`text-detail-serial-${index}`}>
+                        {weighment.serialWeight?.toFixed(3) ?? '-'}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono text-muted-foreground">
+                        {weighment.weightDifference?.toFixed(3) ?? '-'}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono">
+                        {weighment.finalWeight.toFixed(3)}
+                        {weighment.originalFinalWeight != null && (
+                          <div className="text-xs text-muted-foreground">was {weighment.originalFinalWeight.toFixed(3)}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-2 text-right font-mono font-bold text-primary">{weighment.netWeight.toFixed(3)}</td>
+                      <td className="py-3 px-2">
+                        <Badge className="bg-green-500/20 text-green-400 border-green-500/30 text-xs">
+                          {weighment.weightSource.toUpperCase()}
+                        </Badge>
+                      </td>
+                      <td className="py-3 px-2">
+                        <div className="flex gap-2">
+                          <ToleranceBadge status={weighment.toleranceStatus} className="text-xs" />
+                          <ReviewBadge status={weighment.status} className="text-xs" />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function formatDateTime(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : '-';
+}
@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Activity } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useWebSocket } from '@/hooks/use-websocket';
+import type { RawWeightReading, WeighmentHistoryPage } from '@shared/schema';
+
+const WINDOWS = [5, 10, 30];
+const MAX_POINTS = 300;
+
+const chartConfig = {
+  plc: { label: 'PLC', color: 'var(--chart-1)' },
+  serial: { label: 'Serial', color: 'var(--chart-2)' },
+  difference: { label: 'PLC − Serial', color: 'var(--chart-3)' },
+} satisfies ChartConfig;
+
+type Sample = { time: number; source: 'plc' | 'serial'; weight: number };
+type Marker = { id: string; time: number; tagId: string };
+type Point = { time: number; plc: number | null; serial: number | null; difference: number | null };
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Averages the readings into at most MAX_POINTS buckets. The difference uses
+// the latest value of each source, so it stays continuous when the two scales
+// report at different rates.
+function toPoints(samples: Sample[], start: number, end: number): Point[] {
+  const size = Math.max(1000, Math.ceil((end - start) / MAX_POINTS));
+  const buckets = new Map<number, { plc: number[]; serial: number[] }>();
+  for (const sample of samples) {
+    if (sample.time < start) continue;
+    const key = Math.floor(sample.time / size) * size;
+    const bucket = buckets.get(key) ?? { plc: [], serial: [] };
+    bucket[sample.source].push(sample.weight);
+    buckets.set(key, bucket);
+  }
+
+  const average = (values: number[]) =>
+    values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  let lastPlc: number | null = null;
+  let lastSerial: number | null = null;
+  return Array.from(buckets.keys())
+    .sort((a, b) => a - b)
+    .map((time) => {
+      const bucket = buckets.get(time)!;
+      const plc = average(bucket.plc);
+      const serial = average(bucket.serial);
+      lastPlc = plc ?? lastPlc;
+      lastSerial = serial ?? lastSerial;
+      return {
+        time,
+        plc,
+        serial,
+        difference: lastPlc !== null && lastSerial !== null ? lastPlc - lastSerial : null,
+      };
+    });
+}
+
+export function WeightComparisonChart() {
+  const { subscribe } = useWebSocket();
+  const [windowMinutes, setWindowMinutes] = useState(5);
+  const [now, setNow] = useState(() => Date.now());
+  const samples = useRef<Sample[]>([]);
+  const [markers, setMarkers] = useState<Marker[]>([]);
+
+  const { data: toleranceSettings } = useQuery<{ toleranceRange?: number }>({
+    queryKey: ['/api/settings/tolerance'],
+  });
+  const toleranceRange = toleranceSettings?.toleranceRange ?? 0.05;
+
+  // Fixed when the window changes, so the backfill is only fetched once per window
+  const since = useMemo(
+    () => new Date(Date.now() - windowMinutes * 60000).toISOString(),
+    [windowMinutes]
+  );
+
+  const { data: backfill } = useQuery<RawWeightReading[]>({
+    queryKey: [`/api/weight-readings?since=${encodeURIComponent(since)}`],
+    refetchOnMount: 'always',
+  });
+
+  const { data: savedWeighments } = useQuery<WeighmentHistoryPage>({
+    queryKey: [`/api/weighments?from=${encodeURIComponent(since)}&sort=createdAt&order=asc&limit=500`],
+    refetchOnMount: 'always',
+  });
+
+  useEffect(() => {
+    if (!backfill) return;
+    const history: Sample[] = backfill.map((reading) => ({
+      time: new Date(reading.timestamp).getTime(),
+      source: reading.source,
+      weight: reading.weight,
+    }));
+    const last = history.length ? history[history.length - 1].time : 0;
+    samples.current = [...history, ...samples.current.filter((sample) => sample.time > last)];
+    setNow(Date.now());
+  }, [backfill]);
+
+  useEffect(() => {
+    if (!savedWeighments) return;
+    setMarkers((live) => {
+      const saved = savedWeighments.weighments.map((w) => ({
+        id: w.id,
+        time: new Date(w.createdAt!).getTime(),
+        tagId: w.tagId,
+      }));
+      const ids = new Set(saved.map((marker) => marker.id));
+      return [...saved, ...live.filter((marker) => !ids.has(marker.id))];
+    });
+  }, [savedWeighments]);
+
+  useEffect(() => {
+    const unsubscribeWeight = subscribe('weight_update', (data) => {
+      if (data.source !== 'plc' && data.source !== 'serial') return;
+      const weight = Number(data.weight);
+      if (!Number.isFinite(weight)) return;
+      samples.current.push({ time: Date.now(), source: data.source, weight });
+    });
+
+    const unsubscribeWeighment = subscribe('weighment_created', (data) => {
+      setMarkers((prev) => [
+        ...prev.filter((marker) => marker.id !== data.id),
+        { id: data.id, time: new Date(data.createdAt ?? Date.now()).getTime(), tagId: data.tagId },
+      ]);
+    });
+
+    return () => {
+      unsubscribeWeight();
+      unsubscribeWeighment();
+    };
+  }, [subscribe]);
+
+  // Readings arrive many times a second; redraw once a second and drop
+  // whatever has scrolled out of the widest window
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = Date.now();
+      const oldest = current - WINDOWS[WINDOWS.length - 1] * 60000;
+      if (samples.current.length && samples.current[0].time < oldest) {
+        samples.current = samples.current.filter((sample) => sample.time >= oldest);
+      }
+      setNow(current);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const start = now - windowMinutes * 60000;
+  const points = toPoints(samples.current, start, now);
+  const visibleMarkers = markers.filter((marker) => marker.time >= start);
+  const latest = points.length ? points[points.length - 1] : undefined;
+  const outOfTolerance = latest?.difference != null && Math.abs(latest.difference) > toleranceRange;
+
+  const xAxis = (
+    <XAxis
+      dataKey="time"
+      type="number"
+      scale="time"
+      domain={[start, now]}
+      tickFormatter={formatTime}
+      minTickGap={40}
+    />
+  );
+  const tooltip = (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time)}
+          formatter={(value, name) => (
+            <span>
+              {chartConfig[name as keyof typeof chartConfig]?.label}: {Number(value).toFixed(3)} kg
+            </span>
+          )}
+        />
+      }
+    />
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-bold flex items-center gap-3" data-testid="heading-weight-comparison">
+            <Activity className="text-accent" />
+            PLC vs Serial Weight Comparison
+          </h3>
+          <div className="flex gap-1">
+            {WINDOWS.map((minutes) => (
+              <Button
+                key={minutes}
+                size="sm"
+                variant={minutes === windowMinutes ? 'default' : 'outline'}
+                onClick={() => setWindowMinutes(minutes)}
+                data-testid={`button-chart-window-${minutes}`}
+              >
+                {minutes} min
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {points.length === 0 ? (
+          <div
+            className="h-64 flex items-center justify-center bg-muted/10 rounded-lg border border-border"
+            data-testid="chart-weight-comparison-empty"
+          >
+            <div className="text-center text-muted-foreground">
+              <Activity className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No readings in the last {windowMinutes} minutes</p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2" data-testid="chart-weight-comparison">
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <LineChart data={points} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                {xAxis}
+                <YAxis width={56} domain={['auto', 'auto']} tickFormatter={(value) => Number(value).toFixed(1)} />
+                {tooltip}
+                {visibleMarkers.map((marker) => (
+                  <ReferenceLine
+                    key={marker.id}
+                    x={marker.time}
+                    stroke="var(--muted-foreground)"
+                    strokeDasharray="4 4"
+                    label={{ value: marker.tagId, position: 'insideTopLeft', fontSize: 10 }}
+                  />
+                ))}
+                <Line dataKey="plc" type="monotone" stroke="var(--color-plc)" dot={false} connectNulls isAnimationActive={false} />
+                <Line dataKey="serial" type="monotone" stroke="var(--color-serial)" dot={false} connectNulls isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+              <LineChart data={points} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                {xAxis}
+                <YAxis
+                  width={56}
+                  domain={[
+                    (min: number) => Math.min(min, -toleranceRange * 2),
+                    (max: number) => Math.max(max, toleranceRange * 2),
+                  ]}
+                  tickFormatter={(value) => Number(value).toFixed(2)}
+                />
+                {tooltip}
+                <ReferenceArea y1={-toleranceRange} y2={toleranceRange} fill="var(--chart-2)" fillOpacity={0.12} />
+                <ReferenceLine y={toleranceRange * 2} stroke="var(--chart-4)" strokeDasharray="3 3" />
+                <ReferenceLine y={-toleranceRange * 2} stroke="var(--chart-4)" strokeDasharray="3 3" />
+                <Line dataKey="difference" type="stepAfter" stroke="var(--color-difference)" dot={false} connectNulls isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Shaded band: ±{toleranceRange.toFixed(3)} kg tolerance · dashed red: twice the tolerance</span>
+              {latest?.difference != null && (
+                <span
+                  className={outOfTolerance ? 'text-yellow-500 font-medium' : ''}
+                  data-testid="text-current-difference"
+                >
+                  Current difference: {latest.difference.toFixed(3)} kg
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { io, Socket } from "socket.io-client";
 
 export function useWebSocket() {
@@ -42,19 +42,23 @@ export function useWebSocket() {
     };
   }, []);
 
-  const subscribe = (eventName: string, handler: (data: any) => void) => {
+  // Stable across renders so callers can list it as an effect dependency
+  // without re-subscribing on every render
+  const subscribe = useCallback((eventName: string, handler: (data: any) => void) => {
     handlers.current.set(eventName, handler);
-    if (socketRef.current) {
-      socketRef.current.on(eventName, (payload: any) => {
-        const data = payload?.data ?? payload;
-        handler(data);
-      });
-    }
+    const listener = (payload: any) => {
+      const data = payload?.data ?? payload;
+      handler(data);
+    };
+    const socket = socketRef.current;
+    socket?.on(eventName, listener);
     return () => {
-      handlers.current.delete(eventName);
-      socketRef.current?.off(eventName, handler as any);
+      if (handlers.current.get(eventName) === handler) {
+        handlers.current.delete(eventName);
+      }
+      socket?.off(eventName, listener);
     };
-  };
+  }, []);
 
   const send = (eventName: string, data: any) => {
     socketRef.current?.emit(eventName, data);
@@ -0,0 +1,33 @@
+// Opens the browser's print dialog for a server-rendered PDF without leaving
+// the page. A hidden frame is used because window.open from a save or complete
+// callback is caught by popup blockers.
+export function printPdf(url: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.src = url;
+
+  frame.onload = () => {
+    try {
+      frame.contentWindow?.focus();
+      frame.contentWindow?.print();
+    } catch {
+      // Some PDF viewers cannot be scripted; show the document in a tab instead
+      window.open(url, '_blank');
+    }
+    // Keep the frame around while the print dialog is open
+    setTimeout(() => frame.remove(), 60000);
+  };
+
+  document.body.appendChild(frame);
+}
+
+export function ticketUrl(weighmentId: string, layout?: string) {
+  return `/api/weighments/${weighmentId}/ticket${layout ? `?layout=${layout}` : ''}`;
+}
+
+export function deliveryNoteUrl(lorryId: string, layout?: string) {
+  return `/api/lorry-queue/${lorryId}/delivery-note${layout ? `?layout=${layout}` : ''}`;
+}
@@ -1,22 +1,29 @@
-import { useState } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { QueueManagement } from "@/components/queue-management";
 import { WeighingInterface } from "@/components/weighing-interface";
 import { MonitoringDashboard } from "@/components/monitoring-dashboard";
+import { ReviewQueue } from "@/components/review-queue";
+import { WeighmentHistory } from "@/components/weighment-history";
 import { SettingsPanel } from "../components/settings-panel";
 import { ThemeToggle } from "../components/theme-toggle";
+import NotFound from "./not-found";
 import { 
   List, 
   Weight, 
   BarChart3, 
+  ClipboardCheck,
+  History,
   Settings, 
   Wifi 
 } from "lucide-react";
 
-type ViewType = "queue" | "weighing" | "monitor" | "settings";
+type ViewType = "queue" | "weighing" | "review" | "history" | "monitor" | "settings";
 
 export default function Dashboard() {
-  const [activeView, setActiveView] = useState<ViewType>("queue");
+  // The first path segment picks the view, so every view can be linked to
+  const [location, setLocation] = useLocation();
+  const activeView = (location.split("/")[1] || "queue") as ViewType;
 
   const navigationItems = [
     {
@@ -31,6 +38,18 @@ export default function Dashboard() {
       icon: Weight,
       component: WeighingInterface
     },
+    {
+      id: "review" as ViewType,
+      label: "Review",
+      icon: ClipboardCheck,
+      component: ReviewQueue
+    },
+    {
+      id: "history" as ViewType,
+      label: "History",
+      icon: History,
+      component: WeighmentHistory
+    },
     {
       id: "monitor" as ViewType,
       label: "Monitor",
@@ -45,7 +64,10 @@ export default function Dashboard() {
     }
   ];
 
-  const ActiveComponent = navigationItems.find(item => item.id === activeView)?.component || QueueManagement;
+  const ActiveComponent = navigationItems.find(item => item.id === activeView)?.component;
+  if (!ActiveComponent) {
+    return <NotFound />;
+  }
 
   return (
     <div className="min-h-screen bg-background">
@@ -73,7 +95,7 @@ export default function Dashboard() {
                     key={item.id}
                     variant="ghost"
                     className={`nav-button ${activeView === item.id ? 'active' : ''}`}
-                    onClick={() => setActiveView(item.id)}
+                    onClick={() => setLocation(item.id === "queue" ? "/" : `/${item.id}`)}
                     data-testid={`nav-${item.id}`}
                   >
                     <Icon className="mr-2 h-4 w-4" />
@@ -7,7 +7,7 @@ if (!process.env.DATABASE_URL) {
 
 export default defineConfig({
   schema: "./shared/schema.ts",
-  out: "./drizzle",
+  out: "./drizzle/mysql",
   dialect: "mysql",
   dbCredentials: {
     url: process.env.DATABASE_URL!,
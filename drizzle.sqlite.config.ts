@@ -0,0 +1,13 @@
+import { defineConfig } from "drizzle-kit";
+import "dotenv/config";
+
+export default defineConfig({
+  schema: "./shared/sqliteSchema.ts",
+  out: "./drizzle/sqlite",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH || "./.data/weightsyncpro.db",
+  },
+  verbose: true,
+  strict: true,
+});
@@ -0,0 +1,65 @@
+CREATE TABLE `lorry_queue` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`lorry_number` text NOT NULL,
+	`line` text NOT NULL,
+	`line_manager` text NOT NULL,
+	`phone` text,
+	`tare_config_id` varchar(36),
+	`status` text NOT NULL DEFAULT ('waiting'),
+	`total_bags` int DEFAULT 0,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `lorry_queue_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `system_activities` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`type` text NOT NULL,
+	`message` text NOT NULL,
+	`status` text NOT NULL,
+	`metadata` json,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `system_activities_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `system_settings` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`category` text NOT NULL,
+	`settings` json NOT NULL,
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `system_settings_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `tare_configurations` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`date` text NOT NULL,
+	`tare_weight` real NOT NULL,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `tare_configurations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`username` varchar(255) NOT NULL,
+	`password` text NOT NULL,
+	CONSTRAINT `users_id` PRIMARY KEY(`id`),
+	CONSTRAINT `users_username_unique` UNIQUE(`username`)
+);
+--> statement-breakpoint
+CREATE TABLE `weighments` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`lorry_id` varchar(36) NOT NULL,
+	`tag_id` text NOT NULL,
+	`plc_weight` real,
+	`serial_weight` real,
+	`final_weight` real NOT NULL,
+	`tare_weight` real NOT NULL,
+	`net_weight` real NOT NULL,
+	`weight_source` text NOT NULL,
+	`tolerance_status` text NOT NULL,
+	`weight_difference` real,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `weighments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `lorry_queue` ADD CONSTRAINT `lorry_queue_tare_config_id_tare_configurations_id_fk` FOREIGN KEY (`tare_config_id`) REFERENCES `tare_configurations`(`id`) ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE `weighments` ADD CONSTRAINT `weighments_lorry_id_lorry_queue_id_fk` FOREIGN KEY (`lorry_id`) REFERENCES `lorry_queue`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `weighments` ADD `reviewed_by` text;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `review_reason` text;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `reviewed_at` timestamp;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `original_final_weight` real;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `weighment_audits` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`weighment_id` varchar(36) NOT NULL,
+	`action` text NOT NULL,
+	`performed_by` text NOT NULL,
+	`reason` text NOT NULL,
+	`before` json NOT NULL,
+	`after` json NOT NULL,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `weighment_audits_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `weighment_audits` ADD CONSTRAINT `weighment_audits_weighment_id_weighments_id_fk` FOREIGN KEY (`weighment_id`) REFERENCES `weighments`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `sync_jobs` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`weighment_id` varchar(36) NOT NULL,
+	`status` text NOT NULL DEFAULT ('pending'),
+	`attempts` int NOT NULL DEFAULT 0,
+	`last_error` text,
+	`next_attempt_at` timestamp NOT NULL DEFAULT (now()),
+	`completed_at` timestamp,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `sync_jobs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `weighments` ADD `sync_status` text DEFAULT ('unsynced') NOT NULL;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `synced_at` timestamp;--> statement-breakpoint
+ALTER TABLE `sync_jobs` ADD CONSTRAINT `sync_jobs_weighment_id_weighments_id_fk` FOREIGN KEY (`weighment_id`) REFERENCES `weighments`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE `webhook_deliveries` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`subscription_id` varchar(36) NOT NULL,
+	`event` text NOT NULL,
+	`payload` json NOT NULL,
+	`status` text NOT NULL DEFAULT ('pending'),
+	`attempts` int NOT NULL DEFAULT 0,
+	`response_status` int,
+	`last_error` text,
+	`next_attempt_at` timestamp NOT NULL DEFAULT (now()),
+	`delivered_at` timestamp,
+	`created_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhook_deliveries_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `webhook_subscriptions` (
+	`id` varchar(36) NOT NULL DEFAULT (uuid()),
+	`url` text NOT NULL,
+	`secret` text NOT NULL,
+	`events` json NOT NULL,
+	`active` boolean NOT NULL DEFAULT true,
+	`description` text,
+	`updated_at` timestamp DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `webhook_subscriptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_subscription_id_webhook_subscriptions_id_fk` FOREIGN KEY (`subscription_id`) REFERENCES `webhook_subscriptions`(`id`) ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `weighments` ADD `idempotency_key` varchar(64);--> statement-breakpoint
+ALTER TABLE `weighments` ADD CONSTRAINT `weighments_idempotency_key_unique` UNIQUE(`idempotency_key`);
\ No newline at end of file
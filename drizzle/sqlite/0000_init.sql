@@ -0,0 +1,58 @@
+CREATE TABLE `lorry_queue` (
+	`id` text PRIMARY KEY NOT NULL,
+	`lorry_number` text NOT NULL,
+	`line` text NOT NULL,
+	`line_manager` text NOT NULL,
+	`phone` text,
+	`tare_config_id` text,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`total_bags` integer DEFAULT 0,
+	`created_at` integer,
+	FOREIGN KEY (`tare_config_id`) REFERENCES `tare_configurations`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `system_activities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`message` text NOT NULL,
+	`status` text NOT NULL,
+	`metadata` text,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `system_settings` (
+	`id` text PRIMARY KEY NOT NULL,
+	`category` text NOT NULL,
+	`settings` text NOT NULL,
+	`updated_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `tare_configurations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`date` text NOT NULL,
+	`tare_weight` real NOT NULL,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);--> statement-breakpoint
+CREATE TABLE `weighments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`lorry_id` text NOT NULL,
+	`tag_id` text NOT NULL,
+	`plc_weight` real,
+	`serial_weight` real,
+	`final_weight` real NOT NULL,
+	`tare_weight` real NOT NULL,
+	`net_weight` real NOT NULL,
+	`weight_source` text NOT NULL,
+	`tolerance_status` text NOT NULL,
+	`weight_difference` real,
+	`created_at` integer,
+	FOREIGN KEY (`lorry_id`) REFERENCES `lorry_queue`(`id`) ON UPDATE no action ON DELETE no action
+);
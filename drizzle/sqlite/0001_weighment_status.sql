@@ -0,0 +1 @@
+ALTER TABLE `weighments` ADD `status` text DEFAULT 'accepted' NOT NULL;
\ No newline at end of file
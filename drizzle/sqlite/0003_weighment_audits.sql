@@ -0,0 +1,11 @@
+CREATE TABLE `weighment_audits` (
+	`id` text PRIMARY KEY NOT NULL,
+	`weighment_id` text NOT NULL,
+	`action` text NOT NULL,
+	`performed_by` text NOT NULL,
+	`reason` text NOT NULL,
+	`before` text NOT NULL,
+	`after` text NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`weighment_id`) REFERENCES `weighments`(`id`) ON UPDATE no action ON DELETE no action
+);
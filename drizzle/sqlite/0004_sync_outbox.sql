@@ -0,0 +1,14 @@
+CREATE TABLE `sync_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`weighment_id` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`next_attempt_at` integer NOT NULL,
+	`completed_at` integer,
+	`created_at` integer,
+	FOREIGN KEY (`weighment_id`) REFERENCES `weighments`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `weighments` ADD `sync_status` text DEFAULT 'unsynced' NOT NULL;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `synced_at` integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `weighments` ADD `idempotency_key` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `weighments_idempotency_key_unique` ON `weighments` (`idempotency_key`);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX `weighments_created_at_idx` ON `weighments` (`created_at`);
\ No newline at end of file
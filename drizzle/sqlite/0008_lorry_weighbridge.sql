@@ -0,0 +1,4 @@
+ALTER TABLE `lorry_queue` ADD `weighing_mode` text DEFAULT 'bags' NOT NULL;--> statement-breakpoint
+ALTER TABLE `lorry_queue` ADD `gross_weight` real;--> statement-breakpoint
+ALTER TABLE `lorry_queue` ADD `tare_weight` real;--> statement-breakpoint
+ALTER TABLE `weighments` ADD `pass` text;
\ No newline at end of file
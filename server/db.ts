@@ -0,0 +1,37 @@
+import fs from "fs";
+import path from "path";
+import mysql from "mysql2/promise";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/mysql2";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import * as schema from "@shared/schema";
+import * as sqliteSchema from "@shared/sqliteSchema";
+
+export function createDb(databaseUrl: string) {
+  const pool = mysql.createPool({
+    uri: databaseUrl,
+    connectionLimit: 10,
+    // Keep DATETIME/TIMESTAMP values in UTC so "today" matches MemStorage
+    timezone: "Z",
+  });
+
+  return drizzle(pool, { schema, mode: "default" });
+}
+
+export type MySqlDatabase = ReturnType<typeof createDb>;
+
+export function createSqliteDb(filePath: string) {
+  const dir = path.dirname(filePath);
+  if (dir && !fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const sqlite = new Database(filePath);
+  // WAL survives power loss on SD cards better than the default rollback journal
+  sqlite.pragma("journal_mode = WAL");
+  sqlite.pragma("foreign_keys = ON");
+
+  return drizzleSqlite(sqlite, { schema: sqliteSchema });
+}
+
+export type SqliteDatabase = ReturnType<typeof createSqliteDb>;
@@ -3,9 +3,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes, initializeServicesWithSocketIO } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { mongoService } from './services/mongoService'; // ← Fix path if needed
-import { mqttClient } from './services/mqttClient';     // ← Fix path if needed
-import weightRoutes from './routes/weightRoutes';        // ← Fix path if needed
+import { storage } from "./storage";
+import { readingArchive } from './services/readingArchive';
 import { Server as SocketIOServer } from 'socket.io';
 
 //  DECLARE APP FIRST
@@ -47,9 +46,6 @@ app.use((req, res, next) => {
   next();
 });
 
-//  ROUTES
-app.use('/api/weights', weightRoutes);
-
 //  ERROR HANDLER (MUST BE BEFORE CATCH-ALL VITE ROUTE)
 app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
   const status = err.status || err.statusCode || 500;
@@ -63,6 +59,10 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
   try {
     //  START HTTP SERVER FIRST
     const PORT = parseInt(process.env.PORT || '5000', 10);
+
+    //  APPLY DATABASE MIGRATIONS (refuses to start on a schema mismatch)
+    await storage.migrate();
+
     const server = await registerRoutes(app, null as any); // Will be updated with Socket.IO
 
     // Setup Vite or static serving
@@ -90,9 +90,6 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     server.listen(PORT, '0.0.0.0', async () => {
       console.log(`🚀 Server running at http://localhost:${PORT}/`);
 
-      //  CONNECT TO MONGODB
-      await mongoService.connect();
-
       //  SETUP WEBSOCKET AFTER SERVER IS CREATED
       const io = new SocketIOServer(server, {
         cors: { origin: "*" }
@@ -106,7 +103,7 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
       // ✅ GRACEFUL SHUTDOWN
       process.on('SIGINT', async () => {
         console.log('🛑 Shutting down...');
-        await mongoService.close();
+        await readingArchive?.close();
         process.exit(0);
       });
     });
@@ -0,0 +1,74 @@
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles, type MigrationMeta } from "drizzle-orm/migrator";
+import { migrate as migrateMySqlDb } from "drizzle-orm/mysql2/migrator";
+import { migrate as migrateSqliteDb } from "drizzle-orm/better-sqlite3/migrator";
+import type { MySqlDatabase, SqliteDatabase } from "./db";
+
+const MIGRATIONS_TABLE = "__drizzle_migrations";
+
+type Dialect = "mysql" | "sqlite";
+
+type AppliedMigration = {
+  hash: string;
+  created_at: number | string;
+};
+
+function migrationsFolderFor(dialect: Dialect): string {
+  // Resolves to <repo>/drizzle/<dialect> from both server/ (dev) and dist/ (production)
+  const root = process.env.MIGRATIONS_DIR || path.resolve(import.meta.dirname, "..", "drizzle");
+  return path.join(root, dialect);
+}
+
+// After migrating, the applied set must match the shipped journal exactly.
+// Anything else means the database was touched by a different build.
+function verifyMigrations(dialect: Dialect, shipped: MigrationMeta[], applied: AppliedMigration[]): void {
+  const shippedHashes = new Map(shipped.map((m) => [m.folderMillis, m.hash]));
+
+  for (const row of applied) {
+    const hash = shippedHashes.get(Number(row.created_at));
+    if (hash === undefined) {
+      throw new Error(
+        `Database schema mismatch (${dialect}): migration ${row.created_at} is applied but not part of this build. ` +
+          `The database was migrated by a newer version of WeightSyncPro.`
+      );
+    }
+    if (hash !== row.hash) {
+      throw new Error(
+        `Database schema mismatch (${dialect}): migration ${row.created_at} was modified after it was applied.`
+      );
+    }
+  }
+
+  if (applied.length !== shipped.length) {
+    throw new Error(
+      `Database schema mismatch (${dialect}): ${shipped.length} migrations shipped but ${applied.length} applied.`
+    );
+  }
+
+  console.log(`📦 Database schema up to date (${dialect}, ${applied.length} migrations)`);
+}
+
+export async function migrateMySql(db: MySqlDatabase): Promise<void> {
+  const migrationsFolder = migrationsFolderFor("mysql");
+  await migrateMySqlDb(db, { migrationsFolder, migrationsTable: MIGRATIONS_TABLE });
+
+  const [rows] = await db.execute(
+    sql`select hash, created_at from ${sql.identifier(MIGRATIONS_TABLE)}`
+  );
+  verifyMigrations(
+    "mysql",
+    readMigrationFiles({ migrationsFolder }),
+    rows as unknown as AppliedMigration[]
+  );
+}
+
+export function migrateSqlite(db: SqliteDatabase): void {
+  const migrationsFolder = migrationsFolderFor("sqlite");
+  migrateSqliteDb(db, { migrationsFolder, migrationsTable: MIGRATIONS_TABLE });
+
+  const rows = db.all<AppliedMigration>(
+    sql`select hash, created_at from ${sql.identifier(MIGRATIONS_TABLE)}`
+  );
+  verifyMigrations("sqlite", readMigrationFiles({ migrationsFolder }), rows);
+}
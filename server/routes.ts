@@ -1,19 +1,75 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
+import type { ZodError } from "zod";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { Server as SocketIOServer } from "socket.io";
-import { storage } from "./storage";
+import {
+  storage,
+  bucketStart,
+  weighmentSortValue,
+  STATS_BUCKET_SIZES,
+  type WeighmentAggregate,
+  type WeighmentHistoryFilter,
+} from "./storage";
 import {
   insertTareConfigSchema,
   insertLorryQueueSchema,
-  insertWeighmentSchema,
   insertSystemSettingsSchema,
   insertSystemActivitySchema,
+  createWeighmentRequestSchema,
+  approveWeighmentSchema,
+  rejectWeighmentSchema,
+  voidWeighmentSchema,
+  correctWeighmentSchema,
+  createWebhookSubscriptionSchema,
+  updateWebhookSubscriptionSchema,
+  weighmentHistoryQuerySchema,
+  weighmentExportQuerySchema,
+  lorryExportQuerySchema,
+  weighmentStatsQuerySchema,
+  weightReadingsQuerySchema,
+  archivedReadingsQuerySchema,
+  STATS_BREAKDOWNS,
+  UNCOUNTED_WEIGHMENT_STATUSES,
+  weighbridgeState,
+  type InsertWeighment,
+  type Weighment,
+  type LorryWithTareConfig,
+  type ToleranceCheck,
   type WeightReading,
+  type RawWeightReading,
+  type WeighbridgePass,
+  type WebhookEvent,
+  type WebhookSubscription,
+  type WeighmentHistoryPage,
+  type WeighmentWithLorry,
+  type ExportFormat,
+  type LorryExportQuery,
+  type WeighmentStatsReport,
+  type WeighmentStatsSummary,
 } from "@shared/schema";
 import { mqttClient } from "./services/mqttClient";
 import { serialClient } from "./services/serialClient";
-import { apiClient } from "./services/apiClient";
+import { APIClient, apiClient, type SyncClient } from "./services/apiClient";
+import { OdooClient, odooClient } from "./services/odooClient";
 import { weightValidator } from "./services/weightValidator";
+import { stabilityMonitor } from "./services/stabilityMonitor";
+import { tagReader } from "./services/tagReader";
+import { duplicateTagPolicy } from "./services/duplicateTagPolicy";
+import { syncOutbox } from "./services/syncOutbox";
+import { webhookDispatcher } from "./services/webhookDispatcher";
+import { DOCUMENT_LAYOUTS, documentRenderer, type DocumentLayout } from "./services/documentRenderer";
+import { receiptPrinter, type PrintJob } from "./services/receiptPrinter";
+import { readingBuffer, type ReadingFilter } from "./services/readingBuffer";
+import { readingArchive } from "./services/readingArchive";
+import {
+  EXPORT_CONTENT_TYPES,
+  LORRY_EXPORT_COLUMNS,
+  WEIGHMENT_EXPORT_COLUMNS,
+  createSpreadsheetExport,
+  resolveLocale,
+  type ExportColumn,
+} from "./services/spreadsheetExport";
 
 export async function registerRoutes(
   app: Express,
@@ -57,6 +113,7 @@ export async function registerRoutes(
         data: config,
         timestamp: new Date(),
       });
+      publishWebhook("tare_config_updated", config);
 
       res.status(201).json(config);
     } catch (error) {
@@ -75,6 +132,41 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/lorry-queue/export", async (req, res) => {
+    const parsed = lorryExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: describeQueryError(parsed.error) });
+    }
+    const { format, locale } = parsed.data;
+
+    let lorries: LorryWithTareConfig[];
+    try {
+      lorries = filterLorries(await storage.getLorryQueue(), parsed.data);
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to get lorries" });
+    }
+
+    await streamSpreadsheet(req, res, {
+      name: "lorries",
+      format,
+      locale,
+      columns: LORRY_EXPORT_COLUMNS,
+      batches: [lorries],
+    });
+  });
+
+  app.get("/api/lorry-queue/:id", async (req, res) => {
+    try {
+      const lorry = await storage.getLorryById(req.params.id);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+      res.json(lorry);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get lorry" });
+    }
+  });
+
   app.post("/api/lorry-queue", async (req, res) => {
     try {
       const validatedData = insertLorryQueueSchema.parse(req.body);
@@ -104,7 +196,13 @@ export async function registerRoutes(
   app.patch("/api/lorry-queue/:id/status", async (req, res) => {
     try {
       const { id } = req.params;
-      const { status, totalBags } = req.body;
+      const { status } = req.body;
+      const lorry = await storage.getLorryById(id);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+      // A weighbridge lorry is weighed whole; its passes are not bags
+      const totalBags = lorry.weighingMode === "weighbridge" ? 0 : req.body.totalBags;
 
       const updatedLorry = await storage.updateLorryStatus(
         id,
@@ -128,6 +226,12 @@ export async function registerRoutes(
         data: { lorryId: id, status, totalBags },
         timestamp: new Date(),
       });
+      publishWebhook("lorry_status_updated", { lorryId: id, status, totalBags });
+      if (status === "completed" && receiptPrinter.shouldPrintSummaries()) {
+        printReceiptSummary(updatedLorry).catch((error) =>
+          console.error(`Failed to print lorry summary for ${updatedLorry.lorryNumber}:`, error)
+        );
+      }
 
       res.json(updatedLorry);
     } catch (error) {
@@ -138,8 +242,18 @@ export async function registerRoutes(
   app.delete("/api/lorry-queue/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const success = await storage.removeLorryFromQueue(id);
+      const lorry = await storage.getLorryById(id);
+
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+      if (lorry.weighmentCount) {
+        return res.status(409).json({
+          error: `Lorry ${lorry.lorryNumber} has ${lorry.weighmentCount} weighment(s) and cannot be removed; complete it instead`,
+        });
+      }
 
+      const success = await storage.removeLorryFromQueue(id);
       if (!success) {
         return res.status(404).json({ error: "Lorry not found" });
       }
@@ -149,6 +263,7 @@ export async function registerRoutes(
         data: { lorryId: id },
         timestamp: new Date(),
       });
+      publishWebhook("lorry_removed", { lorryId: id });
 
       res.status(204).send();
     } catch (error) {
@@ -157,6 +272,43 @@ export async function registerRoutes(
   });
 
   // Weighment Routes
+  app.get("/api/weighments", async (req, res) => {
+    try {
+      const filter = parseWeighmentHistoryQuery(req.query);
+      if ("error" in filter) {
+        return res.status(400).json({ error: filter.error });
+      }
+
+      // One extra row tells whether another page follows
+      const rows = await storage.getWeighmentHistory({ ...filter, limit: filter.limit + 1 });
+      const weighments = rows.slice(0, filter.limit);
+      const last = weighments[weighments.length - 1];
+      const page: WeighmentHistoryPage = {
+        weighments,
+        nextCursor: rows.length > filter.limit ? encodeHistoryCursor(filter, last) : null,
+      };
+      res.json(page);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get weighment history" });
+    }
+  });
+
+  app.get("/api/weighments/export", async (req, res) => {
+    const parsed = weighmentExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: describeQueryError(parsed.error) });
+    }
+    const { from, to, format, locale, ...filter } = parsed.data;
+
+    await streamSpreadsheet(req, res, {
+      name: "weighments",
+      format,
+      locale,
+      columns: WEIGHMENT_EXPORT_COLUMNS,
+      batches: weighmentBatches({ ...filter, ...parseDateRange(from, to) }),
+    });
+  });
+
   app.get("/api/weighments/lorry/:lorryId", async (req, res) => {
     try {
       const { lorryId } = req.params;
@@ -178,25 +330,188 @@ export async function registerRoutes(
 
   app.post("/api/weighments", async (req, res) => {
     try {
-      const validatedData = insertWeighmentSchema.parse(req.body);
-      const weighment = await storage.createWeighment(validatedData);
+      const request = createWeighmentRequestSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ error: "Invalid weighment data" });
+      }
+      const { lorryId, tagId, finalWeight: clientFinalWeight, duplicateReason } = request.data;
 
-      // Sync with external API
-      const lorry = await storage.getLorryById(weighment.lorryId);
-      if (lorry) {
-        try {
-          await apiClient.syncWeighment({
-            tagId: weighment.tagId,
-            weight: weighment.finalWeight,
-            tareWeight: weighment.tareWeight,
-            netWeight: weighment.netWeight,
-            lorryNumber: lorry.lorryNumber,
-            timestamp: weighment.createdAt || new Date(),
-          });
-        } catch (syncError) {
-          console.error("API sync failed:", syncError);
-          // Continue processing even if sync fails
+      // A retried save (double click, dropped response) gets the original weighment back
+      const idempotencyKey = req.get("Idempotency-Key")?.trim() || undefined;
+      if (idempotencyKey && idempotencyKey.length > 64) {
+        return res.status(400).json({ error: "Idempotency-Key must be at most 64 characters" });
+      }
+      if (idempotencyKey) {
+        const original = await storage.getWeighmentByIdempotencyKey(idempotencyKey);
+        if (original) {
+          return replayWeighment(res, original, lorryId);
+        }
+      }
+
+      const lorry = await storage.getLorryById(lorryId);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+
+      // Weighbridge lorries are weighed in loaded, then out empty
+      let pass: WeighbridgePass | null = null;
+      if (lorry.weighingMode === "weighbridge") {
+        const state = weighbridgeState(lorry);
+        if (state === "complete") {
+          return res.status(409).json({ error: `Lorry ${lorry.lorryNumber} has already been weighed in and out` });
+        }
+        pass = state === "awaiting_gross" ? "gross" : "tare";
+      }
+
+      // A bag weighed twice is paid for twice. A weighbridge lorry shows the
+      // same card on the way in and out; its two passes are enforced above.
+      const duplicateCheck = duplicateTagPolicy.evaluate(
+        pass ? [] : await storage.findWeighmentsByTag(tagId, duplicateTagPolicy.getSearch(lorryId)),
+        duplicateReason
+      );
+      if (duplicateCheck.outcome === "reject" || duplicateCheck.outcome === "reason_required") {
+        const rejected = duplicateCheck.outcome === "reject";
+        await storage.createActivity({
+          type: "duplicate_tag",
+          message: rejected
+            ? `Duplicate tag ${tagId} rejected for lorry ${lorry.lorryNumber}`
+            : `Duplicate tag ${tagId} held for lorry ${lorry.lorryNumber}: reason required`,
+          status: rejected ? "error" : "warning",
+          metadata: {
+            lorryId,
+            tagId,
+            scope: duplicateTagPolicy.getConfig().scope,
+            duplicateOf: duplicateCheck.duplicates.map((d) => d.id),
+          },
+        });
+        return res.status(409).json({
+          error: rejected
+            ? `Tag ${tagId} has already been weighed`
+            : `Tag ${tagId} has already been weighed; a reason is required to record it again`,
+          requiresReason: !rejected,
+          duplicates: duplicateCheck.duplicates.map(summarizeDuplicate),
+        });
+      }
+
+      // Refuse to record a bag that is still swinging on the hook, or a weight
+      // from a scale that has stopped reporting
+      const unstableSources = stabilityMonitor.getUnstableSources();
+      if (unstableSources.length > 0) {
+        const staleSources = unstableSources.filter((source) => stabilityMonitor.getState(source).stale);
+        return res.status(422).json({
+          error: staleSources.length > 0
+            ? `No recent reading from ${staleSources.join(", ")}; check the scale connection`
+            : `Weight is not stable (${unstableSources.join(", ")}); wait for the reading to settle`,
+          unstableSources,
+          staleSources,
+        });
+      }
+
+      // Weights come from the server's own readings, never from the request body
+      const computed = computeWeighment(lorry, tagId, pass);
+      if (!computed) {
+        return res.status(422).json({ error: "No weight readings available" });
+      }
+      const { weighmentData, toleranceCheck } = computed;
+
+      if (pass === "tare" && weighmentData.finalWeight >= lorry.grossWeight!) {
+        return res.status(422).json({
+          error: `Tare ${weighmentData.finalWeight}kg is not below the gross ${lorry.grossWeight}kg; is the lorry still loaded?`,
+        });
+      }
+
+      // Enforce the configured validationAction before anything is recorded
+      if (weightValidator.shouldBlockWeighment(toleranceCheck)) {
+        await storage.createActivity({
+          type: "tolerance_violation",
+          message: `Weighment blocked for ${tagId}: PLC/serial difference ${weighmentData.weightDifference}kg exceeds tolerance`,
+          status: "error",
+          metadata: {
+            lorryId,
+            tagId,
+            plcWeight: weighmentData.plcWeight,
+            serialWeight: weighmentData.serialWeight,
+            weightDifference: weighmentData.weightDifference,
+            tolerance: toleranceCheck.tolerance,
+          },
+        });
+        return res.status(422).json({
+          error: `Weighment blocked: PLC/serial difference ${weighmentData.weightDifference}kg is outside the ±${toleranceCheck.tolerance}kg tolerance`,
+          toleranceCheck,
+        });
+      }
+
+      const requiresReview = weightValidator.requiresManualReview(toleranceCheck);
+      let weighment: Weighment;
+      try {
+        weighment = await storage.createWeighment({
+          ...weighmentData,
+          status: requiresReview ? "pending_review" : "accepted",
+          idempotencyKey,
+        });
+      } catch (error) {
+        // A concurrent request with the same key got past the lookup above first
+        const original = idempotencyKey ? await storage.getWeighmentByIdempotencyKey(idempotencyKey) : undefined;
+        if (original) {
+          return replayWeighment(res, original, lorryId);
         }
+        throw error;
+      }
+
+      await settleWeighbridge(lorry.id, io);
+
+      if (requiresReview) {
+        await storage.createActivity({
+          type: "tolerance_violation",
+          message: `Weighment ${weighment.tagId} flagged for manual review (difference ${weighment.weightDifference}kg)`,
+          status: "warning",
+          metadata: {
+            weighmentId: weighment.id,
+            toleranceStatus: weighment.toleranceStatus,
+            weightDifference: weighment.weightDifference,
+          },
+        });
+      }
+
+      if (duplicateCheck.outcome === "warn" || duplicateCheck.outcome === "allowed") {
+        await storage.createActivity({
+          type: "duplicate_tag",
+          message:
+            duplicateCheck.outcome === "allowed"
+              ? `Duplicate tag ${tagId} recorded for lorry ${lorry.lorryNumber}: ${duplicateCheck.reason}`
+              : `Duplicate tag ${tagId} recorded for lorry ${lorry.lorryNumber}`,
+          status: "warning",
+          metadata: {
+            weighmentId: weighment.id,
+            lorryId,
+            tagId,
+            scope: duplicateTagPolicy.getConfig().scope,
+            duplicateOf: duplicateCheck.duplicates.map((d) => d.id),
+            reason: duplicateCheck.outcome === "allowed" ? duplicateCheck.reason : undefined,
+          },
+        });
+      }
+
+      // Cross-check what the operator's screen showed against the recorded weight
+      if (
+        clientFinalWeight != null &&
+        Math.abs(clientFinalWeight - weighment.finalWeight) > toleranceCheck.tolerance
+      ) {
+        await storage.createActivity({
+          type: "weight_mismatch",
+          message: `Client weight for ${weighment.tagId} (${clientFinalWeight}kg) differs from recorded ${weighment.finalWeight}kg`,
+          status: "warning",
+          metadata: {
+            weighmentId: weighment.id,
+            clientFinalWeight,
+            serverFinalWeight: weighment.finalWeight,
+          },
+        });
+      }
+
+      // Sync with external API (weighments awaiting review are held back)
+      if (weighment.status === "accepted") {
+        weighment = await queueSync(weighment);
       }
 
       // Log activity
@@ -216,124 +531,1231 @@ export async function registerRoutes(
         data: weighment,
         timestamp: new Date(),
       });
+      publishWebhook("weighment_created", weighment);
+      if (receiptPrinter.shouldPrintTickets()) {
+        printReceiptTicket(weighment).catch((error) =>
+          console.error(`Failed to print ticket for ${weighment.tagId}:`, error)
+        );
+      }
 
       res.status(201).json(weighment);
     } catch (error) {
       console.error("Weighment creation error:", error);
-      res.status(400).json({ error: "Invalid weighment data" });
+      res.status(500).json({ error: "Failed to save weighment" });
     }
   });
 
-  // Stats Routes
-  app.get("/api/stats", async (req, res) => {
+  // Manual Review Routes
+  app.get("/api/weighments/review-queue", async (_req, res) => {
     try {
-      const stats = await storage.getWeighmentStats();
-      const queue = await storage.getLorryQueue();
-      const activeLorries = queue.filter((l) => l.status === "active").length;
+      const pending = await storage.getWeighmentsByStatus("pending_review");
+      res.json(pending);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get review queue" });
+    }
+  });
 
-      res.json({
-        ...stats,
-        activeLorries,
+  app.post("/api/weighments/:id/approve", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const decision = approveWeighmentSchema.safeParse(req.body);
+      if (!decision.success) {
+        return res.status(400).json({
+          error: decision.error.errors[0]?.message || "Invalid review data",
+        });
+      }
+      const { reviewedBy, finalWeight, reason } = decision.data;
+
+      const existing = await storage.getWeighmentById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      if (existing.status !== "pending_review") {
+        return res.status(409).json({ error: `Weighment is already ${existing.status}` });
+      }
+
+      const overridden = finalWeight !== undefined && finalWeight !== existing.finalWeight;
+      let weighment = (await storage.updateWeighment(id, {
+        status: "approved",
+        reviewedBy,
+        reviewReason: reason?.trim() || null,
+        reviewedAt: new Date(),
+        ...(overridden && {
+          originalFinalWeight: existing.finalWeight,
+          finalWeight: roundKg(finalWeight),
+          netWeight: roundKg(finalWeight - existing.tareWeight),
+        }),
+      }))!;
+
+      await storage.createActivity({
+        type: "weighment_review",
+        message: overridden
+          ? `Weighment ${weighment.tagId} approved by ${reviewedBy} with final weight ${existing.finalWeight}kg → ${weighment.finalWeight}kg`
+          : `Weighment ${weighment.tagId} approved by ${reviewedBy}`,
+        status: "success",
+        metadata: {
+          weighmentId: id,
+          decision: "approved",
+          reviewedBy,
+          reason: weighment.reviewReason,
+          originalFinalWeight: weighment.originalFinalWeight,
+          finalWeight: weighment.finalWeight,
+        },
+      });
+
+      await settleWeighbridge(weighment.lorryId, io);
+      weighment = await queueSync((await storage.getWeighmentById(id)) ?? weighment);
+
+      io?.emit("weighment_reviewed", {
+        data: weighment,
+        timestamp: new Date(),
       });
+
+      res.json(weighment);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get stats" });
+      console.error("Weighment approval error:", error);
+      res.status(500).json({ error: "Failed to approve weighment" });
     }
   });
 
-  // System Settings Routes
-  app.get("/api/settings/:category", async (req, res) => {
+  app.post("/api/weighments/:id/reject", async (req, res) => {
     try {
-      const { category } = req.params;
-      const settings = await storage.getSettingsByCategory(category);
-      res.json(settings?.settings || {});
+      const { id } = req.params;
+      const decision = rejectWeighmentSchema.safeParse(req.body);
+      if (!decision.success) {
+        return res.status(400).json({ error: "Reviewer and reason are required" });
+      }
+      const { reviewedBy, reason } = decision.data;
+
+      const existing = await storage.getWeighmentById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      if (existing.status !== "pending_review") {
+        return res.status(409).json({ error: `Weighment is already ${existing.status}` });
+      }
+
+      const weighment = (await storage.updateWeighment(id, {
+        status: "rejected",
+        reviewedBy,
+        reviewReason: reason.trim(),
+        reviewedAt: new Date(),
+      }))!;
+
+      await storage.createActivity({
+        type: "weighment_review",
+        message: `Weighment ${weighment.tagId} rejected by ${reviewedBy}: ${weighment.reviewReason}`,
+        status: "warning",
+        metadata: {
+          weighmentId: id,
+          decision: "rejected",
+          reviewedBy,
+          reason: weighment.reviewReason,
+        },
+      });
+
+      await settleWeighbridge(weighment.lorryId, io);
+
+      io?.emit("weighment_reviewed", {
+        data: weighment,
+        timestamp: new Date(),
+      });
+
+      res.json(weighment);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get settings" });
+      console.error("Weighment rejection error:", error);
+      res.status(500).json({ error: "Failed to reject weighment" });
     }
   });
 
-  app.post("/api/settings/:category", async (req, res) => {
+  // Void & Correction Routes (the row is kept; weighment_audits holds the history)
+  app.get("/api/weighments/:id/audit", async (req, res) => {
     try {
-      const { category } = req.params;
-      const settings = await storage.upsertSettings(category, req.body);
+      const audits = await storage.getWeighmentAudits(req.params.id);
+      res.json(audits);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get weighment audit trail" });
+    }
+  });
 
-      // Update service configurations
-      updateServiceConfigurations(category, req.body);
+  app.post("/api/weighments/:id/void", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const request = voidWeighmentSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ error: "Operator and reason are required" });
+      }
+      const { performedBy, reason } = request.data;
 
-      // Auto-reconnect services on live config change
-      try {
-        if (category === "mqtt") {
-          // soft reconnect MQTT
-          await mqttClient.reconnect?.();
-        }
-        if (category === "serial") {
-          // soft reconnect Serial with updated config
-          await serialClient.disconnect();
-          // Ensure we wait a bit before reconnecting
-          await new Promise((resolve) => setTimeout(resolve, 100));
-          await serialClient.connect();
-        }
-      } catch (e) {
-        console.error("Live reconfigure failed:", e);
+      const existing = await storage.getWeighmentById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      if (UNCOUNTED_WEIGHMENT_STATUSES.includes(existing.status)) {
+        return res.status(409).json({ error: `Weighment is already ${existing.status}` });
       }
 
-      // Return just the settings object to match GET endpoint format
-      res.json(settings.settings);
+      const weighment = (await storage.updateWeighment(id, { status: "voided" }))!;
+      await storage.createWeighmentAudit({
+        weighmentId: id,
+        action: "void",
+        performedBy,
+        reason: reason.trim(),
+        before: auditSnapshot(existing),
+        after: auditSnapshot(weighment),
+      });
+
+      await storage.createActivity({
+        type: "weighment_correction",
+        message: `Weighment ${weighment.tagId} voided by ${performedBy}: ${reason.trim()}`,
+        status: "warning",
+        metadata: { weighmentId: id, action: "void", performedBy, reason: reason.trim() },
+      });
+
+      await recountLorryBags(weighment.lorryId, io);
+      await settleWeighbridge(weighment.lorryId, io);
+
+      io?.emit("weighment_updated", {
+        data: weighment,
+        timestamp: new Date(),
+      });
+
+      res.json(weighment);
     } catch (error) {
-      res.status(500).json({ error: "Failed to save settings" });
+      console.error("Weighment void error:", error);
+      res.status(500).json({ error: "Failed to void weighment" });
     }
   });
 
-  // System Activities Routes
-  app.get("/api/activities", async (req, res) => {
+  app.post("/api/weighments/:id/correct", async (req, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 50;
-      const activities = await storage.getRecentActivities(limit);
-      res.json(activities);
+      const { id } = req.params;
+      const request = correctWeighmentSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({
+          error: request.error.errors[0]?.message || "Invalid correction",
+        });
+      }
+      const { performedBy, reason, tagId, finalWeight } = request.data;
+
+      const existing = await storage.getWeighmentById(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      if (UNCOUNTED_WEIGHMENT_STATUSES.includes(existing.status)) {
+        return res.status(409).json({ error: `Cannot correct a ${existing.status} weighment` });
+      }
+
+      // A corrected tag is held to the same duplicate policy as a newly weighed bag;
+      // the correction's own reason stands in for a duplicate reason
+      if (tagId !== undefined && tagId !== existing.tagId && !existing.pass) {
+        const duplicateCheck = duplicateTagPolicy.evaluate(
+          (
+            await storage.findWeighmentsByTag(
+              tagId,
+              duplicateTagPolicy.getSearch(existing.lorryId, existing.createdAt ?? new Date())
+            )
+          ).filter((w) => w.id !== id),
+          reason
+        );
+        if (duplicateCheck.outcome !== "unique") {
+          const refused = duplicateCheck.outcome === "reject" || duplicateCheck.outcome === "reason_required";
+          await storage.createActivity({
+            type: "duplicate_tag",
+            message: refused
+              ? `Correction of ${existing.tagId} to duplicate tag ${tagId} rejected`
+              : `Weighment ${existing.tagId} corrected to duplicate tag ${tagId}`,
+            status: refused ? "error" : "warning",
+            metadata: {
+              weighmentId: id,
+              lorryId: existing.lorryId,
+              tagId,
+              scope: duplicateTagPolicy.getConfig().scope,
+              duplicateOf: duplicateCheck.duplicates.map((d) => d.id),
+            },
+          });
+          if (refused) {
+            return res.status(409).json({
+              error: `Tag ${tagId} has already been weighed`,
+              duplicates: duplicateCheck.duplicates.map(summarizeDuplicate),
+            });
+          }
+        }
+      }
+
+      let weighment = (await storage.updateWeighment(id, {
+        ...(tagId !== undefined && { tagId }),
+        ...(finalWeight !== undefined && {
+          finalWeight: roundKg(finalWeight),
+          netWeight: roundKg(finalWeight - existing.tareWeight),
+        }),
+      }))!;
+      await storage.createWeighmentAudit({
+        weighmentId: id,
+        action: "correct",
+        performedBy,
+        reason: reason.trim(),
+        before: auditSnapshot(existing),
+        after: auditSnapshot(weighment),
+      });
+
+      const changes = [
+        tagId !== undefined && tagId !== existing.tagId ? `tag ${existing.tagId} → ${weighment.tagId}` : null,
+        finalWeight !== undefined && weighment.finalWeight !== existing.finalWeight
+          ? `final weight ${existing.finalWeight}kg → ${weighment.finalWeight}kg`
+          : null,
+      ].filter(Boolean);
+
+      await storage.createActivity({
+        type: "weighment_correction",
+        message: `Weighment ${existing.tagId} corrected by ${performedBy} (${changes.join(", ") || "no change"}): ${reason.trim()}`,
+        status: "warning",
+        metadata: {
+          weighmentId: id,
+          action: "correct",
+          performedBy,
+          reason: reason.trim(),
+          before: auditSnapshot(existing),
+          after: auditSnapshot(weighment),
+        },
+      });
+
+      await recountLorryBags(weighment.lorryId, io);
+      await settleWeighbridge(weighment.lorryId, io);
+      weighment = (await storage.getWeighmentById(id)) ?? weighment;
+
+      // Weighments already sent upstream are re-sent with the corrected values
+      if (weighment.status === "accepted" || weighment.status === "approved") {
+        weighment = await queueSync(weighment);
+      }
+
+      io?.emit("weighment_updated", {
+        data: weighment,
+        timestamp: new Date(),
+      });
+
+      res.json(weighment);
     } catch (error) {
-      res.status(500).json({ error: "Failed to get activities" });
+      console.error("Weighment correction error:", error);
+      res.status(500).json({ error: "Failed to correct weighment" });
     }
   });
 
-  // Weight Reading Endpoint (for current readings)
-  app.get("/api/weight-reading", async (req, res) => {
+  // Printable Document Routes
+  app.get("/api/weighments/:id/ticket", async (req, res) => {
     try {
-      // Return the current weight readings from both sources
-      const reading = getCurrentWeightReading();
-      res.json(reading);
+      const layout = parseDocumentLayout(req.query.layout);
+      if (layout === null) {
+        return res.status(400).json({ error: `layout must be one of ${DOCUMENT_LAYOUTS.join(", ")}` });
+      }
+
+      const weighment = await storage.getWeighmentById(req.params.id);
+      if (!weighment) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      const lorry = await storage.getLorryById(weighment.lorryId);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+
+      const bagNumber = await getBagNumber(weighment);
+      sendPdf(res, `ticket-${weighment.tagId}.pdf`, documentRenderer.renderTicket(weighment, lorry, bagNumber, layout));
     } catch (error) {
-      res.status(500).json({ error: "Failed to get weight reading" });
+      console.error("Ticket rendering error:", error);
+      res.status(500).json({ error: "Failed to render ticket" });
     }
   });
 
-  // Test API Connection
-  app.post("/api/test-connection", async (req, res) => {
+  app.get("/api/lorry-queue/:id/delivery-note", async (req, res) => {
     try {
-      const result = await apiClient.testConnection();
-      res.json(result);
+      const layout = parseDocumentLayout(req.query.layout);
+      if (layout === null) {
+        return res.status(400).json({ error: `layout must be one of ${DOCUMENT_LAYOUTS.join(", ")}` });
+      }
+
+      const lorry = await storage.getLorryById(req.params.id);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+      const weighments = await storage.getWeighmentsByLorryId(lorry.id);
+
+      sendPdf(
+        res,
+        `delivery-note-${lorry.lorryNumber}.pdf`,
+        documentRenderer.renderDeliveryNote(lorry, weighments, layout)
+      );
     } catch (error) {
-      res.status(500).json({ error: "Connection test failed" });
+      console.error("Delivery note rendering error:", error);
+      res.status(500).json({ error: "Failed to render delivery note" });
     }
   });
 
-  return httpServer;
-}
+  // Receipt Printer Routes
+  app.get("/api/printer/status", async (_req, res) => {
+    const { enabled, mode, port, filePath } = receiptPrinter.getConfig();
+    res.json({ enabled, mode, port, filePath, connected: receiptPrinter.isConnected() });
+  });
 
-// Export function to initialize services after Socket.IO is created
-export async function initializeServicesWithSocketIO(io: SocketIOServer) {
-  await initializeServices(io);
-}
+  // Jobs captured by the loopback sink, newest first
+  app.get("/api/printer/jobs", async (_req, res) => {
+    res.json(receiptPrinter.getLoopbackJobs());
+  });
 
-let currentWeightReading: WeightReading = {
-  plcWeight: undefined,
-  serialWeight: undefined,
-  timestamp: new Date(),
-};
+  app.post("/api/printer/test", async (_req, res) => {
+    if (!receiptPrinter.isEnabled()) {
+      return res.status(409).json({ error: "Receipt printer is disabled" });
+    }
+    try {
+      res.json(await receiptPrinter.printTestPage());
+    } catch (error) {
+      res.status(502).json({ error: `Printing failed: ${(error as Error).message}` });
+    }
+  });
 
-function getCurrentWeightReading(): WeightReading {
+  app.post("/api/weighments/:id/print", async (req, res) => {
+    if (!receiptPrinter.isEnabled()) {
+      return res.status(409).json({ error: "Receipt printer is disabled" });
+    }
+    try {
+      const weighment = await storage.getWeighmentById(req.params.id);
+      if (!weighment) {
+        return res.status(404).json({ error: "Weighment not found" });
+      }
+      res.json(await printReceiptTicket(weighment));
+    } catch (error) {
+      res.status(502).json({ error: `Printing failed: ${(error as Error).message}` });
+    }
+  });
+
+  app.post("/api/lorry-queue/:id/print-summary", async (req, res) => {
+    if (!receiptPrinter.isEnabled()) {
+      return res.status(409).json({ error: "Receipt printer is disabled" });
+    }
+    try {
+      const lorry = await storage.getLorryById(req.params.id);
+      if (!lorry) {
+        return res.status(404).json({ error: "Lorry not found" });
+      }
+      res.json(await printReceiptSummary(lorry));
+    } catch (error) {
+      res.status(502).json({ error: `Printing failed: ${(error as Error).message}` });
+    }
+  });
+
+  // Stats Routes
+  app.get("/api/stats", async (req, res) => {
+    try {
+      const stats = await storage.getWeighmentStats();
+      const queue = await storage.getLorryQueue();
+      const activeLorries = queue.filter((l) => l.status === "active").length;
+
+      res.json({
+        ...stats,
+        activeLorries,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get stats" });
+    }
+  });
+
+  // Raw readings still held in the ring buffer, oldest first
+  app.get("/api/weight-readings", (req, res) => {
+    const parsed = weightReadingsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: describeQueryError(parsed.error) });
+    }
+    const { since, until, source } = parsed.data;
+    const filter: ReadingFilter = { source };
+    if (since) filter.since = new Date(since);
+    if (until) filter.until = new Date(until);
+    if (!since && !until) filter.since = new Date(Date.now() - 5 * 60000);
+    res.json(readingBuffer.query(filter));
+  });
+
+  // Long-term reading history from the configured archive, newest first
+  app.get("/api/weights", async (req, res) => {
+    const parsed = archivedReadingsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: describeQueryError(parsed.error) });
+    }
+    if (!readingArchive) {
+      return res.status(409).json({ error: "Reading archive is disabled" });
+    }
+    if (!readingArchive.isConnected()) {
+      return res.status(503).json({ error: "Reading archive is not connected" });
+    }
+    const { since, until, ...filter } = parsed.data;
+    try {
+      res.json(
+        await readingArchive.query({
+          ...filter,
+          since: since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to query reading archive:", error);
+      res.status(503).json({ error: `Reading archive is unavailable: ${(error as Error).message}` });
+    }
+  });
+
+  app.get("/api/stats/history", async (req, res) => {
+    try {
+      const parsed = weighmentStatsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: describeQueryError(parsed.error) });
+      }
+      const { bucket, top, from, to, ...lorryFilter } = parsed.data;
+
+      const range = statsRange(from, to);
+      if (range.from >= range.to) {
+        return res.status(400).json({ error: "from: must be before to" });
+      }
+      const bucketCount = (range.to.getTime() - bucketStart(range.from.getTime(), bucket)) / STATS_BUCKET_SIZES[bucket].size;
+      if (bucketCount > MAX_STATS_BUCKETS) {
+        return res.status(400).json({
+          error: `bucket: ${Math.ceil(bucketCount)} ${bucket} buckets requested, at most ${MAX_STATS_BUCKETS} allowed; use a wider bucket or a shorter range`,
+        });
+      }
+
+      const filter = { ...lorryFilter, ...range };
+      const [buckets, ...breakdowns] = await Promise.all(
+        [bucket, ...STATS_BREAKDOWNS].map((groupBy) => storage.getWeighmentAggregates(filter, groupBy))
+      );
+
+      // Empty buckets are listed too, so charts get an evenly spaced axis
+      const byStart = new Map(buckets.map((row) => [row.key, row]));
+      const series: WeighmentStatsReport["series"] = [];
+      for (
+        let start = bucketStart(range.from.getTime(), bucket);
+        start < range.to.getTime();
+        start += STATS_BUCKET_SIZES[bucket].size
+      ) {
+        const row = byStart.get(start);
+        series.push({ bucketStart: new Date(start).toISOString(), ...summarizeAggregates(row ? [row] : []) });
+      }
+
+      const report: WeighmentStatsReport = {
+        from: range.from.toISOString(),
+        to: range.to.toISOString(),
+        bucket,
+        totals: summarizeAggregates(buckets),
+        series,
+        breakdowns: Object.fromEntries(
+          STATS_BREAKDOWNS.map((breakdown, i) => [
+            breakdown,
+            breakdowns[i]
+              .map((row) => ({ key: String(row.key), ...summarizeAggregates([row]) }))
+              .sort((a, b) => b.totalNetKg - a.totalNetKg)
+              .slice(0, top),
+          ])
+        ) as WeighmentStatsReport["breakdowns"],
+      };
+      res.json(report);
+    } catch (error) {
+      console.error("Stats history error:", error);
+      res.status(500).json({ error: "Failed to get stats history" });
+    }
+  });
+
+  // System Settings Routes
+  app.get("/api/settings/:category", async (req, res) => {
+    try {
+      const { category } = req.params;
+      const settings = await storage.getSettingsByCategory(category);
+      res.json(settings?.settings || {});
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get settings" });
+    }
+  });
+
+  app.post("/api/settings/:category", async (req, res) => {
+    try {
+      const { category } = req.params;
+      const settings = await storage.upsertSettings(category, req.body);
+
+      // Update service configurations
+      updateServiceConfigurations(category, req.body);
+
+      // Auto-reconnect services on live config change
+      try {
+        if (category === "mqtt") {
+          // soft reconnect MQTT
+          await mqttClient.reconnect?.();
+        }
+        if (category === "serial") {
+          // soft reconnect Serial with updated config
+          await serialClient.disconnect();
+          // Ensure we wait a bit before reconnecting
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          await serialClient.connect();
+        }
+        if (category === "tagReader") {
+          await tagReader.disconnect();
+          await new Promise((resolve) => setTimeout(resolve, 100));
+          await tagReader.connect();
+        }
+        if (category === "odoo" && odooClient.isConfigured()) {
+          await odooClient.testConnection();
+        }
+        if (category === "printer") {
+          await receiptPrinter.connect();
+        }
+      } catch (e) {
+        console.error("Live reconfigure failed:", e);
+      }
+
+      // Return just the settings object to match GET endpoint format
+      res.json(settings.settings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to save settings" });
+    }
+  });
+
+  // System Activities Routes
+  app.get("/api/activities", async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 50;
+      const activities = await storage.getRecentActivities(limit);
+      res.json(activities);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get activities" });
+    }
+  });
+
+  // Weight Reading Endpoint (for current readings)
+  app.get("/api/weight-reading", async (req, res) => {
+    try {
+      // Return the current weight readings from both sources
+      const reading = getCurrentWeightReading();
+      res.json(reading);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get weight reading" });
+    }
+  });
+
+  // Sync Outbox Routes
+  app.get("/api/sync/jobs", async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const limit = parseInt(req.query.limit as string) || 100;
+      const jobs = await storage.getSyncJobs({ status, limit });
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get sync jobs" });
+    }
+  });
+
+  app.post("/api/sync/jobs/:id/retry", async (req, res) => {
+    try {
+      const job = await storage.getSyncJobById(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Sync job not found" });
+      }
+      if (job.status !== "dead") {
+        return res.status(409).json({ error: `Sync job is ${job.status}; only dead jobs can be retried` });
+      }
+
+      const updated = await syncOutbox.retry(job.id);
+      void syncOutbox.drain();
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retry sync job" });
+    }
+  });
+
+  // Removes finished jobs; pending jobs are never purged
+  app.delete("/api/sync/jobs", async (req, res) => {
+    try {
+      const requested =
+        typeof req.query.status === "string" ? req.query.status.split(",") : ["synced", "cancelled"];
+      const statuses = requested.filter((s) => ["synced", "cancelled", "dead"].includes(s));
+      if (statuses.length === 0) {
+        return res.status(400).json({ error: "Only synced, cancelled or dead jobs can be purged" });
+      }
+
+      const purged = await syncOutbox.purge(statuses);
+      res.json({ purged });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to purge sync jobs" });
+    }
+  });
+
+  // Webhook Routes
+  app.get("/api/webhooks", async (_req, res) => {
+    try {
+      res.json((await storage.getWebhookSubscriptions()).map(maskWebhookSecret));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get webhook subscriptions" });
+    }
+  });
+
+  app.post("/api/webhooks", async (req, res) => {
+    try {
+      const request = createWebhookSubscriptionSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({
+          error: request.error.errors[0]?.message || "Invalid webhook subscription",
+        });
+      }
+
+      const subscription = await storage.createWebhookSubscription({
+        ...request.data,
+        secret: request.data.secret || randomBytes(32).toString("hex"),
+      });
+      // The only response carrying the whole secret
+      res.status(201).json(subscription);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create webhook subscription" });
+    }
+  });
+
+  app.patch("/api/webhooks/:id", async (req, res) => {
+    try {
+      const request = updateWebhookSubscriptionSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({
+          error: request.error.errors[0]?.message || "Invalid webhook subscription",
+        });
+      }
+
+      const subscription = await storage.updateWebhookSubscription(req.params.id, request.data);
+      if (!subscription) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.json(maskWebhookSecret(subscription));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update webhook subscription" });
+    }
+  });
+
+  app.delete("/api/webhooks/:id", async (req, res) => {
+    try {
+      const success = await storage.deleteWebhookSubscription(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Webhook subscription not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete webhook subscription" });
+    }
+  });
+
+  app.get("/api/webhook-deliveries", async (req, res) => {
+    try {
+      const deliveries = await storage.getWebhookDeliveries({
+        subscriptionId: typeof req.query.subscriptionId === "string" ? req.query.subscriptionId : undefined,
+        status: typeof req.query.status === "string" ? req.query.status : undefined,
+        limit: parseInt(req.query.limit as string) || 50,
+      });
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get webhook deliveries" });
+    }
+  });
+
+  app.post("/api/webhook-deliveries/:id/redeliver", async (req, res) => {
+    try {
+      const delivery = await storage.getWebhookDeliveryById(req.params.id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Webhook delivery not found" });
+      }
+      if (delivery.status === "pending") {
+        return res.status(409).json({ error: "Webhook delivery is already queued" });
+      }
+      res.json(await webhookDispatcher.redeliver(delivery.id));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to redeliver webhook" });
+    }
+  });
+
+  // Tag Reader Routes
+  app.get("/api/tag-reader/status", async (_req, res) => {
+    try {
+      res.json({
+        connected: tagReader.isConnected(),
+        simulated: tagReader.isSimulated(),
+        mode: tagReader.getConfig().mode,
+        lastRead: tagReader.getLastRead() ?? null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to get tag reader status" });
+    }
+  });
+
+  // Keyboard-wedge barcode scans captured by the browser
+  app.post("/api/tag-reader/scan", async (req, res) => {
+    try {
+      const { code } = req.body ?? {};
+      if (typeof code !== "string" || !code.trim()) {
+        return res.status(400).json({ error: "Scan code is required" });
+      }
+      if (tagReader.getConfig().mode !== "barcode") {
+        return res.status(409).json({ error: "Tag reader is not in barcode mode" });
+      }
+
+      const read = tagReader.submitScan(code);
+      if (!read) {
+        // Either too short to be a tag or a repeat of the last scan
+        return res.status(202).json({ accepted: false });
+      }
+      res.json({ accepted: true, ...read });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to process scan" });
+    }
+  });
+
+  // Test API Connection
+  app.post("/api/test-connection", async (req, res) => {
+    try {
+      // Settings sent in the body are probed without being applied
+      const overrides = req.body && Object.keys(req.body).length > 0 ? req.body : undefined;
+      const client = overrides ? new APIClient({ ...apiClient.getConfig(), ...overrides }) : apiClient;
+      const result = await client.testConnection();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Connection test failed" });
+    }
+  });
+
+  // Odoo Routes
+  app.post("/api/odoo/test-connection", async (req, res) => {
+    try {
+      // Settings sent in the body are probed without being applied
+      const overrides = req.body && Object.keys(req.body).length > 0 ? req.body : undefined;
+      const client = overrides ? new OdooClient({ ...odooClient.getConfig(), ...overrides }) : odooClient;
+      const result = await client.testConnection();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Odoo connection test failed" });
+    }
+  });
+
+  // Lorries and suppliers known to Odoo, offered as suggestions when queueing a lorry
+  app.get("/api/odoo/lorries", async (_req, res) => {
+    if (!odooClient.isConfigured()) {
+      return res.json([]);
+    }
+    try {
+      res.json(await odooClient.pullLorries());
+    } catch (error) {
+      res.status(502).json({ error: `Failed to pull lorries from Odoo: ${(error as Error).message}` });
+    }
+  });
+
+  app.get("/api/odoo/suppliers", async (_req, res) => {
+    if (!odooClient.isConfigured()) {
+      return res.json([]);
+    }
+    try {
+      res.json(await odooClient.pullSuppliers());
+    } catch (error) {
+      res.status(502).json({ error: `Failed to pull suppliers from Odoo: ${(error as Error).message}` });
+    }
+  });
+
+  return httpServer;
+}
+
+// Export function to initialize services after Socket.IO is created
+export async function initializeServicesWithSocketIO(io: SocketIOServer) {
+  await initializeServices(io);
+}
+
+let currentWeightReading: WeightReading = {
+  plcWeight: undefined,
+  serialWeight: undefined,
+  timestamp: new Date(),
+};
+
+// Every raw reading goes to the in-memory ring buffer and, when one is
+// configured, the long-term archive
+function recordReading(reading: RawWeightReading): void {
+  readingBuffer.add(reading);
+  readingArchive?.archive(reading);
+}
+
+function getCurrentWeightReading(): WeightReading {
   return { ...currentWeightReading };
 }
 
+// Queue the weighment in the sync outbox and start delivering it in the
+// background, so a slow uplink never holds up the weighing station
+async function queueSync(weighment: Weighment): Promise<Weighment> {
+  try {
+    if (!(await syncOutbox.enqueue(weighment))) {
+      return weighment;
+    }
+    void syncOutbox.drain();
+    return (await storage.getWeighmentById(weighment.id)) ?? weighment;
+  } catch (error) {
+    console.error("Failed to queue weighment for sync:", error);
+    return weighment;
+  }
+}
+
+// Fields recorded before and after a void or correction
+function auditSnapshot(weighment: Weighment) {
+  return {
+    tagId: weighment.tagId,
+    status: weighment.status,
+    finalWeight: weighment.finalWeight,
+    netWeight: weighment.netWeight,
+  };
+}
+
+// totalBags counts every weighment of the lorry that has not been voided or
+// rejected; a weighbridge lorry has no bags
+async function recountLorryBags(lorryId: string, io: SocketIOServer | null): Promise<void> {
+  const lorry = await storage.getLorryById(lorryId);
+  if (!lorry || lorry.weighingMode === "weighbridge") return;
+
+  const totalBags = (await storage.getWeighmentsByLorryId(lorryId)).filter(
+    (w) => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status)
+  ).length;
+  await storage.updateLorryStatus(lorryId, lorry.status, totalBags);
+
+  io?.emit("lorry_status_updated", {
+    data: { lorryId, status: lorry.status, totalBags },
+    timestamp: new Date(),
+  });
+  publishWebhook("lorry_status_updated", { lorryId, status: lorry.status, totalBags });
+}
+
+// Recomputes a weighbridge lorry's gross and tare from its latest counted
+// passes, and keeps the weighments' tare and net in step with them: the gross
+// pass carries the lorry's net once the tare is known, the tare pass none.
+// Runs after every save, review, void and correction, so any of them on
+// either pass carries through to the lorry.
+async function settleWeighbridge(lorryId: string, io: SocketIOServer | null): Promise<void> {
+  const lorry = await storage.getLorryById(lorryId);
+  if (!lorry || lorry.weighingMode !== "weighbridge") return;
+
+  // Newest first
+  const counted = (await storage.getWeighmentsByLorryId(lorryId)).filter(
+    (w) => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status)
+  );
+  const gross = counted.find((w) => w.pass === "gross");
+  const tare = counted.find((w) => w.pass === "tare");
+  const weights = { grossWeight: gross?.finalWeight ?? null, tareWeight: tare?.finalWeight ?? null };
+
+  const settled: [Weighment | undefined, { tareWeight: number; netWeight: number }][] = [
+    [
+      gross,
+      {
+        tareWeight: weights.tareWeight ?? 0,
+        netWeight: gross && weights.tareWeight != null ? roundKg(gross.finalWeight - weights.tareWeight) : 0,
+      },
+    ],
+    [tare, { tareWeight: tare?.finalWeight ?? 0, netWeight: 0 }],
+  ];
+  for (const [weighment, values] of settled) {
+    if (!weighment || (weighment.tareWeight === values.tareWeight && weighment.netWeight === values.netWeight)) {
+      continue;
+    }
+    let updated = (await storage.updateWeighment(weighment.id, values))!;
+    // Also gives a re-send its own Idempotency-Key (see SyncOutbox)
+    await storage.createWeighmentAudit({
+      weighmentId: weighment.id,
+      action: "settle",
+      performedBy: "system",
+      reason: "Weighbridge tare and net recomputed from the lorry's passes",
+      before: auditSnapshot(weighment),
+      after: auditSnapshot(updated),
+    });
+    // Already sent upstream with the old net
+    if (updated.syncStatus !== "unsynced" && (updated.status === "accepted" || updated.status === "approved")) {
+      updated = await queueSync(updated);
+    }
+    io?.emit("weighment_updated", {
+      data: updated,
+      timestamp: new Date(),
+    });
+  }
+
+  if (lorry.grossWeight !== weights.grossWeight || lorry.tareWeight !== weights.tareWeight) {
+    await storage.updateLorryWeights(lorryId, weights);
+    io?.emit("lorry_queue_updated", {
+      data: await storage.getLorryQueue(),
+      timestamp: new Date(),
+    });
+  }
+}
+
+// Answer a repeated POST /api/weighments with the weighment its Idempotency-Key
+// created, in its current state
+function replayWeighment(res: Response, original: Weighment, lorryId: string) {
+  if (original.lorryId !== lorryId) {
+    return res.status(422).json({ error: "Idempotency-Key was already used for another lorry's weighment" });
+  }
+  res.set("Idempotent-Replayed", "true");
+  return res.status(200).json(original);
+}
+
+// Bags are numbered in the order they were weighed, counting from 1
+async function getBagNumber(weighment: Weighment): Promise<number> {
+  const bags = (await storage.getWeighmentsByLorryId(weighment.lorryId)).sort(
+    (a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0)
+  );
+  return bags.findIndex((w) => w.id === weighment.id) + 1;
+}
+
+// Failed jobs are also logged as activities by the print_error listener
+async function printReceiptTicket(weighment: Weighment): Promise<PrintJob> {
+  const lorry = await storage.getLorryById(weighment.lorryId);
+  if (!lorry) {
+    throw new Error(`Lorry ${weighment.lorryId} not found`);
+  }
+  const bagNumber = await getBagNumber(weighment);
+  return receiptPrinter.printTicket(weighment, lorry, bagNumber, documentRenderer.getConfig().siteName);
+}
+
+async function printReceiptSummary(lorry: LorryWithTareConfig): Promise<PrintJob> {
+  const weighments = await storage.getWeighmentsByLorryId(lorry.id);
+  return receiptPrinter.printLorrySummary(lorry, weighments, documentRenderer.getConfig().siteName);
+}
+
+// Cursors are opaque to clients: base64url JSON of the last row's sort value and
+// id, tagged with the sort they were issued for
+function encodeHistoryCursor(filter: WeighmentHistoryFilter, last: Weighment): string {
+  const cursor = { sort: filter.sort, order: filter.order, value: weighmentSortValue(last, filter.sort), id: last.id };
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function describeQueryError(error: ZodError): string {
+  const issue = error.errors[0];
+  return issue ? `${issue.path.join(".")}: ${issue.message}` : "Invalid query";
+}
+
+// `from` is inclusive and `to` exclusive; a bare date as `to` means "up to the end of that day"
+function parseDateRange(from?: string, to?: string): { from?: Date; to?: Date } {
+  let toDate: Date | undefined;
+  if (to) {
+    toDate = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      toDate.setUTCDate(toDate.getUTCDate() + 1);
+    }
+  }
+  return { from: from ? new Date(from) : undefined, to: toDate };
+}
+
+function parseWeighmentHistoryQuery(query: unknown): WeighmentHistoryFilter | { error: string } {
+  const parsed = weighmentHistoryQuerySchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: describeQueryError(parsed.error) };
+  }
+  const { from, to, cursor, ...rest } = parsed.data;
+
+  let after: WeighmentHistoryFilter["after"];
+  if (cursor) {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      const valueType = rest.sort === "tagId" ? "string" : "number";
+      if (
+        decoded?.sort !== rest.sort ||
+        decoded?.order !== rest.order ||
+        typeof decoded.value !== valueType ||
+        typeof decoded.id !== "string"
+      ) {
+        return { error: "cursor: does not match the requested sort and order" };
+      }
+      after = { value: decoded.value, id: decoded.id };
+    } catch {
+      return { error: "cursor: malformed" };
+    }
+  }
+
+  return { ...rest, ...parseDateRange(from, to), after };
+}
+
+// Hourly buckets over a year stay under this
+const MAX_STATS_BUCKETS = 9000;
+
+// Defaults to the last seven UTC days, today included
+function statsRange(from?: string, to?: string): { from: Date; to: Date } {
+  const range = parseDateRange(from, to);
+  const end = range.to ?? new Date(bucketStart(Date.now(), "day") + STATS_BUCKET_SIZES.day.size);
+  return { from: range.from ?? new Date(end.getTime() - 7 * STATS_BUCKET_SIZES.day.size), to: end };
+}
+
+function summarizeAggregates(rows: WeighmentAggregate[]): WeighmentStatsSummary {
+  const sum = (field: keyof Omit<WeighmentAggregate, "key">) => rows.reduce((total, row) => total + row[field], 0);
+  const bags = sum("bags");
+  const totalNet = sum("totalNet");
+  const compared = sum("plcSerialCompared");
+
+  return {
+    bags,
+    totalNetKg: roundKg(totalNet),
+    avgBagKg: bags > 0 ? roundKg(totalNet / bags) : 0,
+    toleranceViolations: sum("violations"),
+    violationRate: bags > 0 ? Math.round((sum("violations") / bags) * 10000) / 10000 : 0,
+    meanPlcSerialDiffKg: compared > 0 ? roundKg(sum("plcSerialDiffSum") / compared) : null,
+  };
+}
+
+// The lorry queue table keeps every lorry, so history filters run over all of it
+function filterLorries(lorries: LorryWithTareConfig[], query: LorryExportQuery): LorryWithTareConfig[] {
+  const { from, to } = parseDateRange(query.from, query.to);
+  const lorryNumber = query.lorryNumber?.toLowerCase();
+  const sortValue = (lorry: LorryWithTareConfig) =>
+    query.sort === "lorryNumber" ? lorry.lorryNumber
+      : query.sort === "weighmentCount" ? lorry.weighmentCount ?? 0
+      : lorry.createdAt?.getTime() || 0;
+  const direction = query.order === "asc" ? 1 : -1;
+
+  return lorries
+    .filter((lorry) => {
+      const createdAt = lorry.createdAt?.getTime() || 0;
+      return (
+        (!from || createdAt >= from.getTime()) &&
+        (!to || createdAt < to.getTime()) &&
+        (!query.line || lorry.line === query.line) &&
+        (!query.lineManager || lorry.lineManager === query.lineManager) &&
+        (!lorryNumber || lorry.lorryNumber.toLowerCase().includes(lorryNumber))
+      );
+    })
+    .sort((a, b) => {
+      const [left, right] = [sortValue(a), sortValue(b)];
+      return (left < right ? -1 : left > right ? 1 : 0) * direction;
+    });
+}
+
+// Writes rows to the response as each batch arrives. Once the first bytes are
+// out an error can only cut the download short, which the browser reports.
+async function streamSpreadsheet<T>(
+  req: Request,
+  res: Response,
+  options: {
+    name: string;
+    format: ExportFormat;
+    locale?: string;
+    columns: ExportColumn<T>[];
+    batches: AsyncIterable<T[]> | Iterable<T[]>;
+  }
+): Promise<void> {
+  const { name, format, columns, batches } = options;
+  const locale = resolveLocale(options.locale, req.headers["accept-language"]);
+  const sheet = createSpreadsheetExport(format, res, columns, { locale, sheetName: name });
+  const filename = `${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.setHeader("Cache-Control", "no-store");
+  try {
+    await sheet.start();
+    for await (const rows of batches) {
+      await sheet.addRows(rows);
+    }
+    await sheet.finish();
+    res.end();
+  } catch (error) {
+    if (!res.destroyed) {
+      console.error(`Export of ${name} failed:`, error);
+      res.destroy(error as Error);
+    }
+  }
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Keyset-paged reads, so a year-long export holds one batch in memory at a time
+async function* weighmentBatches(
+  filter: Omit<WeighmentHistoryFilter, "after" | "limit">
+): AsyncGenerator<WeighmentWithLorry[]> {
+  let after: WeighmentHistoryFilter["after"];
+  for (;;) {
+    const rows = await storage.getWeighmentHistory({ ...filter, after, limit: EXPORT_BATCH_SIZE });
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+    const last = rows[rows.length - 1];
+    after = { value: weighmentSortValue(last, filter.sort), id: last.id };
+  }
+}
+
+// undefined falls back to the configured layout; null means the value is not a layout
+function parseDocumentLayout(value: unknown): DocumentLayout | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  return DOCUMENT_LAYOUTS.includes(value as DocumentLayout) ? (value as DocumentLayout) : null;
+}
+
+// Inline, so the browser opens the PDF in its viewer and can print it from there
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.set({
+    "Content-Type": "application/pdf",
+    "Content-Disposition": `inline; filename="${filename.replace(/[^\w.-]+/g, "_")}"`,
+    "Cache-Control": "no-store",
+  });
+  res.send(pdf);
+}
+
+// Forward an event that was just broadcast over Socket.IO to webhook subscribers
+function publishWebhook(event: WebhookEvent, data: unknown): void {
+  webhookDispatcher
+    .publish(event, data)
+    .catch((error) => console.error(`Failed to queue ${event} webhooks:`, error));
+}
+
+function summarizeDuplicate(weighment: Weighment) {
+  return {
+    id: weighment.id,
+    lorryId: weighment.lorryId,
+    netWeight: weighment.netWeight,
+    createdAt: weighment.createdAt,
+  };
+}
+
+// Subscriptions as listed: enough of the secret to tell them apart, not to sign with
+function maskWebhookSecret(subscription: WebhookSubscription): WebhookSubscription {
+  return { ...subscription, secret: `••••${subscription.secret.slice(-4)}` };
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Build the weighment record from the latest PLC/serial readings and the
+// lorry's tare. Returns undefined when neither source has reported a weight.
+function computeWeighment(
+  lorry: LorryWithTareConfig,
+  tagId: string,
+  pass: WeighbridgePass | null
+): { weighmentData: InsertWeighment; toleranceCheck: ToleranceCheck } | undefined {
+  const reading = getCurrentWeightReading();
+  if (!reading.plcWeight && !reading.serialWeight) {
+    return undefined;
+  }
+
+  const toleranceCheck = weightValidator.validateWeights(reading);
+  const finalWeight = roundKg(toleranceCheck.finalWeight);
+  // A tare pass weighs the lorry's own tare; a gross pass has no net until
+  // the lorry is weighed out (see settleWeighbridge)
+  const tareWeight =
+    pass === "tare" ? finalWeight : pass === "gross" ? 0 : lorry.tareConfig?.tareWeight ?? 0;
+
+  return {
+    toleranceCheck,
+    weighmentData: {
+      lorryId: lorry.id,
+      tagId,
+      plcWeight: reading.plcWeight ?? null,
+      serialWeight: reading.serialWeight ?? null,
+      finalWeight,
+      tareWeight,
+      netWeight: pass ? 0 : roundKg(finalWeight - tareWeight),
+      weightSource: toleranceCheck.weightSource,
+      toleranceStatus: toleranceCheck.status,
+      weightDifference: roundKg(toleranceCheck.difference),
+      pass,
+    },
+  };
+}
+
 async function initializeServices(io: SocketIOServer) {
+  await readingBuffer.load();
+  // Not awaited: an unreachable archive retries in the background
+  void readingArchive?.start();
+
   // Initialize MQTT client
   mqttClient.on("connect", () => {
     console.log("MQTT client connected");
@@ -355,8 +1777,16 @@ async function initializeServices(io: SocketIOServer) {
         currentWeightReading.plcWeight = weight;
         currentWeightReading.timestamp = new Date();
 
+        const stability = stabilityMonitor.addReading("plc", weight);
+        recordReading({ source: "plc", weight: Number(weight), stable: stability.stable, timestamp: new Date() });
+
         io.emit("weight_update", {
-          data: { source: "plc", weight: weight },
+          data: {
+            source: "plc",
+            weight: weight,
+            stable: stability.stable,
+            stdDev: stability.stdDev,
+          },
           timestamp: new Date(),
         });
       } else {
@@ -391,12 +1821,22 @@ async function initializeServices(io: SocketIOServer) {
     currentWeightReading.serialWeight = reading.weight;
     currentWeightReading.timestamp = new Date();
 
+    const stability = stabilityMonitor.addReading(
+      "serial",
+      reading.weight,
+      reading.timestamp,
+      reading.stable
+    );
+    recordReading({ source: "serial", weight: reading.weight, stable: stability.stable, timestamp: new Date() });
+
     // Emit all readings, not just stable ones (frontend can filter if needed)
     io.emit("weight_update", {
       data: {
         source: "serial",
         weight: reading.weight,
-        stable: reading.stable,
+        stable: stability.stable,
+        deviceStable: reading.stable,
+        stdDev: stability.stdDev,
       },
       timestamp: new Date(),
     });
@@ -410,12 +1850,49 @@ async function initializeServices(io: SocketIOServer) {
     });
   });
 
+  // Initialize tag reader
+  tagReader.on("connect", () => {
+    console.log("Tag reader connected");
+    io.emit("tag_reader_status", {
+      data: { connected: true, mode: tagReader.getConfig().mode },
+      timestamp: new Date(),
+    });
+  });
+
+  tagReader.on("tag", (read) => {
+    io.emit("tag_update", {
+      data: { tagId: read.tagId, source: read.source, readAt: read.readAt },
+      timestamp: new Date(),
+    });
+  });
+
+  tagReader.on("error", (error) => {
+    console.error("Tag reader error:", error);
+    io.emit("tag_reader_status", {
+      data: { connected: false, error: error.message },
+      timestamp: new Date(),
+    });
+  });
+
   // Initialize API client
   apiClient.on("connect", () => {
     io.emit("api_status", {
       data: { connected: true },
       timestamp: new Date(),
     });
+    // Replay whatever queued up while the API was unreachable
+    void syncOutbox.drain();
+  });
+
+  apiClient.on("auto_sync_tick", () => {
+    void syncOutbox.drain();
+  });
+
+  apiClient.on("disconnect", (result) => {
+    io.emit("api_status", {
+      data: { connected: false, error: result?.error },
+      timestamp: new Date(),
+    });
   });
 
   apiClient.on("sync_success", (event) => {
@@ -425,6 +1902,111 @@ async function initializeServices(io: SocketIOServer) {
     });
   });
 
+  apiClient.on("sync_error", (event) => {
+    io.emit("api_sync", {
+      data: { success: false, data: event.data, error: event.error.error },
+      timestamp: new Date(),
+    });
+  });
+
+  // Initialize Odoo connector
+  odooClient.on("connect", () => {
+    io.emit("odoo_status", {
+      data: { connected: true },
+      timestamp: new Date(),
+    });
+    void syncOutbox.drain();
+  });
+
+  odooClient.on("auto_sync_tick", () => {
+    void syncOutbox.drain();
+  });
+
+  odooClient.on("disconnect", (result) => {
+    io.emit("odoo_status", {
+      data: { connected: false, error: result?.error },
+      timestamp: new Date(),
+    });
+  });
+
+  odooClient.on("sync_success", (event) => {
+    io.emit("api_sync", {
+      data: { success: true, data: event.data, target: "odoo" },
+      timestamp: new Date(),
+    });
+  });
+
+  odooClient.on("sync_error", (event) => {
+    io.emit("api_sync", {
+      data: { success: false, data: event.data, error: event.error.error, target: "odoo" },
+      timestamp: new Date(),
+    });
+  });
+
+  syncOutbox.on("job_synced", ({ weighment }) => {
+    io.emit("weighment_synced", {
+      data: { weighmentId: weighment.id, syncStatus: "synced" },
+      timestamp: new Date(),
+    });
+  });
+
+  syncOutbox.on("job_dead", async ({ job, weighment, error }) => {
+    try {
+      await storage.createActivity({
+        type: "api_sync",
+        message: `Sync failed for ${weighment.tagId} after ${job?.attempts ?? 0} attempt(s): ${error}`,
+        status: "error",
+        metadata: { weighmentId: weighment.id, syncJobId: job?.id, error },
+      });
+    } catch (activityError) {
+      console.error("Failed to log sync failure:", activityError);
+    }
+    io.emit("weighment_synced", {
+      data: { weighmentId: weighment.id, syncStatus: "failed", error },
+      timestamp: new Date(),
+    });
+  });
+
+  webhookDispatcher.on("delivery_dead", async ({ delivery, subscription, error }) => {
+    try {
+      await storage.createActivity({
+        type: "webhook",
+        message: `Webhook ${delivery.event} to ${subscription.url} failed after ${delivery.attempts} attempt(s): ${error}`,
+        status: "error",
+        metadata: { deliveryId: delivery.id, subscriptionId: subscription.id, error },
+      });
+    } catch (activityError) {
+      console.error("Failed to log webhook failure:", activityError);
+    }
+  });
+
+  receiptPrinter.on("connect", () => {
+    io.emit("printer_status", {
+      data: { connected: true },
+      timestamp: new Date(),
+    });
+  });
+
+  receiptPrinter.on("disconnect", (error?: Error) => {
+    io.emit("printer_status", {
+      data: { connected: false, error: error?.message },
+      timestamp: new Date(),
+    });
+  });
+
+  receiptPrinter.on("print_error", async ({ label, error }) => {
+    try {
+      await storage.createActivity({
+        type: "printer",
+        message: `${label} was not printed: ${error}`,
+        status: "error",
+        metadata: { error },
+      });
+    } catch (activityError) {
+      console.error("Failed to log printer failure:", activityError);
+    }
+  });
+
   // Load settings from storage and apply to services before connecting
   try {
     const mqttSettings = await storage.getSettingsByCategory("mqtt");
@@ -439,11 +2021,53 @@ async function initializeServices(io: SocketIOServer) {
       console.log("📋 Loaded Serial settings from storage");
     }
 
+    const tagReaderSettings = await storage.getSettingsByCategory("tagReader");
+    if (tagReaderSettings?.settings) {
+      tagReader.updateConfig(tagReaderSettings.settings);
+      console.log("📋 Loaded tag reader settings from storage");
+    }
+
     const apiSettings = await storage.getSettingsByCategory("api");
     if (apiSettings?.settings) {
       apiClient.updateConfig(apiSettings.settings);
       console.log("📋 Loaded API settings from storage");
     }
+
+    const odooSettings = await storage.getSettingsByCategory("odoo");
+    if (odooSettings?.settings) {
+      odooClient.updateConfig(odooSettings.settings);
+      console.log("📋 Loaded Odoo settings from storage");
+    }
+
+    const toleranceSettings = await storage.getSettingsByCategory("tolerance");
+    if (toleranceSettings?.settings) {
+      weightValidator.updateConfig(toleranceSettings.settings);
+      console.log("📋 Loaded tolerance settings from storage");
+    }
+
+    const duplicateSettings = await storage.getSettingsByCategory("duplicates");
+    if (duplicateSettings?.settings) {
+      duplicateTagPolicy.updateConfig(duplicateSettings.settings);
+      console.log("📋 Loaded duplicate tag settings from storage");
+    }
+
+    const stabilitySettings = await storage.getSettingsByCategory("stability");
+    if (stabilitySettings?.settings) {
+      stabilityMonitor.updateConfig(stabilitySettings.settings);
+      console.log("📋 Loaded stability settings from storage");
+    }
+
+    const documentSettings = await storage.getSettingsByCategory("documents");
+    if (documentSettings?.settings) {
+      documentRenderer.updateConfig(documentSettings.settings);
+      console.log("📋 Loaded document settings from storage");
+    }
+
+    const printerSettings = await storage.getSettingsByCategory("printer");
+    if (printerSettings?.settings) {
+      receiptPrinter.updateConfig(printerSettings.settings);
+      console.log("📋 Loaded receipt printer settings from storage");
+    }
   } catch (error) {
     console.error("Error loading settings:", error);
   }
@@ -452,8 +2076,16 @@ async function initializeServices(io: SocketIOServer) {
   try {
     await mqttClient.connect();
     await serialClient.connect();
+    await tagReader.connect();
+    await receiptPrinter.connect();
     await apiClient.testConnection();
-    apiClient.startAutoSync();
+    if (odooClient.isConfigured()) {
+      await odooClient.testConnection();
+    }
+    selectSyncClient();
+    void syncOutbox.drain();
+    webhookDispatcher.start();
+    void webhookDispatcher.drain();
   } catch (error) {
     console.error("Service initialization error:", error);
   }
@@ -467,11 +2099,41 @@ function updateServiceConfigurations(category: string, settings: any) {
     case "serial":
       serialClient.updateConfig(settings);
       break;
+    case "tagReader":
+      tagReader.updateConfig(settings);
+      break;
     case "api":
       apiClient.updateConfig(settings);
       break;
     case "tolerance":
       weightValidator.updateConfig(settings);
       break;
+    case "stability":
+      stabilityMonitor.updateConfig(settings);
+      break;
+    case "duplicates":
+      duplicateTagPolicy.updateConfig(settings);
+      break;
+    case "odoo":
+      odooClient.updateConfig(settings);
+      selectSyncClient();
+      break;
+    case "documents":
+      documentRenderer.updateConfig(settings);
+      break;
+    case "printer":
+      receiptPrinter.updateConfig(settings);
+      break;
   }
 }
+
+// Weighments go to Odoo when the connector is enabled, otherwise to the HTTP
+// API. Only the active client's timer drives the outbox.
+function selectSyncClient(): void {
+  const active: SyncClient = odooClient.isEnabled() ? odooClient : apiClient;
+  const idle: SyncClient = active === odooClient ? apiClient : odooClient;
+
+  idle.stopAutoSync();
+  syncOutbox.setClient(active);
+  active.startAutoSync();
+}
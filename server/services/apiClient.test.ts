@@ -0,0 +1,123 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { APIClient, isRetryableStatus, type WeighmentData } from './apiClient';
+
+type ReceivedRequest = { method: string; url: string; headers: IncomingHttpHeaders; body: string };
+
+// Answers each request with the next queued status, repeating the last one
+let statuses: number[];
+let received: ReceivedRequest[];
+let server: Server;
+let endpoint: string;
+
+const weighment: WeighmentData = {
+  weighmentId: 'w-1',
+  idempotencyKey: 'key-1',
+  tagId: 'TAG-1',
+  weight: 52,
+  tareWeight: 2,
+  netWeight: 50,
+  lorryNumber: 'KA-01-1234',
+  timestamp: new Date('2025-01-01T08:00:00Z')
+};
+
+beforeEach(async () => {
+  statuses = [200];
+  received = [];
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+      const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(status < 400 ? { id: 'remote-1' } : { error: `stub ${status}` }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('isRetryableStatus', () => {
+  it('retries 408, 425, 429 and 5xx only', () => {
+    expect([408, 425, 429, 500, 502, 503, 504].filter(isRetryableStatus)).toHaveLength(7);
+    expect([400, 401, 403, 404, 409, 422].filter(isRetryableStatus)).toEqual([]);
+  });
+});
+
+describe('APIClient.syncWeighment', () => {
+  it('posts the weighment with auth and Idempotency-Key headers', async () => {
+    const client = new APIClient({ endpoint, apiKey: 'secret-token' });
+
+    const result = await client.syncWeighment(weighment, 1);
+
+    expect(result).toMatchObject({ success: true, status: 200, data: { id: 'remote-1' } });
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ method: 'POST', url: '/api/weighments' });
+    expect(received[0].headers['idempotency-key']).toBe('key-1');
+    expect(received[0].headers.authorization).toBe('Bearer secret-token');
+    expect(JSON.parse(received[0].body)).toMatchObject({ tagId: 'TAG-1', netWeight: 50 });
+  });
+
+  it('omits the Idempotency-Key header without a key', async () => {
+    const client = new APIClient({ endpoint });
+
+    await client.syncWeighment({ ...weighment, idempotencyKey: undefined }, 1);
+
+    expect(received[0].headers).not.toHaveProperty('idempotency-key');
+  });
+
+  it.each([408, 425, 429, 500, 503])('marks HTTP %i as retryable', async (status) => {
+    statuses = [status];
+    const client = new APIClient({ endpoint });
+
+    const result = await client.syncWeighment(weighment, 1);
+
+    expect(result).toMatchObject({ success: false, status, retryable: true });
+  });
+
+  it.each([400, 401, 404, 409, 422])('marks HTTP %i as not retryable', async (status) => {
+    statuses = [status];
+    const client = new APIClient({ endpoint });
+
+    const result = await client.syncWeighment(weighment, 1);
+
+    expect(result).toMatchObject({ success: false, status, retryable: false });
+    expect(result.error).toContain(`stub ${status}`);
+  });
+
+  it('retries a retryable failure in-process with the same key', async () => {
+    statuses = [503, 200];
+    const client = new APIClient({ endpoint });
+
+    const result = await client.syncWeighment(weighment, 3);
+
+    expect(result.success).toBe(true);
+    expect(received.map((r) => r.headers['idempotency-key'])).toEqual(['key-1', 'key-1']);
+  });
+
+  it('gives up on a non-retryable failure after one attempt', async () => {
+    statuses = [422];
+    const client = new APIClient({ endpoint });
+
+    const result = await client.syncWeighment(weighment, 3);
+
+    expect(result.retryable).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+
+  it('reports an unreachable endpoint as retryable without a status', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    server = createServer();
+    const client = new APIClient({ endpoint });
+
+    const result = await client.syncWeighment(weighment, 1);
+
+    expect(result).toMatchObject({ success: false, retryable: true, status: undefined });
+  });
+});
@@ -4,10 +4,14 @@ export interface APIResponse {
   success: boolean;
   data?: any;
   error?: string;
+  status?: number; // HTTP status, when the server answered
+  retryable?: boolean; // set on failures: true if a later attempt may succeed
   timestamp: Date;
 }
 
 export interface WeighmentData {
+  weighmentId?: string;
+  idempotencyKey?: string; // sent as the Idempotency-Key header so the receiver can drop replays
   tagId: string;
   weight: number;
   tareWeight: number;
@@ -16,113 +20,134 @@ export interface WeighmentData {
   timestamp: Date;
 }
 
-export class APIClient extends EventEmitter {
-  private config: {
-    endpoint: string;
-    authMethod: string;
-    apiKey: string;
-    syncInterval: number;
-    retryAttempts: number;
-  };
+export type AuthMethod = 'bearer' | 'apikey' | 'basic';
+
+// What the sync outbox needs from an uplink. APIClient and OdooClient both
+// implement it and emit the same connect/disconnect/sync_*/auto_sync_tick events.
+export interface SyncClient extends EventEmitter {
+  testConnection(): Promise<APIResponse>;
+  syncWeighment(data: WeighmentData, maxAttempts?: number): Promise<APIResponse>;
+  startAutoSync(): void;
+  stopAutoSync(): void;
+  isConfigured(): boolean;
+  isConnected(): boolean;
+  getConfig(): { syncInterval: number; retryAttempts: number };
+}
+
+type APIClientConfig = {
+  endpoint: string;
+  authMethod: AuthMethod;
+  apiKey: string; // token, API key, or "username:password" for basic auth
+  apiKeyHeader: string;
+  weighmentPath: string;
+  healthPath: string;
+  timeoutMs: number;
+  syncInterval: number; // seconds between auto-sync ticks, as shown in Settings
+  retryAttempts: number;
+};
+
+// Failure of a single HTTP attempt. Network errors, timeouts, 408, 425, 429
+// and 5xx are worth retrying; any other status means the request itself is wrong.
+export class APIError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || RETRYABLE_STATUSES.has(status);
+}
+
+export class APIClient extends EventEmitter implements SyncClient {
+  private config: APIClientConfig;
   private connected: boolean = false;
   private syncTimer?: NodeJS.Timeout;
 
-  constructor(config: any) {
+  constructor(config: Partial<APIClientConfig>) {
     super();
     this.config = {
-      endpoint: config.endpoint || process.env.API_ENDPOINT || 'http://localhost:3000/api', // Default for development
+      endpoint: config.endpoint || '',
       authMethod: config.authMethod || 'bearer',
-      apiKey: config.apiKey || process.env.API_KEY || 'demo-api-key',
-      syncInterval: config.syncInterval || 30000, // 30 seconds
+      apiKey: config.apiKey || '',
+      apiKeyHeader: config.apiKeyHeader || 'X-API-Key',
+      weighmentPath: config.weighmentPath || '/weighments',
+      healthPath: config.healthPath || '/health',
+      timeoutMs: config.timeoutMs || 10000,
+      syncInterval: config.syncInterval || 30,
       retryAttempts: config.retryAttempts || 3
     };
   }
 
   async testConnection(): Promise<APIResponse> {
     try {
-      if (!this.config.endpoint || this.config.endpoint === 'http://localhost:3000/api') {
-        // Use demo mode for development
-        const response: APIResponse = {
-          success: true,
-          data: { status: 'demo-mode', version: '1.0', message: 'Using demo configuration' },
-          timestamp: new Date()
-        };
-
-        this.connected = true;
-        this.emit('connect');
-        return response;
-      }
-
-      // Simulate API connection test
-      const response: APIResponse = {
+      const response = await this.request('GET', this.config.healthPath);
+      const result: APIResponse = {
         success: true,
-        data: { status: 'connected', version: '1.0' },
+        data: response.body ?? { status: 'connected' },
+        status: response.status,
         timestamp: new Date()
       };
 
       this.connected = true;
       this.emit('connect');
-      return response;
+      return result;
 
     } catch (error) {
-      const response: APIResponse = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date()
-      };
-
+      const result = this.toFailure(error);
       this.connected = false;
-      this.emit('error', error);
-      return response;
+      this.emit('disconnect', result);
+      return result;
     }
   }
 
-  async syncWeighment(data: WeighmentData): Promise<APIResponse> {
-    if (!this.connected) {
-      await this.testConnection();
-    }
+  // Retries retryable failures in-process up to maxAttempts times. The sync
+  // outbox passes 1 and schedules its own retries.
+  async syncWeighment(data: WeighmentData, maxAttempts: number = this.config.retryAttempts): Promise<APIResponse> {
+    let attempt = 0;
+    let lastError: unknown = null;
 
-    try {
-      // Simulate API request with retry logic
-      let attempt = 0;
-      let lastError: Error | null = null;
-
-      while (attempt < this.config.retryAttempts) {
-        try {
-          // Simulate API call - replace with actual HTTP request
-          await this.delay(100); // Simulate network delay
-          
-          const response: APIResponse = {
-            success: true,
-            data: { id: `sync_${Date.now()}`, status: 'synced' },
-            timestamp: new Date()
-          };
-
-          this.emit('sync_success', { data, response });
-          return response;
-
-        } catch (error) {
-          lastError = error as Error;
-          attempt++;
-          
-          if (attempt < this.config.retryAttempts) {
-            await this.delay(1000 * attempt); // Exponential backoff
-          }
-        }
-      }
+    while (attempt < maxAttempts) {
+      try {
+        const response = await this.request(
+          'POST',
+          this.config.weighmentPath,
+          data,
+          data.idempotencyKey ? { 'Idempotency-Key': data.idempotencyKey } : undefined
+        );
+        const result: APIResponse = {
+          success: true,
+          data: response.body,
+          status: response.status,
+          timestamp: new Date()
+        };
 
-      throw lastError || new Error('Sync failed after retries');
+        this.connected = true;
+        this.emit('sync_success', { data, response: result });
+        return result;
 
-    } catch (error) {
-      const response: APIResponse = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Sync failed',
-        timestamp: new Date()
-      };
+      } catch (error) {
+        lastError = error;
+        attempt++;
 
-      this.emit('sync_error', { data, error: response });
-      return response;
+        if (!(error instanceof APIError) || !error.retryable) {
+          break;
+        }
+        if (attempt < maxAttempts) {
+          await this.delay(500 * 2 ** (attempt - 1)); // Exponential backoff
+        }
+      }
     }
+
+    const result = this.toFailure(lastError);
+    this.emit('sync_error', { data, error: result });
+    return result;
   }
 
   startAutoSync(): void {
@@ -132,7 +157,7 @@ export class APIClient extends EventEmitter {
 
     this.syncTimer = setInterval(async () => {
       this.emit('auto_sync_tick');
-    }, this.config.syncInterval);
+    }, this.config.syncInterval * 1000);
   }
 
   stopAutoSync(): void {
@@ -142,9 +167,9 @@ export class APIClient extends EventEmitter {
     }
   }
 
-  updateConfig(newConfig: any): void {
+  updateConfig(newConfig: Partial<APIClientConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    
+
     // Restart auto sync if interval changed
     if (this.syncTimer) {
       this.stopAutoSync();
@@ -152,6 +177,10 @@ export class APIClient extends EventEmitter {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.config.endpoint;
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
@@ -160,6 +189,85 @@ export class APIClient extends EventEmitter {
     return { ...this.config };
   }
 
+  // One HTTP attempt against the configured endpoint. Throws APIError on any failure.
+  private async request(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<{ status: number; body: any }> {
+    if (!this.config.endpoint) {
+      throw new APIError('API endpoint is not configured', false);
+    }
+
+    const url = this.config.endpoint.replace(/\/+$/, '') + path;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...this.authHeaders(),
+          ...headers
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs)
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new APIError(
+        timedOut
+          ? `Request to ${url} timed out after ${this.config.timeoutMs}ms`
+          : `Could not reach ${url}: ${(error as any)?.cause?.message || (error as Error).message}`,
+        true
+      );
+    }
+
+    const text = await response.text();
+    let parsed: any = text || undefined;
+    try {
+      parsed = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Non-JSON bodies are passed through as text
+    }
+
+    if (!response.ok) {
+      const detail = typeof parsed === 'object' ? parsed?.error || parsed?.message : parsed;
+      throw new APIError(
+        `${method} ${url} failed with HTTP ${response.status}${detail ? `: ${detail}` : ''}`,
+        isRetryableStatus(response.status),
+        response.status
+      );
+    }
+
+    return { status: response.status, body: parsed };
+  }
+
+  private authHeaders(): Record<string, string> {
+    const { authMethod, apiKey, apiKeyHeader } = this.config;
+    if (!apiKey) return {};
+
+    switch (authMethod) {
+      case 'apikey':
+        return { [apiKeyHeader]: apiKey };
+      case 'basic':
+        return { Authorization: `Basic ${Buffer.from(apiKey).toString('base64')}` };
+      default:
+        return { Authorization: `Bearer ${apiKey}` };
+    }
+  }
+
+  private toFailure(error: unknown): APIResponse {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: error instanceof APIError ? error.status : undefined,
+      retryable: error instanceof APIError ? error.retryable : false,
+      timestamp: new Date()
+    };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -167,7 +275,10 @@ export class APIClient extends EventEmitter {
 
 export const apiClient = new APIClient({
   endpoint: process.env.API_ENDPOINT,
+  authMethod: process.env.API_AUTH_METHOD as AuthMethod | undefined,
   apiKey: process.env.API_KEY,
-  syncInterval: parseInt(process.env.API_SYNC_INTERVAL || '30000'),
+  apiKeyHeader: process.env.API_KEY_HEADER,
+  timeoutMs: parseInt(process.env.API_TIMEOUT_MS || '10000'),
+  syncInterval: parseInt(process.env.API_SYNC_INTERVAL || '30000') / 1000, // env value is in ms
   retryAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3')
 });
@@ -0,0 +1,472 @@
+import { format } from "date-fns";
+import {
+  UNCOUNTED_WEIGHMENT_STATUSES,
+  weighbridgeState,
+  type LorryQueue,
+  type LorryWithTareConfig,
+  type WeighbridgeState,
+  type Weighment,
+} from "@shared/schema";
+import { PdfDocument, PdfPage, type TextOptions } from "./pdfDocument";
+
+export const DOCUMENT_LAYOUTS = ["thermal", "a4"] as const;
+export type DocumentLayout = (typeof DOCUMENT_LAYOUTS)[number];
+
+type DocumentRendererConfig = {
+  siteName: string; // printed at the top of every document
+  ticketLayout: DocumentLayout;
+  deliveryNoteLayout: DocumentLayout;
+  printTicketOnSave: boolean; // read by the weighing screen
+  printDeliveryNoteOnComplete: boolean;
+};
+
+type PageSpec = {
+  width: number;
+  height: number | null; // null for roll paper: the page is as long as its content
+  margin: number;
+  fontSize: number;
+  lineHeight: number;
+};
+
+const MM = 72 / 25.4;
+
+const PAGE_SPECS: Record<DocumentLayout, PageSpec> = {
+  thermal: { width: 80 * MM, height: null, margin: 4 * MM, fontSize: 8, lineHeight: 11 },
+  a4: { width: 210 * MM, height: 297 * MM, margin: 15 * MM, fontSize: 10, lineHeight: 14 },
+};
+
+type Column = {
+  header: string;
+  width: number; // fraction of the content width
+  align?: "left" | "right";
+};
+
+export const STATUS_LABELS: Record<string, string> = {
+  accepted: "Accepted",
+  pending_review: "Pending review",
+  approved: "Approved",
+  rejected: "Rejected",
+  voided: "Voided",
+};
+
+const STATUS_FLAGS: Record<string, string> = {
+  pending_review: "REVIEW",
+  rejected: "REJ",
+  voided: "VOID",
+};
+
+export const WEIGHBRIDGE_STATE_LABELS: Record<WeighbridgeState, string> = {
+  awaiting_gross: "Awaiting weigh-in",
+  awaiting_tare: "Weighed in",
+  complete: "Weighed out",
+};
+
+// Renders per-bag weighment tickets and per-lorry delivery notes as PDFs,
+// either for an 80mm thermal roll or for A4 sheets.
+export class DocumentRenderer {
+  private config: DocumentRendererConfig;
+
+  constructor(config: Partial<DocumentRendererConfig> = {}) {
+    this.config = {
+      siteName: config.siteName || "WeightSyncPro",
+      ticketLayout: config.ticketLayout || "thermal",
+      deliveryNoteLayout: config.deliveryNoteLayout || "a4",
+      printTicketOnSave: config.printTicketOnSave ?? false,
+      printDeliveryNoteOnComplete: config.printDeliveryNoteOnComplete ?? true,
+    };
+  }
+
+  // bagNumber is the weighment's position in the lorry, counting from 1
+  renderTicket(
+    weighment: Weighment,
+    lorry: LorryWithTareConfig,
+    bagNumber: number,
+    layout: DocumentLayout = this.config.ticketLayout
+  ): Buffer {
+    const doc = new PdfDocument({ title: `Weighment ticket ${ticketNumber(weighment)}` });
+    const flow = new Flow(doc, PAGE_SPECS[layout]);
+
+    flow.heading(this.config.siteName, "WEIGHMENT TICKET");
+    flow.field("Ticket no", ticketNumber(weighment));
+    flow.field("Date", formatDate(weighment.createdAt));
+    flow.field("Lorry", lorry.lorryNumber);
+    flow.field("Line", lorry.line);
+    flow.field("Line manager", lorry.lineManager);
+    flow.field("Bag", String(bagNumber));
+    flow.field("Tag ID", weighment.tagId);
+    flow.rule();
+
+    flow.field("Gross", formatKg(weighment.finalWeight));
+    flow.field("Tare", formatKg(weighment.tareWeight));
+    flow.field("Net", formatKg(weighment.netWeight), { font: "bold", scale: 1.4 });
+    if (weighment.originalFinalWeight != null) {
+      flow.field("Corrected from", formatKg(weighment.originalFinalWeight));
+    }
+    flow.rule();
+
+    flow.field("Source", weighment.weightSource.toUpperCase());
+    if (weighment.plcWeight != null) flow.field("PLC reading", formatKg(weighment.plcWeight));
+    if (weighment.serialWeight != null) flow.field("Serial reading", formatKg(weighment.serialWeight));
+    if (weighment.weightDifference != null) flow.field("Difference", formatKg(weighment.weightDifference));
+    flow.field("Tolerance", weighment.toleranceStatus.toUpperCase());
+    flow.field("Status", STATUS_LABELS[weighment.status] ?? weighment.status);
+    if (UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status)) {
+      flow.space();
+      flow.centered(`${weighment.status.toUpperCase()} - NOT COUNTED`, { font: "bold" });
+    }
+
+    flow.footer(`Printed ${formatDate(new Date())}`);
+    flow.finish();
+    return doc.toBuffer();
+  }
+
+  // weighments may come in any order; bags are listed oldest first. A
+  // weighbridge lorry gets its gross, tare and net instead of a bag list.
+  renderDeliveryNote(
+    lorry: LorryWithTareConfig,
+    weighments: Weighment[],
+    layout: DocumentLayout = this.config.deliveryNoteLayout
+  ): Buffer {
+    const doc = new PdfDocument({ title: `Delivery note ${lorry.lorryNumber}` });
+    const flow = new Flow(doc, PAGE_SPECS[layout]);
+    const summary = summarizeBags(weighments);
+
+    flow.heading(this.config.siteName, "DELIVERY NOTE");
+    flow.field("Note no", deliveryNoteNumber(lorry));
+    flow.field("Lorry", lorry.lorryNumber);
+    flow.field("Line", lorry.line);
+    flow.field("Line manager", lorry.lineManager);
+    if (lorry.phone) flow.field("Phone", lorry.phone);
+    flow.field("Arrived", formatDate(lorry.createdAt));
+    flow.field("Status", lorry.status.toUpperCase());
+    if (lorry.weighingMode === "weighbridge") {
+      const weighbridge = summarizeWeighbridge(lorry, weighments);
+      flow.field("Weighbridge", WEIGHBRIDGE_STATE_LABELS[weighbridge.state]);
+      flow.field("Weighed in", formatDate(weighbridge.weighedIn));
+      flow.field("Weighed out", formatDate(weighbridge.weighedOut));
+      flow.rule();
+
+      flow.field("Gross", formatOptionalKg(weighbridge.gross));
+      flow.field("Tare", formatOptionalKg(weighbridge.tare));
+      flow.field("Net", formatOptionalKg(weighbridge.net), { font: "bold", scale: 1.4 });
+    } else {
+      if (lorry.tareConfig) flow.field("Tare per bag", formatKg(lorry.tareConfig.tareWeight));
+      flow.rule();
+      this.bagTable(flow, summary, layout);
+    }
+    flow.field("Tolerance flags", `${summary.warnings} warning, ${summary.errors} error`);
+    if (summary.pendingReview > 0) flow.field("Pending review", String(summary.pendingReview));
+
+    flow.space(2);
+    flow.signature("Line manager");
+    flow.signature("Driver");
+
+    flow.footer(`Printed ${formatDate(new Date())}`);
+    flow.finish();
+    return doc.toBuffer();
+  }
+
+  updateConfig(newConfig: Partial<DocumentRendererConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  // Every bag with its weights and flags, then the counted totals
+  private bagTable(flow: Flow, summary: BagSummary, layout: DocumentLayout): void {
+    const rows = summary.bags.map((w, index) => {
+      const cells =
+        layout === "a4"
+          ? [
+              String(index + 1),
+              w.tagId,
+              w.finalWeight.toFixed(3),
+              w.tareWeight.toFixed(3),
+              w.netWeight.toFixed(3),
+              w.toleranceStatus.toUpperCase(),
+              STATUS_LABELS[w.status] ?? w.status,
+            ]
+          : [String(index + 1), w.tagId, w.netWeight.toFixed(3), bagFlag(w)];
+      return { cells, muted: UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status) };
+    });
+
+    const columns: Column[] =
+      layout === "a4"
+        ? [
+            { header: "#", width: 0.06 },
+            { header: "Tag ID", width: 0.24 },
+            { header: "Gross kg", width: 0.13, align: "right" },
+            { header: "Tare kg", width: 0.12, align: "right" },
+            { header: "Net kg", width: 0.13, align: "right" },
+            { header: "Tolerance", width: 0.14 },
+            { header: "Status", width: 0.18 },
+          ]
+        : [
+            { header: "#", width: 0.1 },
+            { header: "Tag ID", width: 0.42 },
+            { header: "Net kg", width: 0.26, align: "right" },
+            { header: "Flag", width: 0.22 },
+          ];
+
+    if (rows.length === 0) {
+      flow.centered("No bags recorded", { gray: true });
+    } else {
+      flow.table(columns, rows);
+    }
+    flow.rule();
+
+    flow.field("Bags counted", bagsCountedLabel(summary));
+    flow.field("Total gross", formatKg(summary.totalGross));
+    flow.field("Total tare", formatKg(summary.totalTare));
+    flow.field("Total net", formatKg(summary.totalNet), { font: "bold", scale: 1.4 });
+  }
+}
+
+// Lays content out top to bottom, starting a new page when a fixed-height page is full
+class Flow {
+  private pages: PdfPage[] = [];
+  private page: PdfPage;
+  private y: number;
+  private onPageBreak?: () => void;
+
+  constructor(
+    private doc: PdfDocument,
+    private spec: PageSpec
+  ) {
+    this.page = this.addPage();
+    this.y = spec.margin;
+  }
+
+  private get left(): number {
+    return this.spec.margin;
+  }
+
+  private get right(): number {
+    return this.spec.width - this.spec.margin;
+  }
+
+  private get contentWidth(): number {
+    return this.right - this.left;
+  }
+
+  heading(title: string, subtitle: string): void {
+    this.centered(title, { font: "bold", size: this.spec.fontSize * 1.6 });
+    this.centered(subtitle, { font: "bold" });
+    this.rule();
+  }
+
+  centered(text: string, options: TextOptions = {}): void {
+    const size = options.size ?? this.spec.fontSize;
+    this.ensure(size * 1.4);
+    this.page.text(this.left + this.contentWidth / 2, this.y, text, { ...options, size, align: "center" });
+    this.y += Math.max(this.spec.lineHeight, size * 1.4);
+  }
+
+  field(label: string, value: string, options: { font?: "regular" | "bold"; scale?: number } = {}): void {
+    const size = this.spec.fontSize * (options.scale ?? 1);
+    const height = Math.max(this.spec.lineHeight, size * 1.4);
+    this.ensure(height);
+    // Roll paper is narrow, so values hug the right edge; A4 lines them up in a column
+    const valueX = this.spec.height === null ? this.right : this.left + this.contentWidth * 0.35;
+    this.page.text(this.left, this.y + (size - this.spec.fontSize), label, { size: this.spec.fontSize, gray: true });
+    this.page.text(valueX, this.y, value, {
+      font: options.font,
+      size,
+      align: this.spec.height === null ? "right" : "left",
+    });
+    this.y += height;
+  }
+
+  rule(): void {
+    this.ensure(this.spec.lineHeight / 2);
+    this.y += this.spec.lineHeight / 4;
+    this.page.line(this.left, this.y, this.right, this.y);
+    this.y += this.spec.lineHeight / 4;
+  }
+
+  space(lines: number = 1): void {
+    this.y += (this.spec.lineHeight * lines) / 2;
+  }
+
+  table(columns: Column[], rows: { cells: string[]; muted?: boolean }[]): void {
+    const positions: number[] = [];
+    let x = this.left;
+    for (const column of columns) {
+      positions.push(x);
+      x += column.width * this.contentWidth;
+    }
+
+    // Right-aligned numbers stop short of the column edge so they don't run into the next column
+    const cellX = (index: number) =>
+      columns[index].align === "right"
+        ? positions[index] + columns[index].width * this.contentWidth - this.spec.fontSize
+        : positions[index];
+
+    const drawHeader = () => {
+      columns.forEach((column, index) => {
+        this.page.text(cellX(index), this.y, column.header, {
+          font: "bold",
+          size: this.spec.fontSize,
+          align: column.align,
+        });
+      });
+      this.y += this.spec.lineHeight;
+      this.page.line(this.left, this.y - 2, this.right, this.y - 2, 0.25);
+    };
+
+    this.ensure(this.spec.lineHeight * 2);
+    drawHeader();
+    this.onPageBreak = drawHeader;
+    for (const row of rows) {
+      this.ensure(this.spec.lineHeight);
+      row.cells.forEach((cell, index) => {
+        this.page.text(cellX(index), this.y, cell, {
+          size: this.spec.fontSize,
+          align: columns[index].align,
+          gray: row.muted,
+        });
+      });
+      this.y += this.spec.lineHeight;
+    }
+    this.onPageBreak = undefined;
+  }
+
+  signature(label: string): void {
+    this.ensure(this.spec.lineHeight * 3);
+    this.y += this.spec.lineHeight * 1.5;
+    this.page.line(this.left, this.y, this.left + this.contentWidth * 0.6, this.y);
+    this.y += 2;
+    this.page.text(this.left, this.y, label, { size: this.spec.fontSize, gray: true });
+    this.y += this.spec.lineHeight;
+  }
+
+  footer(text: string): void {
+    this.space();
+    this.centered(text, { size: this.spec.fontSize * 0.85, gray: true });
+  }
+
+  // Fixes the roll length, or numbers the sheets
+  finish(): void {
+    if (this.spec.height === null) {
+      this.page.height = this.y + this.spec.margin;
+      return;
+    }
+    if (this.pages.length > 1) {
+      this.pages.forEach((page, index) => {
+        page.text(this.right, this.spec.height! - this.spec.margin / 2, `Page ${index + 1} of ${this.pages.length}`, {
+          size: this.spec.fontSize * 0.85,
+          align: "right",
+          gray: true,
+        });
+      });
+    }
+  }
+
+  private ensure(space: number): void {
+    if (this.spec.height === null || this.y + space <= this.spec.height - this.spec.margin) {
+      return;
+    }
+    this.page = this.addPage();
+    this.y = this.spec.margin;
+    this.onPageBreak?.();
+  }
+
+  private addPage(): PdfPage {
+    const page = this.doc.addPage(this.spec.width, this.spec.height ?? 0);
+    this.pages.push(page);
+    return page;
+  }
+}
+
+export interface BagSummary {
+  bags: Weighment[]; // oldest first
+  counted: number;
+  excluded: number; // voided or rejected
+  totalGross: number;
+  totalTare: number;
+  totalNet: number;
+  warnings: number;
+  errors: number;
+  pendingReview: number;
+}
+
+// Totals cover counted bags only; voided and rejected ones are listed but excluded
+export function summarizeBags(weighments: Weighment[]): BagSummary {
+  const bags = [...weighments].sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  const counted = bags.filter((w) => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status));
+  const total = (pick: (w: Weighment) => number) => counted.reduce((sum, w) => sum + pick(w), 0);
+
+  return {
+    bags,
+    counted: counted.length,
+    excluded: bags.length - counted.length,
+    totalGross: total((w) => w.finalWeight),
+    totalTare: total((w) => w.tareWeight),
+    totalNet: total((w) => w.netWeight),
+    warnings: counted.filter((w) => w.toleranceStatus === "warning").length,
+    errors: counted.filter((w) => w.toleranceStatus === "error").length,
+    pendingReview: counted.filter((w) => w.status === "pending_review").length,
+  };
+}
+
+export interface WeighbridgeSummary {
+  state: WeighbridgeState;
+  gross: number | null;
+  tare: number | null;
+  net: number | null; // once the lorry has been weighed in and out
+  weighedIn: Date | null;
+  weighedOut: Date | null;
+}
+
+// Weights come from the lorry, where they are settled from the counted passes
+export function summarizeWeighbridge(lorry: LorryQueue, weighments: Weighment[]): WeighbridgeSummary {
+  const passAt = (pass: string) =>
+    weighments.find((w) => w.pass === pass && !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status))?.createdAt ?? null;
+
+  return {
+    state: weighbridgeState(lorry),
+    gross: lorry.grossWeight,
+    tare: lorry.tareWeight,
+    net: lorry.grossWeight != null && lorry.tareWeight != null ? lorry.grossWeight - lorry.tareWeight : null,
+    weighedIn: passAt("gross"),
+    weighedOut: passAt("tare"),
+  };
+}
+
+export function bagsCountedLabel(summary: BagSummary): string {
+  return summary.excluded > 0 ? `${summary.counted} (${summary.excluded} excluded)` : String(summary.counted);
+}
+
+export function ticketNumber(weighment: Weighment): string {
+  return `W-${weighment.id.slice(0, 8).toUpperCase()}`;
+}
+
+export function deliveryNoteNumber(lorry: LorryWithTareConfig): string {
+  return `D-${lorry.id.slice(0, 8).toUpperCase()}`;
+}
+
+// Short marker for narrow receipt tables: review state first, then tolerance
+export function bagFlag(weighment: Weighment): string {
+  if (STATUS_FLAGS[weighment.status]) return STATUS_FLAGS[weighment.status];
+  if (weighment.toleranceStatus === "warning") return "WARN";
+  if (weighment.toleranceStatus === "error") return "ERR";
+  return "";
+}
+
+export function formatKg(value: number): string {
+  return `${value.toFixed(3)} kg`;
+}
+
+export function formatOptionalKg(value: number | null): string {
+  return value != null ? formatKg(value) : "-";
+}
+
+export function formatDate(date: Date | null): string {
+  return date ? format(date, "yyyy-MM-dd HH:mm:ss") : "-";
+}
+
+export const documentRenderer = new DocumentRenderer({
+  siteName: process.env.DOCUMENT_SITE_NAME,
+});
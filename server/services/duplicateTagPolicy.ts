@@ -0,0 +1,73 @@
+import type { Weighment } from "@shared/schema";
+
+export interface DuplicateTagConfig {
+  action: "reject" | "warn" | "allow_with_reason";
+  scope: "lorry" | "day" | "all";
+}
+
+export interface DuplicateSearch {
+  lorryId?: string;
+  since?: Date;
+}
+
+export type DuplicateDecision =
+  | { outcome: "unique" }
+  | { outcome: "reject"; duplicates: Weighment[] }
+  | { outcome: "reason_required"; duplicates: Weighment[] }
+  | { outcome: "warn"; duplicates: Weighment[] }
+  | { outcome: "allowed"; duplicates: Weighment[]; reason: string };
+
+export class DuplicateTagPolicy {
+  private config: DuplicateTagConfig;
+
+  constructor(config: DuplicateTagConfig) {
+    this.config = config;
+  }
+
+  // Which earlier weighments count as duplicates of a tag weighed for this lorry
+  getSearch(lorryId: string, now: Date = new Date()): DuplicateSearch {
+    switch (this.config.scope) {
+      case "lorry":
+        return { lorryId };
+      case "day": {
+        // UTC day, matching getTodaysWeighments
+        const since = new Date(now);
+        since.setUTCHours(0, 0, 0, 0);
+        return { since };
+      }
+      default:
+        return {};
+    }
+  }
+
+  evaluate(duplicates: Weighment[], reason?: string | null): DuplicateDecision {
+    if (duplicates.length === 0) {
+      return { outcome: "unique" };
+    }
+
+    switch (this.config.action) {
+      case "reject":
+        return { outcome: "reject", duplicates };
+      case "allow_with_reason":
+        return reason?.trim()
+          ? { outcome: "allowed", duplicates, reason: reason.trim() }
+          : { outcome: "reason_required", duplicates };
+      default:
+        return { outcome: "warn", duplicates };
+    }
+  }
+
+  updateConfig(newConfig: Partial<DuplicateTagConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig(): DuplicateTagConfig {
+    return { ...this.config };
+  }
+}
+
+// Default policy instance
+export const duplicateTagPolicy = new DuplicateTagPolicy({
+  action: "reject",
+  scope: "day",
+});
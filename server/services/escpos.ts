@@ -0,0 +1,105 @@
+// Builds ESC/POS command streams for receipt printers. Only the commands every
+// cheap 58/80mm printer understands are used: init, align, bold, double size,
+// feed and cut. Text is limited to ASCII, since code pages differ between models.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export class EscPosBuilder {
+  private chunks: Buffer[] = [];
+  private doubleSize = false;
+
+  // columns is the line width in the normal font: 48 for 80mm paper, 32 for 58mm
+  constructor(private columns: number = 48) {
+    this.command(ESC, 0x40); // ESC @: reset to defaults
+  }
+
+  align(alignment: "left" | "center" | "right"): this {
+    return this.command(ESC, 0x61, alignment === "center" ? 1 : alignment === "right" ? 2 : 0);
+  }
+
+  bold(on: boolean): this {
+    return this.command(ESC, 0x45, on ? 1 : 0);
+  }
+
+  // Double width and height halves the characters per line
+  large(on: boolean): this {
+    this.doubleSize = on;
+    return this.command(GS, 0x21, on ? 0x11 : 0);
+  }
+
+  line(text: string = ""): this {
+    this.chunks.push(Buffer.from(toAscii(text).slice(0, this.width), "ascii"));
+    return this.command(LF);
+  }
+
+  // Label on the left, value pushed to the right edge; a value that does not
+  // fit beside its label goes on its own line
+  pair(label: string, value: string): this {
+    const gap = this.width - label.length - value.length;
+    if (gap < 1) {
+      return this.line(label).line(value.padStart(this.width));
+    }
+    return this.line(label + " ".repeat(gap) + value);
+  }
+
+  // Fixed-width columns; widths are in characters and should add up to the line width
+  row(cells: string[], widths: number[], aligns: ("left" | "right")[] = []): this {
+    const text = cells
+      .map((cell, i) => {
+        const clipped = toAscii(cell).slice(0, widths[i]);
+        return aligns[i] === "right" ? clipped.padStart(widths[i]) : clipped.padEnd(widths[i]);
+      })
+      .join("");
+    return this.line(text.trimEnd());
+  }
+
+  rule(char: string = "-"): this {
+    return this.line(char.repeat(this.width));
+  }
+
+  feed(lines: number = 1): this {
+    return this.command(ESC, 0x64, lines); // ESC d n
+  }
+
+  // Feeds the last line past the cutter, then a partial cut
+  cut(): this {
+    return this.command(GS, 0x56, 66, 3);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+
+  private get width(): number {
+    return this.doubleSize ? Math.floor(this.columns / 2) : this.columns;
+  }
+
+  private command(...bytes: number[]): this {
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+}
+
+function toAscii(text: string): string {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "?");
+}
+
+// Readable rendering of a job for the loopback sink: commands are dropped and
+// line feeds kept, so tests and the settings screen can show what was printed
+export function escPosToText(data: Buffer): string {
+  let text = "";
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i];
+    if (byte === ESC || byte === GS) {
+      const command = data[i + 1];
+      // ESC @ takes no argument, GS V 66 takes two, everything else used here takes one
+      i += command === 0x40 ? 1 : byte === GS && command === 0x56 ? 3 : 2;
+      if (byte === ESC && command === 0x64) text += "\n".repeat(data[i]);
+      continue;
+    }
+    text += byte === LF ? "\n" : String.fromCharCode(byte);
+  }
+  return text;
+}
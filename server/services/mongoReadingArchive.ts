@@ -0,0 +1,203 @@
+import { MongoClient, MongoServerError, type Collection, type Filter } from "mongodb";
+import type { ArchivedWeightReading, RawWeightReading } from "@shared/schema";
+import type { ArchivedReadingFilter, ReadingArchive } from "./readingArchive";
+
+type MongoReadingArchiveConfig = {
+  uri: string;
+  dbName: string;
+  collection: string;
+  retentionDays: number; // readings older than this are removed by a TTL index; 0 keeps them forever
+  batchSize: number;
+  maxPending: number; // readings held while MongoDB is unreachable; the oldest are dropped beyond this
+  flushIntervalMs: number;
+  retryBaseMs: number; // delay before the first reconnect; doubles up to retryMaxMs
+  retryMaxMs: number;
+};
+
+type ReadingDocument = {
+  source?: RawWeightReading["source"];
+  weight: number;
+  stable?: boolean;
+  unit: string;
+  timestamp: Date;
+};
+
+// Archives readings to a MongoDB collection. Readings are written in batches
+// once a second; while MongoDB is down they are queued in memory and the
+// connection is retried with backoff instead of stopping the server.
+export class MongoReadingArchive implements ReadingArchive {
+  readonly name = "mongo";
+  private config: MongoReadingArchiveConfig;
+  private client: MongoClient | null = null;
+  private connected = false;
+  private failing = false;
+  private pending: RawWeightReading[] = [];
+  private overflowing = false;
+  private retryDelayMs: number;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(config: Partial<MongoReadingArchiveConfig>) {
+    this.config = {
+      uri: config.uri || "mongodb://localhost:27017",
+      dbName: config.dbName || "weightsyncpro",
+      collection: config.collection || "weight_readings",
+      retentionDays: config.retentionDays ?? 30,
+      batchSize: config.batchSize || 500,
+      maxPending: config.maxPending || 50000,
+      flushIntervalMs: config.flushIntervalMs || 1000,
+      retryBaseMs: config.retryBaseMs || 5000,
+      retryMaxMs: config.retryMaxMs || 5 * 60 * 1000,
+    };
+    this.retryDelayMs = this.config.retryBaseMs;
+  }
+
+  async start(): Promise<void> {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => void this.flush(), this.config.flushIntervalMs);
+    this.flushTimer.unref();
+    await this.connect();
+  }
+
+  archive(reading: RawWeightReading): void {
+    this.pending.push(reading);
+    this.trimPending();
+  }
+
+  async query(filter: ArchivedReadingFilter): Promise<ArchivedWeightReading[]> {
+    const query: Filter<ReadingDocument> = {};
+    if (filter.since || filter.until) {
+      query.timestamp = {
+        ...(filter.since ? { $gte: filter.since } : {}),
+        ...(filter.until ? { $lt: filter.until } : {}),
+      };
+    }
+    if (filter.source) query.source = filter.source;
+    if (filter.stable !== undefined) query.stable = filter.stable;
+
+    const documents = await this.collection().find(query).sort({ timestamp: -1 }).limit(filter.limit).toArray();
+    return documents.map((document) => ({
+      id: document._id.toString(),
+      source: document.source ?? "plc", // readings archived before the serial feed was added
+      weight: Number(document.weight),
+      stable: document.stable ?? false,
+      unit: document.unit ?? "kg",
+      timestamp: document.timestamp,
+    }));
+  }
+
+  isConnected(): boolean {
+    return this.connected && !this.failing;
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.flushTimer = null;
+    this.reconnectTimer = null;
+    await this.flush();
+    if (this.client) {
+      await this.client.close();
+      this.client = null;
+      this.connected = false;
+      console.log("🔌 MongoDB reading archive closed");
+    }
+  }
+
+  private async connect(): Promise<void> {
+    this.reconnectTimer = null;
+    const client = new MongoClient(this.config.uri, { serverSelectionTimeoutMS: 5000 });
+    try {
+      await client.connect();
+      this.client = client;
+      await this.ensureIndexes();
+      this.connected = true;
+      this.retryDelayMs = this.config.retryBaseMs;
+      console.log(`✅ Archiving weight readings to MongoDB (${this.config.dbName}.${this.config.collection})`);
+    } catch (error) {
+      this.client = null;
+      await client.close().catch(() => undefined);
+      console.error(
+        `❌ MongoDB reading archive unavailable, retrying in ${this.retryDelayMs / 1000}s:`,
+        (error as Error).message
+      );
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.flushTimer) return;
+    this.reconnectTimer = setTimeout(() => void this.connect(), this.retryDelayMs);
+    this.reconnectTimer.unref();
+    this.retryDelayMs = Math.min(this.retryDelayMs * 2, this.config.retryMaxMs);
+  }
+
+  private async ensureIndexes(): Promise<void> {
+    const collection = this.collection();
+    await collection.createIndex({ source: 1, timestamp: -1 });
+    if (this.config.retentionDays <= 0) return;
+
+    const expireAfterSeconds = this.config.retentionDays * 24 * 60 * 60;
+    try {
+      await collection.createIndex({ timestamp: 1 }, { expireAfterSeconds });
+    } catch (error) {
+      // The index exists with another retention period; change it in place
+      if (!(error instanceof MongoServerError) || error.codeName !== "IndexOptionsConflict") throw error;
+      await this.client!.db(this.config.dbName).command({
+        collMod: this.config.collection,
+        index: { keyPattern: { timestamp: 1 }, expireAfterSeconds },
+      });
+    }
+  }
+
+  // MongoDB reconnects on its own once connected, so a failed batch is kept
+  // and tried again on the next tick
+  private flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writePending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async writePending(): Promise<void> {
+    while (this.connected && this.pending.length > 0) {
+      const batch = this.pending.splice(0, this.config.batchSize);
+      try {
+        await this.collection().insertMany(batch.map((reading) => ({ ...reading, unit: "kg" })));
+      } catch (error) {
+        this.pending.unshift(...batch);
+        this.trimPending();
+        if (!this.failing) {
+          this.failing = true;
+          console.error("❌ Failed to archive weight readings, will retry:", (error as Error).message);
+        }
+        return;
+      }
+      this.overflowing = false;
+      if (this.failing) {
+        this.failing = false;
+        console.log("✅ Weight reading archive recovered");
+      }
+    }
+  }
+
+  private trimPending(): void {
+    const excess = this.pending.length - this.config.maxPending;
+    if (excess <= 0) return;
+    this.pending.splice(0, excess);
+    if (!this.overflowing) {
+      this.overflowing = true;
+      console.warn("⚠️  Reading archive backlog is full; dropping the oldest readings");
+    }
+  }
+
+  private collection(): Collection<ReadingDocument> {
+    if (!this.client) {
+      throw new Error("MongoDB reading archive is not connected");
+    }
+    return this.client.db(this.config.dbName).collection<ReadingDocument>(this.config.collection);
+  }
+}
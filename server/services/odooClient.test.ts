@@ -0,0 +1,160 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { WeighmentData } from "./apiClient";
+import { OdooClient } from "./odooClient";
+
+type ReceivedCall = { path: string; method: string; strings: string[]; body: string };
+
+// A fake Odoo: answers authenticate with a uid and execute_kw from `answers`,
+// keyed by the model method being run
+let received: ReceivedCall[];
+let uid: string;
+let answers: Record<string, string[]>;
+let server: Server;
+let client: OdooClient;
+
+const weighment: WeighmentData = {
+  weighmentId: "w-1",
+  tagId: "TAG-1",
+  weight: 52.5,
+  tareWeight: 2,
+  netWeight: 50.5,
+  lorryNumber: "KA-01-1234",
+  timestamp: new Date("2025-01-01T08:00:00.250Z"),
+};
+
+function methodResponse(value: string): string {
+  return `<?xml version="1.0"?><methodResponse><params><param>${value}</param></params></methodResponse>`;
+}
+
+function fault(faultString: string): string {
+  return (
+    `<?xml version="1.0"?><methodResponse><fault><value><struct>` +
+    `<member><name>faultCode</name><value><int>1</int></value></member>` +
+    `<member><name>faultString</name><value><string>${faultString}</string></value></member>` +
+    `</struct></value></fault></methodResponse>`
+  );
+}
+
+function calls(): string[] {
+  return received.map((call) => (call.method === "execute_kw" ? call.strings[3] : call.method));
+}
+
+beforeEach(async () => {
+  received = [];
+  uid = "<value><int>7</int></value>";
+  answers = {};
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const method = /<methodName>(.*?)<\/methodName>/.exec(body)![1];
+      const strings = Array.from(body.matchAll(/<string>(.*?)<\/string>/g), (match) => match[1]);
+      received.push({ path: req.url!, method, strings, body });
+
+      let reply = methodResponse("<value><boolean>1</boolean></value>");
+      if (method === "authenticate") reply = methodResponse(uid);
+      if (method === "execute_kw" && answers[strings[3]]?.length) reply = answers[strings[3]].shift()!;
+      res.writeHead(200, { "Content-Type": "text/xml" }).end(reply);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  client = new OdooClient({
+    enabled: true,
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+    db: "odoo",
+    username: "scale",
+    password: "api-key",
+    model: "x_weighment",
+    fieldMapping: {
+      weighmentId: "x_weighment_id",
+      tagId: "x_tag",
+      netWeight: "x_net",
+      timestamp: "x_weighed_at",
+    },
+  });
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("OdooClient", () => {
+  it("authenticates once, creates the record, then writes to it on resend", async () => {
+    answers = {
+      search: [
+        methodResponse("<value><array><data></data></array></value>"),
+        methodResponse("<value><array><data><value><int>42</int></value></data></array></value>"),
+      ],
+      create: [methodResponse("<value><int>42</int></value>")],
+    };
+
+    const created = await client.syncWeighment(weighment, 1);
+    const updated = await client.syncWeighment({ ...weighment, netWeight: 49 }, 1);
+
+    expect(created).toMatchObject({ success: true, data: { id: 42, created: true } });
+    expect(updated).toMatchObject({ success: true, data: { id: 42, created: false } });
+    expect(calls()).toEqual(["authenticate", "search", "create", "search", "write"]);
+
+    const [authenticate, , create, , write] = received;
+    expect(authenticate.path).toBe("/xmlrpc/2/common");
+    expect(authenticate.strings).toEqual(["odoo", "scale", "api-key"]);
+    expect(create.path).toBe("/xmlrpc/2/object");
+    expect(create.strings.slice(0, 3)).toEqual(["odoo", "api-key", "x_weighment"]);
+    expect(create.body).toContain("<param><value><int>7</int></value></param>");
+    expect(create.body).toContain(
+      "<struct><member><name>x_weighment_id</name><value><string>w-1</string></value></member>" +
+        "<member><name>x_tag</name><value><string>TAG-1</string></value></member>" +
+        "<member><name>x_net</name><value><double>50.5</double></value></member>" +
+        "<member><name>x_weighed_at</name><value><string>2025-01-01 08:00:00</string></value></member></struct>"
+    );
+    expect(write.body).toContain("<array><data><value><int>42</int></value></data></array>");
+    expect(write.body).toContain("<member><name>x_net</name><value><int>49</int></value></member>");
+  });
+
+  it("maps the weighment id by default", () => {
+    const defaults = new OdooClient({ model: "x_weighment" });
+
+    expect(defaults.getConfig().fieldMapping.weighmentId).toBe("x_weighment_id");
+  });
+
+  it("creates without searching when the weighment id is not mapped", async () => {
+    client.updateConfig({ fieldMapping: { tagId: "x_tag" } });
+
+    await client.syncWeighment(weighment, 1);
+
+    expect(calls()).toEqual(["authenticate", "create"]);
+  });
+
+  it("reports a fault as a non-retryable failure", async () => {
+    answers = { search: [fault("ValidationError: x_tag is required")] };
+
+    const result = await client.syncWeighment(weighment, 3);
+
+    expect(result).toMatchObject({ success: false, retryable: false });
+    expect(result.error).toContain("x_tag is required");
+    expect(calls()).toEqual(["authenticate", "search"]);
+  });
+
+  it("authenticates again when the cached uid is denied", async () => {
+    await client.syncWeighment(weighment, 1);
+    answers = { search: [fault("odoo.exceptions.AccessDenied: Access Denied")] };
+
+    const result = await client.syncWeighment(weighment, 1);
+
+    expect(result.success).toBe(true);
+    expect(calls()).toEqual(["authenticate", "search", "create", "search", "authenticate", "search", "create"]);
+  });
+
+  it("fails when Odoo rejects the credentials", async () => {
+    uid = "<value><boolean>0</boolean></value>";
+
+    const result = await client.testConnection();
+
+    expect(result).toMatchObject({ success: false, retryable: false });
+    expect(result.error).toContain("rejected the credentials for scale");
+    expect(client.isConnected()).toBe(false);
+  });
+});
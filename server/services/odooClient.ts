@@ -0,0 +1,293 @@
+import { EventEmitter } from "events";
+import { APIError, type APIResponse, type SyncClient, type WeighmentData } from "./apiClient";
+import { xmlRpcCall, XmlRpcFault, type XmlRpcValue } from "./xmlrpc";
+
+// Odoo field to write for each weighment value. Leave a value out to skip it;
+// when weighmentId is mapped, re-sent weighments update their existing record.
+export type OdooFieldMapping = Partial<Record<keyof WeighmentData, string>>;
+
+type OdooClientConfig = {
+  enabled: boolean;
+  url: string;
+  db: string;
+  username: string;
+  password: string; // password or API key
+  model: string;
+  fieldMapping: OdooFieldMapping;
+  lorryModel: string;
+  lorryNumberField: string;
+  supplierModel: string;
+  timeoutMs: number;
+  syncInterval: number; // seconds
+  retryAttempts: number;
+};
+
+export interface OdooLorry {
+  odooId: number;
+  lorryNumber: string;
+}
+
+export interface OdooSupplier {
+  odooId: number;
+  name: string;
+  phone: string | null;
+}
+
+// The model from the README's hand-written example, so existing Odoo modules keep working
+const DEFAULT_FIELD_MAPPING: OdooFieldMapping = {
+  weighmentId: "x_weighment_id", // looked up on re-send, so a correction updates the record
+  tagId: "tag_id",
+  lorryNumber: "lorry_number",
+  weight: "final_weight",
+  tareWeight: "tare_weight",
+  netWeight: "net_weight",
+  timestamp: "timestamp",
+};
+
+export class OdooClient extends EventEmitter implements SyncClient {
+  private config: OdooClientConfig;
+  private connected: boolean = false;
+  private syncTimer?: NodeJS.Timeout;
+  private uid: number | null = null; // cached until the connection settings change
+
+  constructor(config: Partial<OdooClientConfig>) {
+    super();
+    this.config = {
+      enabled: config.enabled ?? false,
+      url: config.url || "",
+      db: config.db || "",
+      username: config.username || "",
+      password: config.password || "",
+      model: config.model || "weighment.weighment",
+      fieldMapping: config.fieldMapping || { ...DEFAULT_FIELD_MAPPING },
+      lorryModel: config.lorryModel || "fleet.vehicle",
+      lorryNumberField: config.lorryNumberField || "license_plate",
+      supplierModel: config.supplierModel || "res.partner",
+      timeoutMs: config.timeoutMs || 10000,
+      syncInterval: config.syncInterval || 30,
+      retryAttempts: config.retryAttempts || 3,
+    };
+  }
+
+  async testConnection(): Promise<APIResponse> {
+    try {
+      const version = (await this.call("common", "version", [])) as Record<string, any>;
+      const uid = await this.authenticate();
+      const result: APIResponse = {
+        success: true,
+        data: { serverVersion: version?.server_version, uid },
+        timestamp: new Date(),
+      };
+
+      this.connected = true;
+      this.emit("connect");
+      return result;
+    } catch (error) {
+      const result = this.toFailure(error);
+      this.connected = false;
+      this.emit("disconnect", result);
+      return result;
+    }
+  }
+
+  async syncWeighment(data: WeighmentData, maxAttempts: number = this.config.retryAttempts): Promise<APIResponse> {
+    let attempt = 0;
+    let lastError: unknown = null;
+
+    while (attempt < maxAttempts) {
+      try {
+        const record = await this.upsertWeighment(data);
+        const result: APIResponse = {
+          success: true,
+          data: record,
+          timestamp: new Date(),
+        };
+
+        this.connected = true;
+        this.emit("sync_success", { data, response: result });
+        return result;
+      } catch (error) {
+        lastError = error;
+        attempt++;
+
+        if (!(error instanceof APIError) || !error.retryable) {
+          break;
+        }
+        if (attempt < maxAttempts) {
+          await this.delay(500 * 2 ** (attempt - 1)); // Exponential backoff
+        }
+      }
+    }
+
+    const result = this.toFailure(lastError);
+    this.emit("sync_error", { data, error: result });
+    return result;
+  }
+
+  async pullLorries(limit: number = 500): Promise<OdooLorry[]> {
+    const field = this.config.lorryNumberField;
+    const records = (await this.execute(this.config.lorryModel, "search_read", [[]], {
+      fields: [field],
+      limit,
+    })) as Record<string, any>[];
+
+    return records
+      .filter((record) => typeof record[field] === "string" && record[field].trim())
+      .map((record) => ({ odooId: record.id, lorryNumber: record[field].trim() }));
+  }
+
+  async pullSuppliers(limit: number = 500): Promise<OdooSupplier[]> {
+    // Odoo 13+ flags vendors on res.partner with a positive supplier_rank
+    const domain = this.config.supplierModel === "res.partner" ? [["supplier_rank", ">", 0]] : [];
+    const records = (await this.execute(this.config.supplierModel, "search_read", [domain], {
+      fields: ["name", "phone"],
+      limit,
+    })) as Record<string, any>[];
+
+    return records.map((record) => ({
+      odooId: record.id,
+      name: String(record.name ?? ""),
+      phone: typeof record.phone === "string" ? record.phone : null, // Odoo sends false for empty fields
+    }));
+  }
+
+  startAutoSync(): void {
+    if (this.syncTimer) {
+      this.stopAutoSync();
+    }
+
+    this.syncTimer = setInterval(() => {
+      this.emit("auto_sync_tick");
+    }, this.config.syncInterval * 1000);
+  }
+
+  stopAutoSync(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+  }
+
+  updateConfig(newConfig: Partial<OdooClientConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    this.uid = null;
+
+    // Restart auto sync if interval changed
+    if (this.syncTimer) {
+      this.stopAutoSync();
+      this.startAutoSync();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  isConfigured(): boolean {
+    const { enabled, url, db, username, password } = this.config;
+    return enabled && !!url && !!db && !!username && !!password;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getConfig() {
+    return { ...this.config, fieldMapping: { ...this.config.fieldMapping } };
+  }
+
+  // Creates the Odoo record, or updates the one already carrying this weighment's id
+  private async upsertWeighment(data: WeighmentData): Promise<{ id: number; created: boolean }> {
+    const values: Record<string, XmlRpcValue> = {};
+    for (const [key, field] of Object.entries(this.config.fieldMapping)) {
+      const value = data[key as keyof WeighmentData];
+      if (!field || value === undefined) continue;
+      values[field] = value instanceof Date ? toOdooDatetime(value) : value;
+    }
+
+    const idField = this.config.fieldMapping.weighmentId;
+    if (idField && data.weighmentId) {
+      const ids = (await this.execute(this.config.model, "search", [[[idField, "=", data.weighmentId]]], {
+        limit: 1,
+      })) as number[];
+      if (ids.length > 0) {
+        await this.execute(this.config.model, "write", [ids, values]);
+        return { id: ids[0], created: false };
+      }
+    }
+
+    const id = (await this.execute(this.config.model, "create", [values])) as number;
+    return { id, created: true };
+  }
+
+  private async authenticate(): Promise<number> {
+    if (this.uid !== null) return this.uid;
+
+    const { db, username, password } = this.config;
+    const uid = await this.call("common", "authenticate", [db, username, password, {}]);
+    if (typeof uid !== "number" || uid <= 0) {
+      throw new APIError(`Odoo rejected the credentials for ${username} on database ${db}`, false);
+    }
+    this.uid = uid;
+    return uid;
+  }
+
+  private async execute(
+    model: string,
+    method: string,
+    args: XmlRpcValue[],
+    kwargs: Record<string, XmlRpcValue> = {}
+  ): Promise<XmlRpcValue> {
+    const run = async () => {
+      const uid = await this.authenticate();
+      return this.call("object", "execute_kw", [this.config.db, uid, this.config.password, model, method, args, kwargs]);
+    };
+
+    try {
+      return await run();
+    } catch (error) {
+      // The cached uid may belong to a password that has since been changed
+      if (error instanceof XmlRpcFault && /AccessDenied|Access Denied/i.test(error.faultString)) {
+        this.uid = null;
+        return run();
+      }
+      throw error;
+    }
+  }
+
+  private call(service: "common" | "object", method: string, params: XmlRpcValue[]): Promise<XmlRpcValue> {
+    if (!this.config.url) {
+      return Promise.reject(new APIError("Odoo URL is not configured", false));
+    }
+    const url = `${this.config.url.replace(/\/+$/, "")}/xmlrpc/2/${service}`;
+    return xmlRpcCall(url, method, params, this.config.timeoutMs);
+  }
+
+  private toFailure(error: unknown): APIResponse {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+      status: error instanceof APIError ? error.status : undefined,
+      retryable: error instanceof APIError ? error.retryable : false,
+      timestamp: new Date(),
+    };
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+// Odoo stores datetimes as naive UTC strings
+function toOdooDatetime(date: Date): string {
+  return date.toISOString().replace("T", " ").replace(/\.\d{3}Z$/, "");
+}
+
+export const odooClient = new OdooClient({
+  enabled: !!process.env.ODOO_URL,
+  url: process.env.ODOO_URL,
+  db: process.env.ODOO_DB,
+  username: process.env.ODOO_USER,
+  password: process.env.ODOO_PASSWORD,
+  model: process.env.ODOO_MODEL,
+});
@@ -0,0 +1,145 @@
+// Minimal PDF 1.4 writer for text-and-rule documents such as tickets and
+// delivery notes. Uses the standard Type1 fonts, so nothing is embedded and
+// the output stays a few kilobytes. Coordinates are in points from the top-left.
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+export interface TextOptions {
+  font?: PdfFont;
+  size?: number;
+  align?: "left" | "right" | "center";
+  gray?: boolean;
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+  mono: { name: "F3", baseFont: "Courier" },
+};
+
+// Advance widths (1/1000 em) for ASCII 32-126 from the standard AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+export function measureText(text: string, font: PdfFont, size: number): number {
+  if (font === "mono") {
+    return text.length * 0.6 * size;
+  }
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total / 1000) * size;
+}
+
+export class PdfPage {
+  private ops: string[] = [];
+
+  constructor(
+    public readonly width: number,
+    public height: number // may be set after drawing, e.g. for roll paper
+  ) {}
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const font = options.font ?? "regular";
+    const size = options.size ?? 10;
+    const width = measureText(text, font, size);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    // y is the top of the line; PDF positions text by its baseline
+    this.ops.push(
+      `BT ${options.gray ? "0.45 g " : ""}/${FONT_RESOURCES[font].name} ${size} Tf ` +
+        `${num(left)} {Y${num(y + size * 0.8)}} Td (${escapeText(text)}) Tj ${options.gray ? "0 g " : ""}ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5): void {
+    this.ops.push(`${num(width)} w ${num(x1)} {Y${num(y1)}} m ${num(x2)} {Y${num(y2)}} l S`);
+  }
+
+  // Content stream with top-based positions flipped to PDF's bottom-left origin
+  render(): string {
+    return this.ops.join("\n").replace(/\{Y(-?[\d.]+)\}/g, (_, y) => num(this.height - parseFloat(y)));
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private info: { title?: string } = {}) {}
+
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fonts = Object.values(FONT_RESOURCES);
+
+    // 1: catalog, 2: page tree, 3: info, then fonts, then a page and its content per page
+    const firstFont = 4;
+    const firstPage = firstFont + fonts.length;
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2);
+
+    objects.push(`<< /Type /Catalog /Pages 2 0 R >>`);
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    objects.push(`<< /Title (${escapeText(this.info.title ?? "")}) /Producer (WeightSyncPro) >>`);
+    for (const font of fonts) {
+      objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`);
+    }
+    const fontRefs = fonts.map((font, i) => `/${font.name} ${firstFont + i} 0 R`).join(" ");
+
+    this.pages.forEach((page, i) => {
+      const content = page.render();
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+          `/Resources << /Font << ${fontRefs} >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let out = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xref = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(out, "latin1");
+  }
+}
+
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+// Standard fonts only cover Latin-1; anything else prints as "?"
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
@@ -0,0 +1,44 @@
+import type { ArchivedWeightReading, RawWeightReading } from "@shared/schema";
+import type { ReadingFilter } from "./readingBuffer";
+import { MongoReadingArchive } from "./mongoReadingArchive";
+
+export type ArchivedReadingFilter = ReadingFilter & {
+  stable?: boolean;
+  limit: number;
+};
+
+// Long-term store for raw scale readings, next to the in-memory ring buffer.
+// Archives must never hold up or crash the weighing pipeline: archive() only
+// queues the reading, and an unreachable backend is retried in the background.
+export interface ReadingArchive {
+  readonly name: string;
+  start(): Promise<void>;
+  archive(reading: RawWeightReading): void;
+  // Newest first; rejects when the backend cannot be reached
+  query(filter: ArchivedReadingFilter): Promise<ArchivedWeightReading[]>;
+  isConnected(): boolean;
+  close(): Promise<void>;
+}
+
+// READING_ARCHIVE picks the backend; leaving it empty keeps readings in memory only
+function createReadingArchive(): ReadingArchive | null {
+  const kind = process.env.READING_ARCHIVE || "";
+
+  switch (kind) {
+    case "":
+    case "none":
+      return null;
+    case "mongo":
+      return new MongoReadingArchive({
+        uri: process.env.MONGO_URI,
+        dbName: process.env.MONGO_DB,
+        retentionDays: process.env.MONGO_READING_RETENTION_DAYS
+          ? parseInt(process.env.MONGO_READING_RETENTION_DAYS)
+          : undefined,
+      });
+    default:
+      throw new Error(`Unknown READING_ARCHIVE: ${kind}`);
+  }
+}
+
+export const readingArchive = createReadingArchive();
@@ -0,0 +1,145 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { RawWeightReading } from "@shared/schema";
+
+export type ReadingFilter = {
+  since?: Date; // inclusive
+  until?: Date; // exclusive
+  source?: RawWeightReading["source"];
+};
+
+const FLUSH_INTERVAL_MS = 1000;
+
+// Keeps the most recent raw scale readings in a fixed-size ring, so charts can
+// backfill and a disputed weighment can be checked against the seconds around
+// it. With a file path the readings are also appended to that file as JSON
+// lines and reloaded on start, so a restart does not lose them; the file is
+// rewritten from the ring whenever it grows past twice the capacity.
+export class ReadingBuffer {
+  private readings: (RawWeightReading | undefined)[];
+  private next = 0;
+  private count = 0;
+  private pending: RawWeightReading[] = [];
+  private linesInFile = 0;
+  private writing: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private capacity: number,
+    private filePath?: string
+  ) {
+    this.readings = new Array(capacity);
+  }
+
+  // Reloads the persisted readings and starts writing new ones; does nothing
+  // without a file path
+  async load(): Promise<void> {
+    if (!this.filePath || this.flushTimer) return;
+
+    let raw = "";
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read weight readings from ${this.filePath}:`, error);
+      }
+    }
+    for (const line of raw.split("\n")) {
+      const reading = parseReading(line);
+      if (reading) this.store(reading);
+    }
+    if (this.count > 0) {
+      console.log(`📈 Restored ${this.count} weight readings from ${this.filePath}`);
+    }
+
+    await this.enqueueWrite(() => this.compact());
+    this.flushTimer = setInterval(() => void this.flush(), FLUSH_INTERVAL_MS);
+    this.flushTimer.unref();
+  }
+
+  add(reading: RawWeightReading): void {
+    this.store(reading);
+    if (this.flushTimer) {
+      this.pending.push(reading);
+    }
+  }
+
+  // Oldest first
+  query(filter: ReadingFilter = {}): RawWeightReading[] {
+    const result: RawWeightReading[] = [];
+    const first = (this.next - this.count + this.capacity) % this.capacity;
+    for (let i = 0; i < this.count; i++) {
+      const reading = this.readings[(first + i) % this.capacity]!;
+      if (filter.since && reading.timestamp < filter.since) continue;
+      if (filter.until && reading.timestamp >= filter.until) continue;
+      if (filter.source && reading.source !== filter.source) continue;
+      result.push(reading);
+    }
+    return result;
+  }
+
+  size(): number {
+    return this.count;
+  }
+
+  flush(): Promise<void> {
+    if (this.pending.length === 0) return this.writing;
+    const batch = this.pending;
+    this.pending = [];
+    return this.enqueueWrite(async () => {
+      await appendFile(this.filePath!, batch.map((reading) => JSON.stringify(reading) + "\n").join(""));
+      this.linesInFile += batch.length;
+      if (this.linesInFile > this.capacity * 2) {
+        await this.compact();
+      }
+    });
+  }
+
+  private store(reading: RawWeightReading): void {
+    this.readings[this.next] = reading;
+    this.next = (this.next + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  // Writes go one at a time so an append never lands in a file being replaced
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.writing = this.writing.then(write).catch((error) => {
+      console.error(`Failed to persist weight readings to ${this.filePath}:`, error);
+    });
+    return this.writing;
+  }
+
+  private async compact(): Promise<void> {
+    const path = this.filePath!;
+    const readings = this.query();
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, readings.map((reading) => JSON.stringify(reading) + "\n").join(""));
+    await rename(`${path}.tmp`, path);
+    this.linesInFile = readings.length;
+  }
+}
+
+function parseReading(line: string): RawWeightReading | null {
+  if (!line.trim()) return null;
+  try {
+    const value = JSON.parse(line);
+    const timestamp = new Date(value.timestamp);
+    if (
+      (value.source !== "plc" && value.source !== "serial") ||
+      typeof value.weight !== "number" ||
+      Number.isNaN(timestamp.getTime())
+    ) {
+      return null;
+    }
+    return { source: value.source, weight: value.weight, stable: !!value.stable, timestamp };
+  } catch {
+    // A line cut short by a crash mid-write
+    return null;
+  }
+}
+
+// Two sources at 10 Hz fill this in about 15 minutes
+export const readingBuffer = new ReadingBuffer(
+  parseInt(process.env.READING_BUFFER_SIZE || "18000"),
+  process.env.READING_BUFFER_FILE || undefined
+);
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertWeighment } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { ReceiptPrinter } from "./receiptPrinter";
+
+let storage: MemStorage;
+let printer: ReceiptPrinter;
+
+function weighment(lorryId: string, overrides: Partial<InsertWeighment>): InsertWeighment {
+  return {
+    lorryId,
+    tagId: "TAG-1",
+    finalWeight: 52,
+    tareWeight: 2,
+    netWeight: 50,
+    weightSource: "plc",
+    toleranceStatus: "good",
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  storage = new MemStorage();
+  printer = new ReceiptPrinter({ enabled: true, mode: "loopback", cut: false });
+});
+
+describe("ReceiptPrinter.printLorrySummary", () => {
+  it("lists every bag of a bag lorry with the counted totals", async () => {
+    const tareConfig = await storage.createTareConfig({ date: "2025-01-01", tareWeight: 2 });
+    const lorry = await storage.createLorry({
+      lorryNumber: "KA-01-1234",
+      line: "Line 1",
+      lineManager: "Ravi",
+      tareConfigId: tareConfig.id,
+    });
+    await storage.createWeighment(weighment(lorry.id, { tagId: "TAG-1" }));
+    await storage.createWeighment(weighment(lorry.id, { tagId: "TAG-2", status: "voided" }));
+
+    const job = await printer.printLorrySummary(
+      (await storage.getLorryById(lorry.id))!,
+      await storage.getWeighmentsByLorryId(lorry.id),
+      "Site"
+    );
+
+    expect(job.text).toMatch(/TAG-1/);
+    expect(job.text).toMatch(/TAG-2 +50\.000 +VOID/);
+    expect(job.text).toMatch(/Bags counted +1 \(1 excluded\)/);
+    expect(job.text).toMatch(/Total net +50\.000 kg/);
+    expect(printer.getLoopbackJobs()[0]).toEqual(job);
+  });
+
+  it("prints a weighbridge lorry's gross, tare and net instead of bags", async () => {
+    const lorry = await storage.createLorry({
+      lorryNumber: "KA-03-0001",
+      line: "Line 1",
+      lineManager: "Ravi",
+      weighingMode: "weighbridge",
+    });
+    await storage.createWeighment(weighment(lorry.id, { pass: "gross", finalWeight: 18000, tareWeight: 0, netWeight: 11000 }));
+    await storage.createWeighment(weighment(lorry.id, { pass: "tare", finalWeight: 7000, tareWeight: 7000, netWeight: 0 }));
+    await storage.updateLorryWeights(lorry.id, { grossWeight: 18000, tareWeight: 7000 });
+
+    const job = await printer.printLorrySummary(
+      (await storage.getLorryById(lorry.id))!,
+      await storage.getWeighmentsByLorryId(lorry.id),
+      "Site"
+    );
+
+    expect(job.text).toMatch(/Weighbridge +Weighed out/);
+    expect(job.text).toMatch(/Gross +18000\.000 kg/);
+    expect(job.text).toMatch(/Tare +7000\.000 kg/);
+    expect(job.text).toMatch(/Net +11000\.000 kg/);
+    expect(job.text).not.toMatch(/Bags counted|Total gross|Tag ID/);
+  });
+
+  it("leaves the net blank until a weighbridge lorry is weighed out", async () => {
+    const lorry = await storage.createLorry({
+      lorryNumber: "KA-03-0001",
+      line: "Line 1",
+      lineManager: "Ravi",
+      weighingMode: "weighbridge",
+    });
+    await storage.createWeighment(weighment(lorry.id, { pass: "gross", finalWeight: 18000, tareWeight: 0, netWeight: 0 }));
+    await storage.updateLorryWeights(lorry.id, { grossWeight: 18000, tareWeight: null });
+
+    const job = await printer.printLorrySummary(
+      (await storage.getLorryById(lorry.id))!,
+      await storage.getWeighmentsByLorryId(lorry.id),
+      "Site"
+    );
+
+    expect(job.text).toMatch(/Weighbridge +Weighed in/);
+    expect(job.text).toMatch(/Weighed out +-\n/);
+    expect(job.text).toMatch(/Tare +-\n/);
+    expect(job.text).toMatch(/Net +-\n/);
+  });
+});
@@ -0,0 +1,333 @@
+import { EventEmitter } from "events";
+import { appendFile } from "fs/promises";
+import { UNCOUNTED_WEIGHMENT_STATUSES, type LorryWithTareConfig, type Weighment } from "@shared/schema";
+import { EscPosBuilder, escPosToText } from "./escpos";
+import {
+  STATUS_LABELS,
+  WEIGHBRIDGE_STATE_LABELS,
+  bagFlag,
+  bagsCountedLabel,
+  deliveryNoteNumber,
+  formatDate,
+  formatKg,
+  formatOptionalKg,
+  summarizeBags,
+  summarizeWeighbridge,
+  ticketNumber,
+} from "./documentRenderer";
+
+// serial: printer on a COM/tty port (USB printers usually show up as one)
+// file: raw bytes appended to a path, e.g. /dev/usb/lp0 or a capture file
+// loopback: jobs kept in memory, for trying the setup without hardware
+export type PrinterMode = "serial" | "file" | "loopback";
+
+type ReceiptPrinterConfig = {
+  enabled: boolean;
+  mode: PrinterMode;
+  port: string;
+  baudRate: number;
+  filePath: string;
+  columns: number; // characters per line: 48 on 80mm paper, 32 on 58mm
+  autoPrintTickets: boolean; // print a ticket for every saved weighment
+  autoPrintSummary: boolean; // print the lorry summary when a lorry is completed
+  cut: boolean;
+};
+
+export interface PrintJob {
+  label: string;
+  bytes: number;
+  printedAt: Date;
+  text: string; // printable preview with the commands stripped
+}
+
+const LOOPBACK_JOBS = 20;
+
+// Sends weighment tickets and lorry summaries to an ESC/POS receipt printer.
+// Jobs run one at a time so two tickets never interleave on the paper.
+export class ReceiptPrinter extends EventEmitter {
+  private config: ReceiptPrinterConfig;
+  private connected: boolean = false;
+  private serialPortInstance: any | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private loopbackJobs: PrintJob[] = [];
+
+  constructor(config: Partial<ReceiptPrinterConfig>) {
+    super();
+    this.config = {
+      enabled: config.enabled ?? false,
+      mode: config.mode || "serial",
+      port: config.port || "COM5",
+      baudRate: config.baudRate || 9600,
+      filePath: config.filePath || "/dev/usb/lp0",
+      columns: config.columns || 48,
+      autoPrintTickets: config.autoPrintTickets ?? true,
+      autoPrintSummary: config.autoPrintSummary ?? true,
+      cut: config.cut ?? true,
+    };
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      await this.disconnect();
+    }
+    if (!this.config.enabled) return;
+
+    if (this.config.mode !== "serial") {
+      // Files are opened per job, so there is nothing to hold open
+      this.connected = true;
+      console.log(`🖨️  Receipt printer ready (${this.config.mode}${this.config.mode === "file" ? `: ${this.config.filePath}` : ""})`);
+      this.emit("connect");
+      return;
+    }
+
+    console.log(`🔌 Attempting to connect to receipt printer: ${this.config.port} @ ${this.config.baudRate}`);
+    try {
+      const SerialPortMod = await this.safeImport("serialport");
+      if (!SerialPortMod) {
+        throw new Error("serialport module is not available");
+      }
+      const SerialPort = (SerialPortMod as any).SerialPort || (SerialPortMod as any);
+
+      this.serialPortInstance = new SerialPort({
+        path: this.config.port,
+        baudRate: this.config.baudRate,
+        autoOpen: false,
+      });
+      this.serialPortInstance.on("error", (err: Error) => {
+        console.error("Receipt printer error:", err);
+        this.connected = false;
+        this.emit("disconnect", err);
+      });
+      this.serialPortInstance.on("close", () => {
+        this.connected = false;
+        this.emit("disconnect");
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        this.serialPortInstance.open((err: Error | null) => (err ? reject(err) : resolve()));
+      });
+      this.connected = true;
+      console.log(`✅ Receipt printer opened on ${this.config.port} @ ${this.config.baudRate}`);
+      this.emit("connect");
+    } catch (error) {
+      // No fallback: a silently simulated printer would lose real tickets
+      this.serialPortInstance = null;
+      console.log(`⚠️  Receipt printer ${this.config.port} unavailable: ${(error as Error).message}`);
+      this.emit("disconnect", error);
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.serialPortInstance) {
+      const port = this.serialPortInstance;
+      this.serialPortInstance = null;
+      await new Promise<void>((resolve) => {
+        if (port.isOpen) {
+          port.close(() => resolve());
+        } else {
+          resolve();
+        }
+      });
+    }
+    this.connected = false;
+  }
+
+  // bagNumber is the weighment's position in the lorry, counting from 1
+  printTicket(
+    weighment: Weighment,
+    lorry: LorryWithTareConfig,
+    bagNumber: number,
+    siteName: string
+  ): Promise<PrintJob> {
+    const out = new EscPosBuilder(this.config.columns);
+
+    out.align("center").bold(true).large(true).line(siteName).large(false);
+    out.line("WEIGHMENT TICKET").bold(false).align("left").rule();
+    out.pair("Ticket no", ticketNumber(weighment));
+    out.pair("Date", formatDate(weighment.createdAt));
+    out.pair("Lorry", lorry.lorryNumber);
+    out.pair("Line", lorry.line);
+    out.pair("Line manager", lorry.lineManager);
+    out.pair("Bag", String(bagNumber));
+    out.pair("Tag ID", weighment.tagId);
+    out.rule();
+
+    out.pair("Gross", formatKg(weighment.finalWeight));
+    out.pair("Tare", formatKg(weighment.tareWeight));
+    out.bold(true).pair("Net", formatKg(weighment.netWeight)).bold(false);
+    if (weighment.originalFinalWeight != null) {
+      out.pair("Corrected from", formatKg(weighment.originalFinalWeight));
+    }
+    out.rule();
+
+    out.pair("Source", weighment.weightSource.toUpperCase());
+    out.pair("Tolerance", weighment.toleranceStatus.toUpperCase());
+    out.pair("Status", STATUS_LABELS[weighment.status] ?? weighment.status);
+    if (UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status)) {
+      out.align("center").bold(true).line(`${weighment.status.toUpperCase()} - NOT COUNTED`).bold(false).align("left");
+    }
+
+    out.align("center").line(`Printed ${formatDate(new Date())}`).align("left");
+    return this.print(out, `Ticket ${ticketNumber(weighment)}`);
+  }
+
+  printLorrySummary(lorry: LorryWithTareConfig, weighments: Weighment[], siteName: string): Promise<PrintJob> {
+    const out = new EscPosBuilder(this.config.columns);
+    const summary = summarizeBags(weighments);
+
+    out.align("center").bold(true).large(true).line(siteName).large(false);
+    out.line("LORRY SUMMARY").bold(false).align("left").rule();
+    out.pair("Note no", deliveryNoteNumber(lorry));
+    out.pair("Lorry", lorry.lorryNumber);
+    out.pair("Line", lorry.line);
+    out.pair("Line manager", lorry.lineManager);
+    if (lorry.phone) out.pair("Phone", lorry.phone);
+    out.pair("Arrived", formatDate(lorry.createdAt));
+
+    if (lorry.weighingMode === "weighbridge") {
+      // Weighed whole on the weighbridge: one gross, tare and net instead of bags
+      const weighbridge = summarizeWeighbridge(lorry, weighments);
+      out.pair("Weighbridge", WEIGHBRIDGE_STATE_LABELS[weighbridge.state]);
+      out.pair("Weighed in", formatDate(weighbridge.weighedIn));
+      out.pair("Weighed out", formatDate(weighbridge.weighedOut));
+      out.rule();
+
+      out.pair("Gross", formatOptionalKg(weighbridge.gross));
+      out.pair("Tare", formatOptionalKg(weighbridge.tare));
+      out.bold(true).pair("Net", formatOptionalKg(weighbridge.net)).bold(false);
+    } else {
+      out.rule();
+
+      // # | tag | net | flag, with the tag column taking whatever the paper leaves
+      const widths = [4, this.config.columns - 4 - 11 - 7, 11, 7];
+      const aligns: ("left" | "right")[] = ["left", "left", "right", "left"];
+      out.bold(true).row(["#", "Tag ID", "Net kg", " Flag"], widths, aligns).bold(false);
+      summary.bags.forEach((w, index) => {
+        out.row([String(index + 1), w.tagId, w.netWeight.toFixed(3), ` ${bagFlag(w)}`], widths, aligns);
+      });
+      out.rule();
+
+      out.pair("Bags counted", bagsCountedLabel(summary));
+      out.pair("Total gross", formatKg(summary.totalGross));
+      out.pair("Total tare", formatKg(summary.totalTare));
+      out.bold(true).pair("Total net", formatKg(summary.totalNet)).bold(false);
+    }
+    out.pair("Tolerance flags", `${summary.warnings} warning, ${summary.errors} error`);
+    if (summary.pendingReview > 0) out.pair("Pending review", String(summary.pendingReview));
+
+    out.feed(2).line("Line manager: ____________________");
+    out.feed(1).line("Driver:       ____________________");
+    out.align("center").line(`Printed ${formatDate(new Date())}`).align("left");
+    return this.print(out, `Lorry summary ${lorry.lorryNumber}`);
+  }
+
+  printTestPage(): Promise<PrintJob> {
+    const out = new EscPosBuilder(this.config.columns);
+    out.align("center").bold(true).line("PRINTER TEST").bold(false).rule();
+    out.align("left").pair("Mode", this.config.mode).pair("Columns", String(this.config.columns));
+    out.line("0123456789".repeat(Math.ceil(this.config.columns / 10)));
+    out.align("center").line(formatDate(new Date()));
+    return this.print(out, "Test page");
+  }
+
+  // Jobs written by the loopback sink, newest first
+  getLoopbackJobs(): PrintJob[] {
+    return [...this.loopbackJobs];
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  shouldPrintTickets(): boolean {
+    return this.config.enabled && this.config.autoPrintTickets;
+  }
+
+  shouldPrintSummaries(): boolean {
+    return this.config.enabled && this.config.autoPrintSummary;
+  }
+
+  updateConfig(newConfig: Partial<ReceiptPrinterConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  private print(out: EscPosBuilder, label: string): Promise<PrintJob> {
+    if (this.config.cut) {
+      out.feed(3).cut();
+    } else {
+      out.feed(5);
+    }
+    const data = out.toBuffer();
+
+    const job = this.queue.then(async () => {
+      if (!this.config.enabled) {
+        throw new Error("Receipt printer is disabled");
+      }
+      await this.write(data);
+
+      const printed: PrintJob = { label, bytes: data.length, printedAt: new Date(), text: escPosToText(data) };
+      if (this.config.mode === "loopback") {
+        this.loopbackJobs = [printed, ...this.loopbackJobs].slice(0, LOOPBACK_JOBS);
+      }
+      this.emit("printed", printed);
+      return printed;
+    });
+    this.queue = job.then(
+      () => undefined,
+      (error) => {
+        this.emit("print_error", { label, error: (error as Error).message });
+      }
+    );
+    return job;
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    switch (this.config.mode) {
+      case "loopback":
+        return; // kept by print() once the job completes
+      case "file":
+        await appendFile(this.config.filePath, data);
+        return;
+      case "serial": {
+        if (!this.serialPortInstance?.isOpen) {
+          await this.connect();
+        }
+        const port = this.serialPortInstance;
+        if (!port?.isOpen) {
+          throw new Error(`Receipt printer ${this.config.port} is not connected`);
+        }
+        await new Promise<void>((resolve, reject) => {
+          port.write(data, (err: Error | null) => {
+            if (err) return reject(err);
+            port.drain((drainErr: Error | null) => (drainErr ? reject(drainErr) : resolve()));
+          });
+        });
+        return;
+      }
+    }
+  }
+
+  private async safeImport(id: string): Promise<any | null> {
+    try {
+      return await import(id);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const receiptPrinter = new ReceiptPrinter({
+  enabled: !!process.env.PRINTER_MODE,
+  mode: process.env.PRINTER_MODE as PrinterMode | undefined,
+  port: process.env.PRINTER_PORT,
+  baudRate: parseInt(process.env.PRINTER_BAUD_RATE || "9600"),
+  filePath: process.env.PRINTER_FILE,
+});
@@ -0,0 +1,175 @@
+import type { Writable } from "stream";
+import type { ExportFormat, LorryWithTareConfig, WeighmentWithLorry } from "@shared/schema";
+import { XlsxWriter, assertWritable, waitForDrain, type XlsxColumn, type XlsxValue } from "./xlsxWriter";
+import { formatDate } from "./documentRenderer";
+
+export interface ExportColumn<T> extends XlsxColumn {
+  value: (row: T) => XlsxValue;
+}
+
+// One column per field of WeighmentWithLorry, in schema order, except the
+// idempotency key which only means something to the API client that sent it
+export const WEIGHMENT_EXPORT_COLUMNS: ExportColumn<WeighmentWithLorry>[] = [
+  { header: "Weighment ID", type: "text", width: 38, value: (w) => w.id },
+  { header: "Date", type: "date", width: 20, value: (w) => w.createdAt },
+  { header: "Lorry ID", type: "text", width: 38, value: (w) => w.lorryId },
+  { header: "Lorry Number", type: "text", value: (w) => w.lorry.lorryNumber },
+  { header: "Line", type: "text", value: (w) => w.lorry.line },
+  { header: "Line Manager", type: "text", width: 18, value: (w) => w.lorry.lineManager },
+  { header: "Tag ID", type: "text", width: 18, value: (w) => w.tagId },
+  { header: "PLC Weight (kg)", type: "decimal", value: (w) => w.plcWeight },
+  { header: "Serial Weight (kg)", type: "decimal", value: (w) => w.serialWeight },
+  { header: "Final Weight (kg)", type: "decimal", value: (w) => w.finalWeight },
+  { header: "Tare Weight (kg)", type: "decimal", value: (w) => w.tareWeight },
+  { header: "Net Weight (kg)", type: "decimal", value: (w) => w.netWeight },
+  { header: "Weight Source", type: "text", value: (w) => w.weightSource },
+  { header: "Pass", type: "text", value: (w) => w.pass },
+  { header: "Tolerance Status", type: "text", value: (w) => w.toleranceStatus },
+  { header: "Weight Difference (kg)", type: "decimal", value: (w) => w.weightDifference },
+  { header: "Status", type: "text", value: (w) => w.status },
+  { header: "Reviewed By", type: "text", value: (w) => w.reviewedBy },
+  { header: "Review Reason", type: "text", width: 30, value: (w) => w.reviewReason },
+  { header: "Reviewed At", type: "date", width: 20, value: (w) => w.reviewedAt },
+  { header: "Original Final Weight (kg)", type: "decimal", value: (w) => w.originalFinalWeight },
+  { header: "Sync Status", type: "text", value: (w) => w.syncStatus },
+  { header: "Synced At", type: "date", width: 20, value: (w) => w.syncedAt },
+];
+
+export const LORRY_EXPORT_COLUMNS: ExportColumn<LorryWithTareConfig>[] = [
+  { header: "Lorry ID", type: "text", width: 38, value: (l) => l.id },
+  { header: "Arrived", type: "date", width: 20, value: (l) => l.createdAt },
+  { header: "Lorry Number", type: "text", value: (l) => l.lorryNumber },
+  { header: "Line", type: "text", value: (l) => l.line },
+  { header: "Line Manager", type: "text", width: 18, value: (l) => l.lineManager },
+  { header: "Phone", type: "text", value: (l) => l.phone },
+  { header: "Status", type: "text", value: (l) => l.status },
+  { header: "Weighing Mode", type: "text", value: (l) => l.weighingMode },
+  { header: "Total Bags", type: "integer", value: (l) => l.totalBags },
+  { header: "Weighments", type: "integer", value: (l) => l.weighmentCount },
+  { header: "Tare Date", type: "text", value: (l) => l.tareConfig?.date },
+  { header: "Tare Weight (kg)", type: "decimal", value: (l) => l.tareConfig?.tareWeight },
+  // Weighbridge lorries only
+  { header: "Gross Weight (kg)", type: "decimal", value: (l) => l.grossWeight },
+  { header: "Lorry Tare (kg)", type: "decimal", value: (l) => l.tareWeight },
+  {
+    header: "Lorry Net (kg)",
+    type: "decimal",
+    value: (l) => (l.grossWeight != null && l.tareWeight != null ? l.grossWeight - l.tareWeight : null),
+  },
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export interface SpreadsheetExport<T> {
+  start(): Promise<void>;
+  addRows(rows: T[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+export function createSpreadsheetExport<T>(
+  format: ExportFormat,
+  out: Writable,
+  columns: ExportColumn<T>[],
+  options: { locale: string; sheetName: string }
+): SpreadsheetExport<T> {
+  if (format === "csv") {
+    return new CsvExport(out, columns, options.locale);
+  }
+
+  const xlsx = new XlsxWriter(out, columns, options.sheetName);
+  return {
+    start: () => xlsx.start(),
+    addRows: async (rows) => {
+      for (const row of rows) {
+        await xlsx.addRow(columns.map((column) => column.value(row)));
+      }
+    },
+    finish: () => xlsx.finish(),
+  };
+}
+
+// Picks the first supported locale out of an explicit choice or an
+// Accept-Language header, falling back to en-US
+export function resolveLocale(...candidates: (string | undefined)[]): string {
+  for (const candidate of candidates) {
+    const tag = candidate?.split(",")[0]?.split(";")[0]?.trim();
+    if (!tag) continue;
+    try {
+      const [supported] = Intl.NumberFormat.supportedLocalesOf([tag]);
+      if (supported) return supported;
+    } catch {
+      // Not a well-formed language tag
+    }
+  }
+  return "en-US";
+}
+
+// XLSX cells carry real numbers that Excel shows in the reader's own locale;
+// CSV is plain text, so numbers are written the way the requested locale
+// expects. Where the decimal separator is a comma, fields are separated by
+// semicolons, as spreadsheet programs in those locales do.
+class CsvExport<T> implements SpreadsheetExport<T> {
+  private readonly delimiter: string;
+  private readonly decimal: Intl.NumberFormat;
+  private readonly integer: Intl.NumberFormat;
+
+  constructor(
+    private out: Writable,
+    private columns: ExportColumn<T>[],
+    locale: string
+  ) {
+    this.decimal = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: 3,
+      maximumFractionDigits: 3,
+      useGrouping: false,
+    });
+    this.integer = new Intl.NumberFormat(locale, { maximumFractionDigits: 0, useGrouping: false });
+    const separator = this.decimal.formatToParts(1.5).find((part) => part.type === "decimal")?.value;
+    this.delimiter = separator === "," ? ";" : ",";
+  }
+
+  async start(): Promise<void> {
+    // The byte order mark makes Excel read the file as UTF-8
+    await this.write("\uFEFF" + this.line(this.columns.map((column) => this.quote(column.header))));
+  }
+
+  async addRows(rows: T[]): Promise<void> {
+    const text = rows
+      .map((row) => this.line(this.columns.map((column) => this.cell(column, column.value(row)))))
+      .join("");
+    if (text) await this.write(text);
+  }
+
+  async finish(): Promise<void> {
+    assertWritable(this.out);
+  }
+
+  private cell(column: ExportColumn<T>, value: XlsxValue): string {
+    if (value === null || value === undefined) return "";
+    if (value instanceof Date) return formatDate(value);
+    if (typeof value === "number") {
+      return (column.type === "integer" ? this.integer : this.decimal).format(value);
+    }
+    return this.quote(value);
+  }
+
+  private quote(text: string): string {
+    // A leading = + - @ would be run as a formula when the file is opened
+    const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+    return /["\r\n]/.test(safe) || safe.includes(this.delimiter) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private line(cells: string[]): string {
+    return cells.join(this.delimiter) + "\r\n";
+  }
+
+  private async write(text: string): Promise<void> {
+    assertWritable(this.out);
+    if (!this.out.write(text)) {
+      await waitForDrain(this.out);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { StabilityMonitor } from "./stabilityMonitor";
+
+const start = new Date("2025-01-01T08:00:00Z").getTime();
+const at = (ms: number) => new Date(start + ms);
+
+let monitor: StabilityMonitor;
+
+beforeEach(() => {
+  monitor = new StabilityMonitor({ enabled: true, threshold: 0.1, stableDurationMs: 2000, maxReadingAgeMs: 5000 });
+});
+
+describe("StabilityMonitor", () => {
+  it("is stable once readings stay within the threshold for the whole window", () => {
+    for (let ms = 0; ms <= 2000; ms += 500) {
+      monitor.addReading("serial", 50 + (ms % 1000 ? 0.05 : 0), at(ms));
+    }
+
+    expect(monitor.getState("serial", at(1500))).toMatchObject({ stable: false, stale: false });
+    expect(monitor.getState("serial", at(2000))).toMatchObject({ stable: true, stale: false });
+    expect(monitor.getUnstableSources(at(2000))).toEqual([]);
+  });
+
+  it("is not stable while the weight is still moving", () => {
+    for (let ms = 0; ms <= 2000; ms += 500) {
+      monitor.addReading("serial", 50 + ms / 1000, at(ms));
+    }
+
+    expect(monitor.getState("serial", at(2000)).stable).toBe(false);
+    expect(monitor.getUnstableSources(at(2000))).toEqual(["serial"]);
+  });
+
+  it("goes stale when a source stops reporting", () => {
+    for (let ms = 0; ms <= 2000; ms += 500) {
+      monitor.addReading("plc", 50, at(ms));
+    }
+
+    expect(monitor.getState("plc", at(7000))).toMatchObject({ stable: true, stale: false });
+    expect(monitor.getState("plc", at(7001))).toMatchObject({ stable: false, stale: true });
+    expect(monitor.getUnstableSources(at(60000))).toEqual(["plc"]);
+  });
+
+  it("does not count a source that never reported as unstable", () => {
+    monitor.addReading("plc", 50, at(0));
+
+    expect(monitor.getState("serial", at(0))).toMatchObject({ stable: false, stale: false });
+    expect(monitor.getUnstableSources(at(60000))).toEqual(["plc"]);
+  });
+});
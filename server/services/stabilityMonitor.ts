@@ -0,0 +1,124 @@
+export type WeightSource = "plc" | "serial";
+
+export interface StabilityConfig {
+  enabled: boolean;
+  threshold: number; // max standard deviation in kg
+  stableDurationMs: number; // how long readings must stay within threshold
+  maxReadingAgeMs: number; // a source silent for longer is stale, so never stable
+}
+
+export interface StabilityState {
+  source: WeightSource;
+  stable: boolean;
+  stdDev: number;
+  stableSince?: Date;
+  lastReadingAt?: Date;
+  stale: boolean; // silent for longer than maxReadingAgeMs
+}
+
+type TimedReading = {
+  weight: number;
+  timestamp: number;
+  deviceStable?: boolean;
+};
+
+export class StabilityMonitor {
+  private config: StabilityConfig;
+  private readings: Record<WeightSource, TimedReading[]> = { plc: [], serial: [] };
+
+  constructor(config: StabilityConfig) {
+    this.config = config;
+  }
+
+  // Record a reading and return the source's stability at that moment.
+  // deviceStable is the scale's own ST/US flag when it reports one.
+  addReading(source: WeightSource, weight: number, timestamp: Date = new Date(), deviceStable?: boolean): StabilityState {
+    const buffer = this.readings[source];
+    buffer.push({ weight, timestamp: timestamp.getTime(), deviceStable });
+    this.prune(source, timestamp.getTime());
+    return this.getState(source, timestamp);
+  }
+
+  getState(source: WeightSource, at: Date = new Date()): StabilityState {
+    const now = at.getTime();
+    this.prune(source, now);
+    const buffer = this.readings[source];
+    const latest = buffer[buffer.length - 1];
+
+    if (!latest) {
+      return { source, stable: false, stdDev: 0, stale: false };
+    }
+
+    const stdDev = this.standardDeviation(buffer.map((r) => r.weight));
+    const windowStart = now - this.config.stableDurationMs;
+    // The oldest kept reading is the value in effect at the start of the window
+    const coversWindow = buffer[0].timestamp <= windowStart;
+    // A disconnected source would otherwise hold its last weight as stable forever
+    const stale = now - latest.timestamp > this.config.maxReadingAgeMs;
+
+    const stable =
+      !this.config.enabled ||
+      (coversWindow && !stale && stdDev <= this.config.threshold && latest.deviceStable !== false);
+
+    return {
+      source,
+      stable,
+      stdDev: Math.round(stdDev * 10000) / 10000,
+      stableSince: stable ? new Date(Math.max(buffer[0].timestamp, windowStart)) : undefined,
+      lastReadingAt: new Date(latest.timestamp),
+      stale,
+    };
+  }
+
+  // Sources that have reported weights but are not currently stable, including
+  // ones that have stopped reporting. A source that has never reported is not
+  // considered unstable.
+  getUnstableSources(at: Date = new Date()): WeightSource[] {
+    return (Object.keys(this.readings) as WeightSource[]).filter(
+      (source) => this.readings[source].length > 0 && !this.getState(source, at).stable
+    );
+  }
+
+  reset(source?: WeightSource): void {
+    if (source) {
+      this.readings[source] = [];
+    } else {
+      this.readings = { plc: [], serial: [] };
+    }
+  }
+
+  updateConfig(newConfig: Partial<StabilityConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig(): StabilityConfig {
+    return { ...this.config };
+  }
+
+  // Keep every reading inside the window plus the last one before it
+  private prune(source: WeightSource, now: number): void {
+    const buffer = this.readings[source];
+    const windowStart = now - this.config.stableDurationMs;
+    let firstInWindow = buffer.findIndex((r) => r.timestamp > windowStart);
+    if (firstInWindow === -1) firstInWindow = buffer.length;
+    const keepFrom = Math.max(0, firstInWindow - 1);
+    if (keepFrom > 0) {
+      buffer.splice(0, keepFrom);
+    }
+  }
+
+  private standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return Math.sqrt(variance);
+  }
+}
+
+// Default monitor instance
+export const stabilityMonitor = new StabilityMonitor({
+  enabled: process.env.STABILITY_ENABLED !== "false",
+  threshold: parseFloat(process.env.STABILITY_THRESHOLD || "0.1"), // 100g std deviation
+  stableDurationMs: parseInt(process.env.STABILITY_DURATION_MS || "2000"),
+  maxReadingAgeMs: parseInt(process.env.STABILITY_MAX_READING_AGE_MS || "5000"),
+});
@@ -0,0 +1,182 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertWeighment, Weighment } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { APIClient } from "./apiClient";
+import { SyncOutbox } from "./syncOutbox";
+
+let status: number;
+let received: IncomingHttpHeaders[];
+let server: Server;
+let storage: MemStorage;
+let outbox: SyncOutbox;
+
+async function createWeighment(overrides: Partial<InsertWeighment> = {}): Promise<Weighment> {
+  const lorry = await storage.createLorry({ lorryNumber: "KA-01-1234", line: "Line 1", lineManager: "Ravi" });
+  return storage.createWeighment({
+    lorryId: lorry.id,
+    tagId: "TAG-1",
+    finalWeight: 52,
+    tareWeight: 2,
+    netWeight: 50,
+    weightSource: "plc",
+    toleranceStatus: "good",
+    idempotencyKey: "key-1",
+    ...overrides,
+  });
+}
+
+async function onlyJob() {
+  const jobs = await storage.getSyncJobs();
+  expect(jobs).toHaveLength(1);
+  return jobs[0];
+}
+
+beforeEach(async () => {
+  status = 200;
+  received = [];
+  server = createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      received.push(req.headers);
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  storage = new MemStorage();
+  const client = new APIClient({
+    endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    retryAttempts: 4,
+  });
+  outbox = new SyncOutbox(storage, client, { baseDelayMs: 1000, maxDelayMs: 3000 });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("SyncOutbox", () => {
+  it("delivers a queued weighment and marks it synced", async () => {
+    const weighment = await createWeighment();
+    await outbox.enqueue(weighment);
+
+    await outbox.drain();
+
+    expect(await onlyJob()).toMatchObject({ status: "synced", attempts: 0 });
+    expect(await storage.getWeighmentById(weighment.id)).toMatchObject({ syncStatus: "synced" });
+    expect(received[0]["idempotency-key"]).toBe("key-1");
+  });
+
+  it("suffixes the Idempotency-Key with the correction count", async () => {
+    const weighment = await createWeighment();
+    await outbox.enqueue(weighment);
+    await outbox.drain();
+
+    for (let i = 0; i < 2; i++) {
+      await storage.createWeighmentAudit({
+        weighmentId: weighment.id,
+        action: "correct",
+        performedBy: "supervisor",
+        reason: "re-weighed",
+        before: {},
+        after: {},
+      });
+      await outbox.enqueue(weighment);
+      await outbox.drain();
+    }
+
+    expect(received.map((headers) => headers["idempotency-key"])).toEqual(["key-1", "key-1:r1", "key-1:r2"]);
+  });
+
+  it("gives a weighbridge gross pass a new key once the tare pass settles it", async () => {
+    const gross = await createWeighment({ pass: "gross", finalWeight: 18000, tareWeight: 0, netWeight: 0 });
+    await outbox.enqueue(gross);
+    await outbox.drain();
+
+    const settled = (await storage.updateWeighment(gross.id, { tareWeight: 7000, netWeight: 11000 }))!;
+    await storage.createWeighmentAudit({
+      weighmentId: gross.id,
+      action: "settle",
+      performedBy: "system",
+      reason: "tare pass weighed",
+      before: {},
+      after: {},
+    });
+    await outbox.enqueue(settled);
+    await outbox.drain();
+
+    expect(received.map((headers) => headers["idempotency-key"])).toEqual(["key-1", "key-1:r1"]);
+  });
+
+  it("falls back to the weighment id as the key", async () => {
+    const weighment = await createWeighment({ idempotencyKey: null });
+    await outbox.enqueue(weighment);
+
+    await outbox.drain();
+
+    expect(received[0]["idempotency-key"]).toBe(weighment.id);
+  });
+
+  it("dead-letters a job the API refuses", async () => {
+    status = 422;
+    const weighment = await createWeighment();
+    await outbox.enqueue(weighment);
+
+    await outbox.drain();
+
+    const job = await onlyJob();
+    expect(job).toMatchObject({ status: "dead", attempts: 1 });
+    expect(job.lastError).toContain("HTTP 422");
+    expect(await storage.getWeighmentById(weighment.id)).toMatchObject({ syncStatus: "failed" });
+  });
+
+  it("backs off exponentially up to the maximum, then dead-letters", async () => {
+    status = 503;
+    vi.useFakeTimers({ toFake: ["Date"] });
+    let now = new Date("2025-01-01T08:00:00Z").getTime();
+    vi.setSystemTime(now);
+    await outbox.enqueue(await createWeighment());
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt < 4; attempt++) {
+      await outbox.drain();
+      const job = await onlyJob();
+      expect(job).toMatchObject({ status: "pending", attempts: attempt });
+      delays.push(job.nextAttemptAt!.getTime() - now);
+
+      // Not due yet: nothing is sent
+      await outbox.drain();
+      expect(received).toHaveLength(attempt);
+
+      now = job.nextAttemptAt!.getTime();
+      vi.setSystemTime(now);
+    }
+    await outbox.drain();
+
+    expect(delays).toEqual([1000, 2000, 3000]);
+    expect(await onlyJob()).toMatchObject({ status: "dead", attempts: 4 });
+  });
+
+  it("queues nothing while no uplink is configured", async () => {
+    outbox.setClient(new APIClient({ endpoint: "" }));
+    const weighment = await createWeighment();
+
+    expect(await outbox.enqueue(weighment)).toBeUndefined();
+
+    expect(await storage.getSyncJobs()).toEqual([]);
+    expect(await storage.getWeighmentById(weighment.id)).toMatchObject({ syncStatus: "unsynced" });
+  });
+
+  it("keeps the attempt count while the API is unreachable", async () => {
+    const weighment = await createWeighment();
+    await outbox.enqueue(weighment);
+    await new Promise((resolve) => server.close(resolve));
+
+    await outbox.drain();
+
+    expect(await onlyJob()).toMatchObject({ status: "pending", attempts: 0 });
+  });
+});
@@ -0,0 +1,188 @@
+import { EventEmitter } from "events";
+import { UNCOUNTED_WEIGHMENT_STATUSES, type SyncJob, type Weighment } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { apiClient, type SyncClient } from "./apiClient";
+
+type SyncOutboxConfig = {
+  batchSize: number;
+  baseDelayMs: number; // delay before the first retry; doubles after every failure
+  maxDelayMs: number;
+};
+
+// Durable queue of weighments waiting to reach the external API. Jobs live in
+// storage, so anything not yet delivered survives restarts and is replayed
+// once the uplink comes back.
+export class SyncOutbox extends EventEmitter {
+  private config: SyncOutboxConfig;
+  private draining: Promise<void> | null = null;
+
+  constructor(
+    private storage: IStorage,
+    private client: SyncClient,
+    config: Partial<SyncOutboxConfig> = {}
+  ) {
+    super();
+    this.config = {
+      batchSize: config.batchSize || 20,
+      baseDelayMs: config.baseDelayMs || 30000,
+      maxDelayMs: config.maxDelayMs || 60 * 60 * 1000,
+    };
+  }
+
+  // Queue a weighment for delivery. A weighment has at most one pending job;
+  // corrections made while it waits are picked up when it is sent. Without a
+  // configured uplink nothing is queued and the weighment stays unsynced.
+  async enqueue(weighment: Weighment): Promise<SyncJob | undefined> {
+    if (UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status) || !this.client.isConfigured()) {
+      return undefined;
+    }
+
+    const [pending] = await this.storage.getSyncJobs({ weighmentId: weighment.id, status: "pending" });
+    const job = pending ?? (await this.storage.createSyncJob({ weighmentId: weighment.id }));
+    await this.storage.updateWeighment(weighment.id, { syncStatus: "pending" });
+    return job;
+  }
+
+  // Send every job that is due. Concurrent calls share the same run.
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drainDue()
+        .catch((error) => console.error("Sync outbox drain failed:", error))
+        .finally(() => {
+          this.draining = null;
+        });
+    }
+    return this.draining;
+  }
+
+  // Put a dead job back in the queue for an immediate attempt
+  async retry(id: string): Promise<SyncJob | undefined> {
+    const job = await this.storage.getSyncJobById(id);
+    if (!job) return undefined;
+
+    const updated = await this.storage.updateSyncJob(id, {
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date(),
+      completedAt: null,
+    });
+    await this.storage.updateWeighment(job.weighmentId, { syncStatus: "pending" });
+    return updated;
+  }
+
+  // Route deliveries to another uplink, e.g. Odoo instead of the HTTP API.
+  // Jobs already queued are sent through whichever client is active when they drain.
+  setClient(client: SyncClient): void {
+    this.client = client;
+  }
+
+  getClient(): SyncClient {
+    return this.client;
+  }
+
+  async purge(statuses: string[]): Promise<number> {
+    return this.storage.deleteSyncJobs(statuses);
+  }
+
+  updateConfig(newConfig: Partial<SyncOutboxConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  // The key the weighment was saved with (or its id), so the receiver drops replays
+  // of the same delivery. Each correction or weighbridge settle gets a new key, or it
+  // would be dropped too.
+  private async idempotencyKey(weighment: Weighment): Promise<string> {
+    const base = weighment.idempotencyKey ?? weighment.id;
+    const revisions = (await this.storage.getWeighmentAudits(weighment.id)).filter(
+      (audit) => audit.action === "correct" || audit.action === "settle"
+    ).length;
+    return revisions > 0 ? `${base}:r${revisions}` : base;
+  }
+
+  private async drainDue(): Promise<void> {
+    if (!this.client.isConfigured()) return;
+
+    const jobs = await this.storage.getSyncJobs({
+      status: "pending",
+      dueBy: new Date(),
+      limit: this.config.batchSize,
+    });
+
+    for (const job of jobs) {
+      const reachable = await this.process(job);
+      if (!reachable) {
+        // The uplink is down; leave the rest for the next tick instead of
+        // spending their attempts on the same outage
+        break;
+      }
+    }
+  }
+
+  // Returns false when the API could not be reached at all
+  private async process(job: SyncJob): Promise<boolean> {
+    const weighment = await this.storage.getWeighmentById(job.weighmentId);
+    if (!weighment || UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status)) {
+      await this.storage.updateSyncJob(job.id, { status: "cancelled", completedAt: new Date() });
+      return true;
+    }
+
+    const lorry = await this.storage.getLorryById(weighment.lorryId);
+    const result = await this.client.syncWeighment(
+      {
+        weighmentId: weighment.id,
+        idempotencyKey: await this.idempotencyKey(weighment),
+        tagId: weighment.tagId,
+        weight: weighment.finalWeight,
+        tareWeight: weighment.tareWeight,
+        netWeight: weighment.netWeight,
+        lorryNumber: lorry?.lorryNumber ?? "",
+        timestamp: weighment.createdAt || new Date(),
+      },
+      1
+    );
+
+    if (result.success) {
+      const now = new Date();
+      await this.storage.updateSyncJob(job.id, { status: "synced", lastError: null, completedAt: now });
+      await this.storage.updateWeighment(weighment.id, { syncStatus: "synced", syncedAt: now });
+      this.emit("job_synced", { job, weighment });
+      return true;
+    }
+
+    // A failure without an HTTP status means nothing answered. An outage says
+    // nothing about the job itself, so it is rescheduled without using an attempt.
+    const unreachable = result.retryable && result.status === undefined;
+    const attempts = unreachable ? job.attempts : job.attempts + 1;
+    const dead = !result.retryable || attempts >= this.client.getConfig().retryAttempts;
+
+    if (dead) {
+      const updated = await this.storage.updateSyncJob(job.id, {
+        status: "dead",
+        attempts,
+        lastError: result.error ?? null,
+        completedAt: new Date(),
+      });
+      await this.storage.updateWeighment(weighment.id, { syncStatus: "failed" });
+      this.emit("job_dead", { job: updated, weighment, error: result.error });
+    } else {
+      const delay = Math.min(this.config.baseDelayMs * 2 ** Math.max(attempts - 1, 0), this.config.maxDelayMs);
+      await this.storage.updateSyncJob(job.id, {
+        attempts,
+        lastError: result.error ?? null,
+        nextAttemptAt: new Date(Date.now() + delay),
+      });
+    }
+
+    return !unreachable;
+  }
+}
+
+export const syncOutbox = new SyncOutbox(storage, apiClient, {
+  baseDelayMs: parseInt(process.env.SYNC_RETRY_BASE_MS || "30000"),
+  maxDelayMs: parseInt(process.env.SYNC_RETRY_MAX_MS || "3600000"),
+});
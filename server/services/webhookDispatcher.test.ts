@@ -0,0 +1,152 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { InsertWebhookSubscription } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { signWebhookPayload, WebhookDispatcher } from "./webhookDispatcher";
+
+type ReceivedDelivery = { headers: IncomingHttpHeaders; body: string };
+
+const SECRET = "0123456789abcdef-secret";
+
+// Loopback sink answering each delivery with the next queued status, repeating the last one
+let statuses: number[];
+let received: ReceivedDelivery[];
+let sink: Server;
+let sinkUrl: string;
+let storage: MemStorage;
+let dispatcher: WebhookDispatcher;
+
+function subscribe(overrides: Partial<InsertWebhookSubscription> = {}) {
+  return storage.createWebhookSubscription({
+    url: sinkUrl,
+    secret: SECRET,
+    events: ["weighment_created"],
+    ...overrides,
+  });
+}
+
+async function onlyDelivery() {
+  const deliveries = await storage.getWebhookDeliveries();
+  expect(deliveries).toHaveLength(1);
+  return deliveries[0];
+}
+
+beforeEach(async () => {
+  statuses = [200];
+  received = [];
+  sink = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.length > 1 ? statuses.shift()! : statuses[0]).end();
+    });
+  });
+  await new Promise<void>((resolve) => sink.listen(0, "127.0.0.1", resolve));
+  sinkUrl = `http://127.0.0.1:${(sink.address() as AddressInfo).port}/hooks`;
+
+  storage = new MemStorage();
+  dispatcher = new WebhookDispatcher(storage, { maxAttempts: 3, baseDelayMs: 1000 });
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await new Promise((resolve) => sink.close(resolve));
+});
+
+describe("WebhookDispatcher", () => {
+  it("delivers a signed event", async () => {
+    const subscription = await subscribe();
+
+    const [queued] = await dispatcher.publish("weighment_created", { tagId: "TAG-1", netWeight: 50 });
+    await dispatcher.drain();
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers["x-weightsync-event"]).toBe("weighment_created");
+    expect(headers["x-weightsync-delivery"]).toBe(queued.id);
+    expect(headers["x-weightsync-signature"]).toBe(
+      signWebhookPayload(SECRET, Number(headers["x-weightsync-timestamp"]), body)
+    );
+    expect(headers["x-weightsync-signature"]).not.toBe(
+      signWebhookPayload("another-secret-value", Number(headers["x-weightsync-timestamp"]), body)
+    );
+    expect(JSON.parse(body)).toMatchObject({ event: "weighment_created", data: { tagId: "TAG-1", netWeight: 50 } });
+
+    expect(await onlyDelivery()).toMatchObject({
+      subscriptionId: subscription.id,
+      status: "delivered",
+      attempts: 1,
+      responseStatus: 200,
+    });
+  });
+
+  it("retries a non-2xx answer with backoff until it is delivered", async () => {
+    statuses = [500, 503, 200];
+    vi.useFakeTimers({ toFake: ["Date"] });
+    let now = new Date("2025-01-01T08:00:00Z").getTime();
+    vi.setSystemTime(now);
+    await subscribe();
+
+    await dispatcher.publish("weighment_created", {});
+    const delays: number[] = [];
+    for (const status of [500, 503]) {
+      await dispatcher.drain();
+      const delivery = await onlyDelivery();
+      expect(delivery).toMatchObject({ status: "pending", responseStatus: status, lastError: `HTTP ${status}` });
+      delays.push(delivery.nextAttemptAt!.getTime() - now);
+      now = delivery.nextAttemptAt!.getTime();
+      vi.setSystemTime(now);
+    }
+    await dispatcher.drain();
+
+    expect(delays).toEqual([1000, 2000]);
+    expect(received).toHaveLength(3);
+    expect(new Set(received.map((r) => r.headers["x-weightsync-delivery"])).size).toBe(1);
+    expect(await onlyDelivery()).toMatchObject({ status: "delivered", attempts: 3, responseStatus: 200 });
+  });
+
+  it("gives up after the last attempt", async () => {
+    statuses = [502];
+    dispatcher.updateConfig({ maxAttempts: 1 });
+    await subscribe();
+
+    await dispatcher.publish("weighment_created", {});
+    await dispatcher.drain();
+
+    expect(await onlyDelivery()).toMatchObject({ status: "dead", attempts: 1, lastError: "HTTP 502" });
+  });
+
+  it("sends nothing to an inactive subscription", async () => {
+    await subscribe({ active: false });
+
+    expect(await dispatcher.publish("weighment_created", {})).toEqual([]);
+    await dispatcher.drain();
+
+    expect(received).toEqual([]);
+    expect(await storage.getWebhookDeliveries()).toEqual([]);
+  });
+
+  it("cancels deliveries queued before the subscription was disabled", async () => {
+    statuses = [500];
+    const subscription = await subscribe();
+    await dispatcher.publish("weighment_created", {});
+    await dispatcher.drain();
+
+    await storage.updateWebhookSubscription(subscription.id, { active: false });
+    const delivery = await onlyDelivery();
+    await storage.updateWebhookDelivery(delivery.id, { nextAttemptAt: new Date() });
+    await dispatcher.drain();
+
+    expect(received).toHaveLength(1);
+    expect(await onlyDelivery()).toMatchObject({ status: "cancelled" });
+  });
+
+  it("skips subscriptions to other events", async () => {
+    await subscribe({ events: ["lorry_removed"] });
+
+    expect(await dispatcher.publish("weighment_created", {})).toEqual([]);
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,200 @@
+import { EventEmitter } from "events";
+import { createHmac } from "crypto";
+import type { WebhookDelivery, WebhookEvent, WebhookSubscription } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+
+type WebhookDispatcherConfig = {
+  batchSize: number;
+  maxAttempts: number;
+  baseDelayMs: number; // delay before the first retry; doubles after every failure
+  maxDelayMs: number;
+  timeoutMs: number;
+  pollIntervalMs: number; // how often the queue is checked for retries that have come due
+};
+
+// Signature over "<timestamp>.<body>", sent as X-WeightSync-Signature: sha256=<hex>.
+// Receivers recompute it with the subscription secret and reject stale timestamps.
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// Delivers lifecycle events to subscribed URLs. Every delivery is stored
+// before it is sent, so retries survive restarts and the table doubles as
+// the history shown in Settings.
+export class WebhookDispatcher extends EventEmitter {
+  private config: WebhookDispatcherConfig;
+  private draining: Promise<void> | null = null;
+  private pollTimer?: NodeJS.Timeout;
+
+  constructor(
+    private storage: IStorage,
+    config: Partial<WebhookDispatcherConfig> = {}
+  ) {
+    super();
+    this.config = {
+      batchSize: config.batchSize || 20,
+      maxAttempts: config.maxAttempts || 6,
+      baseDelayMs: config.baseDelayMs || 10000,
+      maxDelayMs: config.maxDelayMs || 60 * 60 * 1000,
+      timeoutMs: config.timeoutMs || 10000,
+      pollIntervalMs: config.pollIntervalMs || 15000,
+    };
+  }
+
+  // Queue the event for every active subscription that wants it, then start sending
+  async publish(event: WebhookEvent, data: unknown): Promise<WebhookDelivery[]> {
+    const subscriptions = (await this.storage.getWebhookSubscriptions()).filter(
+      (subscription) => subscription.active && subscription.events.includes(event)
+    );
+    if (subscriptions.length === 0) return [];
+
+    const payload = { event, data, timestamp: new Date() };
+    const deliveries = await Promise.all(
+      subscriptions.map((subscription) =>
+        this.storage.createWebhookDelivery({ subscriptionId: subscription.id, event, payload })
+      )
+    );
+    void this.drain();
+    return deliveries;
+  }
+
+  // Send every delivery that is due. Concurrent calls share the same run.
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drainDue()
+        .catch((error) => console.error("Webhook drain failed:", error))
+        .finally(() => {
+          this.draining = null;
+        });
+    }
+    return this.draining;
+  }
+
+  // Put a finished delivery back in the queue for an immediate attempt
+  async redeliver(id: string): Promise<WebhookDelivery | undefined> {
+    const delivery = await this.storage.updateWebhookDelivery(id, {
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: new Date(),
+      deliveredAt: null,
+    });
+    if (delivery) void this.drain();
+    return delivery;
+  }
+
+  start(): void {
+    this.stop();
+    this.pollTimer = setInterval(() => {
+      void this.drain();
+    }, this.config.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  updateConfig(newConfig: Partial<WebhookDispatcherConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    if (this.pollTimer) this.start();
+  }
+
+  getConfig() {
+    return { ...this.config };
+  }
+
+  private async drainDue(): Promise<void> {
+    const deliveries = await this.storage.getDueWebhookDeliveries(new Date(), this.config.batchSize);
+    for (const delivery of deliveries) {
+      await this.deliver(delivery);
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const subscription = await this.storage.getWebhookSubscriptionById(delivery.subscriptionId);
+    if (!subscription || !subscription.active) {
+      await this.storage.updateWebhookDelivery(delivery.id, { status: "cancelled" });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const { status, error } = await this.send(subscription, delivery);
+
+    if (!error) {
+      await this.storage.updateWebhookDelivery(delivery.id, {
+        status: "delivered",
+        attempts,
+        responseStatus: status,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      this.emit("delivered", { delivery, subscription });
+      return;
+    }
+
+    if (attempts >= this.config.maxAttempts) {
+      const updated = await this.storage.updateWebhookDelivery(delivery.id, {
+        status: "dead",
+        attempts,
+        responseStatus: status ?? null,
+        lastError: error,
+      });
+      this.emit("delivery_dead", { delivery: updated ?? delivery, subscription, error });
+      return;
+    }
+
+    const delay = Math.min(this.config.baseDelayMs * 2 ** (attempts - 1), this.config.maxDelayMs);
+    await this.storage.updateWebhookDelivery(delivery.id, {
+      attempts,
+      responseStatus: status ?? null,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + delay),
+    });
+  }
+
+  // Any 2xx answer counts as delivered; everything else is retried
+  private async send(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery
+  ): Promise<{ status?: number; error?: string }> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "WeightSyncPro-Webhooks",
+          "X-WeightSync-Event": delivery.event,
+          "X-WeightSync-Delivery": delivery.id,
+          "X-WeightSync-Timestamp": String(timestamp),
+          "X-WeightSync-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+
+      return response.ok
+        ? { status: response.status }
+        : { status: response.status, error: `HTTP ${response.status}` };
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      return {
+        error: timedOut
+          ? `Timed out after ${this.config.timeoutMs}ms`
+          : (error as any)?.cause?.message || (error as Error).message,
+      };
+    }
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher(storage, {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6"),
+  baseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || "10000"),
+});
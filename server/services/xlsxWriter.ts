@@ -0,0 +1,323 @@
+// Minimal streaming XLSX writer: one worksheet, inline strings, and just the
+// number formats an export needs. Rows are deflated straight into the output,
+// so a sheet of any length is written without holding it in memory.
+
+import { once } from "events";
+import { createDeflateRaw, deflateRawSync, type DeflateRaw } from "zlib";
+import type { Writable } from "stream";
+
+export type XlsxCellType = "text" | "integer" | "decimal" | "date";
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxCellType;
+  width?: number; // in characters
+}
+
+export type XlsxValue = string | number | Date | null | undefined;
+
+// cellXfs indexes in STYLES_XML
+const STYLE_FOR_TYPE: Record<XlsxCellType, number> = { text: 0, integer: 0, decimal: 1, date: 2 };
+const HEADER_STYLE = 3;
+
+const CONTENT_TYPES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+  `<Default Extension="xml" ContentType="application/xml"/>` +
+  `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+  `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+  `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+  `</Types>`;
+
+const ROOT_RELS_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+  `</Relationships>`;
+
+const WORKBOOK_RELS_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+  `</Relationships>`;
+
+// 0: default, 1: three decimals, 2: date and time, 3: bold header
+const STYLES_XML =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<numFmts count="2"><numFmt numFmtId="164" formatCode="0.000"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="4">` +
+  `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+  `<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>` +
+  `</cellXfs>` +
+  `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+  `</styleSheet>`;
+
+export class XlsxWriter {
+  private zip: ZipStream;
+  private rowCount = 0;
+
+  constructor(
+    out: Writable,
+    private columns: XlsxColumn[],
+    private sheetName: string = "Sheet1"
+  ) {
+    this.zip = new ZipStream(out);
+  }
+
+  async start(): Promise<void> {
+    await this.zip.addFile("[Content_Types].xml", CONTENT_TYPES_XML);
+    await this.zip.addFile("_rels/.rels", ROOT_RELS_XML);
+    await this.zip.addFile(
+      "xl/workbook.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ` +
+        `xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${escapeXml(this.sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    );
+    await this.zip.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS_XML);
+    await this.zip.addFile("xl/styles.xml", STYLES_XML);
+
+    const cols = this.columns
+      .map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.width ?? 14}" customWidth="1"/>`)
+      .join("");
+    await this.zip.openEntry("xl/worksheets/sheet1.xml");
+    // The pane keeps the header row in view while scrolling
+    await this.zip.write(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+        `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+        `<cols>${cols}</cols><sheetData>`
+    );
+    await this.writeRow(this.columns.map((column) => column.header), HEADER_STYLE);
+  }
+
+  addRow(values: XlsxValue[]): Promise<void> {
+    return this.writeRow(values);
+  }
+
+  async finish(): Promise<void> {
+    await this.zip.write(`</sheetData></worksheet>`);
+    await this.zip.closeEntry();
+    await this.zip.finish();
+  }
+
+  private writeRow(values: XlsxValue[], headerStyle?: number): Promise<void> {
+    const row = ++this.rowCount;
+    const cells = values
+      .map((value, i) => {
+        const ref = `${columnName(i)}${row}`;
+        if (value === null || value === undefined || value === "") return "";
+        if (headerStyle !== undefined) {
+          return `<c r="${ref}" s="${headerStyle}" t="inlineStr"><is><t>${escapeXml(String(value))}</t></is></c>`;
+        }
+        const type = this.columns[i]?.type ?? "text";
+        if (value instanceof Date) {
+          return `<c r="${ref}" s="${STYLE_FOR_TYPE.date}"><v>${excelSerial(value)}</v></c>`;
+        }
+        if (typeof value === "number" && Number.isFinite(value)) {
+          return `<c r="${ref}" s="${STYLE_FOR_TYPE[type]}"><v>${value}</v></c>`;
+        }
+        return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+      })
+      .join("");
+    return this.zip.write(`<row r="${row}">${cells}</row>`);
+  }
+}
+
+// A, B, ... Z, AA, AB, ...
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Days since 1899-12-30 in the server's local time, which is how Excel stores dates
+function excelSerial(date: Date): number {
+  const local = date.getTime() - date.getTimezoneOffset() * 60000;
+  return Math.round((local / 86400000 + 25569) * 1e8) / 1e8;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "") // characters XML cannot carry
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+type ZipEntry = { name: Buffer; crc: number; compressedSize: number; size: number; offset: number };
+
+// ZIP writer that emits entries as they are produced. Sizes and CRCs follow
+// each entry in a data descriptor, so nothing has to be seeked back to.
+class ZipStream {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private current: { entry: ZipEntry; deflate: DeflateRaw; done: Promise<void> } | null = null;
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor(private out: Writable) {
+    const now = new Date();
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  async addFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, "utf8");
+    const entry = this.newEntry(name);
+    const compressed = deflateRawSync(data);
+    entry.crc = crc32(data);
+    entry.size = data.length;
+    entry.compressedSize = compressed.length;
+    await this.emit(this.localHeader(entry));
+    await this.emit(compressed);
+    await this.emit(this.dataDescriptor(entry));
+  }
+
+  async openEntry(name: string): Promise<void> {
+    const entry = this.newEntry(name);
+    await this.emit(this.localHeader(entry));
+
+    const deflate = createDeflateRaw();
+    deflate.on("data", (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      if (!this.out.write(chunk)) {
+        deflate.pause();
+        waitForDrain(this.out).then(() => deflate.resume());
+      }
+    });
+    this.current = { entry, deflate, done: once(deflate, "end").then(() => undefined) };
+  }
+
+  async write(text: string): Promise<void> {
+    const { entry, deflate } = this.current!;
+    assertWritable(this.out);
+    const data = Buffer.from(text, "utf8");
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    if (!deflate.write(data)) {
+      await once(deflate, "drain");
+    }
+  }
+
+  async closeEntry(): Promise<void> {
+    const { entry, deflate, done } = this.current!;
+    this.current = null;
+    deflate.end();
+    await done;
+    await this.emit(this.dataDescriptor(entry));
+  }
+
+  async finish(): Promise<void> {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4); // version made by
+      header.writeUInt16LE(20, 6); // version needed
+      header.writeUInt16LE(0x0808, 8); // data descriptor, UTF-8 names
+      header.writeUInt16LE(8, 10); // deflate
+      header.writeUInt16LE(this.time, 12);
+      header.writeUInt16LE(this.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.emit(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.emit(end);
+  }
+
+  private newEntry(name: string): ZipEntry {
+    const entry = { name: Buffer.from(name, "utf8"), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0808, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    // CRC and sizes are left zero and given in the data descriptor
+    header.writeUInt16LE(entry.name.length, 26);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  private dataDescriptor(entry: ZipEntry): Buffer {
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    return descriptor;
+  }
+
+  private async emit(data: Buffer): Promise<void> {
+    assertWritable(this.out);
+    this.offset += data.length;
+    if (!this.out.write(data)) {
+      await waitForDrain(this.out);
+    }
+  }
+}
+
+// Resolves once the output can take more, or once it is gone (a client that
+// hung up never drains); the next write then fails in assertWritable
+export function waitForDrain(out: Writable): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", done);
+      resolve();
+    };
+    out.on("drain", done);
+    out.on("close", done);
+  });
+}
+
+export function assertWritable(out: Writable): void {
+  if (out.destroyed || out.writableEnded) {
+    throw new Error("Output stream closed");
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous: number = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,131 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { APIError } from "./apiClient";
+import { xmlRpcCall, XmlRpcFault } from "./xmlrpc";
+
+let reply: { status: number; body: string };
+let requestBody: string;
+let server: Server;
+let url: string;
+
+function methodResponse(value: string): string {
+  return `<?xml version="1.0"?>\n<methodResponse>\n  <params>\n    <param>${value}</param>\n  </params>\n</methodResponse>`;
+}
+
+beforeEach(async () => {
+  reply = { status: 200, body: methodResponse("<value><boolean>1</boolean></value>") };
+  requestBody = "";
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requestBody = body;
+      res.writeHead(reply.status, { "Content-Type": "text/xml" }).end(reply.body);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/xmlrpc/2/object`;
+});
+
+afterEach(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("xmlRpcCall", () => {
+  it("encodes every parameter type", async () => {
+    await xmlRpcCall(
+      url,
+      "execute_kw",
+      ['a<b & "c"', 42, 1.5, true, null, new Date("2025-01-02T03:04:05.678Z"), [1, "x"], { name: "v", empty: [] }],
+      1000
+    );
+
+    expect(requestBody).toBe(
+      '<?xml version="1.0"?><methodCall><methodName>execute_kw</methodName><params>' +
+        "<param><value><string>a&lt;b &amp; &quot;c&quot;</string></value></param>" +
+        "<param><value><int>42</int></value></param>" +
+        "<param><value><double>1.5</double></value></param>" +
+        "<param><value><boolean>1</boolean></value></param>" +
+        "<param><value><nil/></value></param>" +
+        "<param><value><dateTime.iso8601>20250102T03:04:05</dateTime.iso8601></value></param>" +
+        "<param><value><array><data><value><int>1</int></value><value><string>x</string></value></data></array></value></param>" +
+        "<param><value><struct><member><name>name</name><value><string>v</string></value></member>" +
+        "<member><name>empty</name><value><array><data></data></array></value></member></struct></value></param>" +
+        "</params></methodCall>"
+    );
+  });
+
+  it("decodes every value type", async () => {
+    reply.body = methodResponse(`
+      <value><struct>
+        <member><name>int</name><value><int>7</int></value></member>
+        <member><name>i4</name><value><i4>-3</i4></value></member>
+        <member><name>double</name><value><double>2.25</double></value></member>
+        <member><name>yes</name><value><boolean>1</boolean></value></member>
+        <member><name>no</name><value><boolean>0</boolean></value></member>
+        <member><name>string</name><value><string>R&amp;D &lt;1&gt; &#233;</string></value></member>
+        <member><name>untyped</name><value>plain</value></member>
+        <member><name>empty</name><value/></member>
+        <member><name>nil</name><value><nil/></value></member>
+        <member><name>date</name><value><dateTime.iso8601>20250102T03:04:05</dateTime.iso8601></value></member>
+        <member><name>base64</name><value><base64>aGVsbG8=</base64></value></member>
+        <member><name>list</name><value><array><data>
+          <value><int>1</int></value>
+          <value><array><data/></array></value>
+        </data></array></value></member>
+      </struct></value>`);
+
+    const result = await xmlRpcCall(url, "read", [], 1000);
+
+    expect(result).toEqual({
+      int: 7,
+      i4: -3,
+      double: 2.25,
+      yes: true,
+      no: false,
+      string: "R&D <1> é",
+      untyped: "plain",
+      empty: "",
+      nil: null,
+      date: new Date("2025-01-02T03:04:05Z"),
+      base64: "hello",
+      list: [1, []],
+    });
+  });
+
+  it("throws a non-retryable XmlRpcFault for a fault response", async () => {
+    reply.body = `<?xml version="1.0"?>
+      <methodResponse><fault><value><struct>
+        <member><name>faultCode</name><value><int>2</int></value></member>
+        <member><name>faultString</name><value><string>ValidationError: tag_id is required</string></value></member>
+      </struct></value></fault></methodResponse>`;
+
+    const error = await xmlRpcCall(url, "execute_kw", [], 1000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(XmlRpcFault);
+    expect(error).toMatchObject({
+      faultCode: 2,
+      faultString: "ValidationError: tag_id is required",
+      retryable: false,
+    });
+  });
+
+  it.each([
+    [503, true],
+    [404, false],
+  ])("classifies HTTP %i by retryability", async (status, retryable) => {
+    reply = { status, body: "" };
+
+    const error = await xmlRpcCall(url, "version", [], 1000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error).toMatchObject({ status, retryable });
+  });
+
+  it("rejects a malformed response", async () => {
+    reply.body = "<html>Bad gateway</html>";
+
+    await expect(xmlRpcCall(url, "version", [], 1000)).rejects.toThrow(/Malformed XML-RPC response/);
+  });
+});
@@ -0,0 +1,266 @@
+import { APIError, isRetryableStatus } from "./apiClient";
+
+// Minimal XML-RPC client over fetch: enough of the spec for Odoo's
+// /xmlrpc/2/common and /xmlrpc/2/object endpoints.
+
+export type XmlRpcValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | XmlRpcValue[]
+  | { [key: string]: XmlRpcValue };
+
+// A <fault> answer. The server understood the call and refused it, so
+// repeating the same call will not help.
+export class XmlRpcFault extends APIError {
+  constructor(
+    public readonly faultCode: number | string,
+    public readonly faultString: string
+  ) {
+    super(`XML-RPC fault ${faultCode}: ${faultString}`, false);
+    this.name = "XmlRpcFault";
+  }
+}
+
+export async function xmlRpcCall(
+  url: string,
+  method: string,
+  params: XmlRpcValue[],
+  timeoutMs: number
+): Promise<XmlRpcValue> {
+  const body =
+    `<?xml version="1.0"?><methodCall><methodName>${escapeXml(method)}</methodName><params>` +
+    params.map((param) => `<param>${encodeValue(param)}</param>`).join("") +
+    `</params></methodCall>`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "text/xml" },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    throw new APIError(
+      timedOut
+        ? `XML-RPC call ${method} to ${url} timed out after ${timeoutMs}ms`
+        : `Could not reach ${url}: ${(error as any)?.cause?.message || (error as Error).message}`,
+      true
+    );
+  }
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new APIError(
+      `XML-RPC call ${method} to ${url} failed with HTTP ${response.status}`,
+      isRetryableStatus(response.status),
+      response.status
+    );
+  }
+
+  return parseResponse(text);
+}
+
+function encodeValue(value: XmlRpcValue): string {
+  if (value === null || value === undefined) {
+    return "<value><nil/></value>";
+  }
+  if (typeof value === "boolean") {
+    return `<value><boolean>${value ? 1 : 0}</boolean></value>`;
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? `<value><int>${value}</int></value>`
+      : `<value><double>${value}</double></value>`;
+  }
+  if (typeof value === "string") {
+    return `<value><string>${escapeXml(value)}</string></value>`;
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString().replace(/\.\d{3}Z$/, "").replace(/-/g, "");
+    return `<value><dateTime.iso8601>${iso}</dateTime.iso8601></value>`;
+  }
+  if (Array.isArray(value)) {
+    return `<value><array><data>${value.map(encodeValue).join("")}</data></array></value>`;
+  }
+  const members = Object.entries(value)
+    .map(([name, member]) => `<member><name>${escapeXml(name)}</name>${encodeValue(member)}</member>`)
+    .join("");
+  return `<value><struct>${members}</struct></value>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+function parseResponse(xml: string): XmlRpcValue {
+  const reader = new XmlReader(xml.replace(/<\?xml[^>]*\?>/, ""));
+  reader.open("methodResponse");
+
+  if (reader.peekTag() === "fault") {
+    reader.open("fault");
+    const fault = reader.readValue() as { faultCode?: number; faultString?: string };
+    throw new XmlRpcFault(fault?.faultCode ?? "unknown", String(fault?.faultString ?? ""));
+  }
+
+  reader.open("params");
+  reader.open("param");
+  return reader.readValue();
+}
+
+// Walks the response one tag at a time; whitespace between tags is ignored
+class XmlReader {
+  private pos = 0;
+
+  constructor(private xml: string) {}
+
+  peekTag(): string | null {
+    this.skipWhitespace();
+    const match = /^<\/?([A-Za-z0-9_.:-]+)/.exec(this.xml.slice(this.pos, this.pos + 64));
+    return match ? match[1] : null;
+  }
+
+  isClosing(): boolean {
+    this.skipWhitespace();
+    return this.xml.startsWith("</", this.pos);
+  }
+
+  // Returns true for a self-closing tag such as <nil/>
+  open(name: string): boolean {
+    this.skipWhitespace();
+    const match = /^<([A-Za-z0-9_.:-]+)[^>]*?(\/?)>/.exec(this.xml.slice(this.pos));
+    if (!match || match[1] !== name) {
+      throw this.malformed(`<${name}>`);
+    }
+    this.pos += match[0].length;
+    return match[2] === "/";
+  }
+
+  close(name: string): void {
+    this.skipWhitespace();
+    const tag = `</${name}>`;
+    if (!this.xml.startsWith(tag, this.pos)) {
+      throw this.malformed(tag);
+    }
+    this.pos += tag.length;
+  }
+
+  readText(): string {
+    const end = this.xml.indexOf("<", this.pos);
+    if (end === -1) throw this.malformed("closing tag");
+    const text = this.xml.slice(this.pos, end);
+    this.pos = end;
+    return unescapeXml(text);
+  }
+
+  readValue(): XmlRpcValue {
+    if (this.open("value")) return "";
+
+    // An untyped <value>text</value> is a string
+    const start = this.pos;
+    const text = this.readText();
+    if (this.isClosing()) {
+      this.close("value");
+      return text;
+    }
+    this.pos = start;
+
+    const type = this.peekTag();
+    if (!type) throw this.malformed("value type");
+    const empty = this.open(type);
+    let result: XmlRpcValue;
+
+    switch (type) {
+      case "nil":
+        result = null;
+        break;
+      case "array": {
+        const items: XmlRpcValue[] = [];
+        if (!empty && !this.open("data")) {
+          while (this.peekTag() === "value" && !this.isClosing()) {
+            items.push(this.readValue());
+          }
+          this.close("data");
+        }
+        result = items;
+        break;
+      }
+      case "struct": {
+        const struct: Record<string, XmlRpcValue> = {};
+        while (!empty && this.peekTag() === "member" && !this.isClosing()) {
+          this.open("member");
+          this.open("name");
+          const name = this.readText();
+          this.close("name");
+          struct[name] = this.readValue();
+          this.close("member");
+        }
+        result = struct;
+        break;
+      }
+      default: {
+        const raw = empty ? "" : this.readText();
+        result = convertScalar(type, raw);
+      }
+    }
+
+    if (!empty) this.close(type);
+    this.close("value");
+    return result;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.xml.length && /\s/.test(this.xml[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private malformed(expected: string): APIError {
+    return new APIError(
+      `Malformed XML-RPC response: expected ${expected} at offset ${this.pos}`,
+      false
+    );
+  }
+}
+
+function convertScalar(type: string, raw: string): XmlRpcValue {
+  switch (type) {
+    case "int":
+    case "i4":
+    case "i8":
+      return parseInt(raw, 10);
+    case "double":
+      return parseFloat(raw);
+    case "boolean":
+      return raw.trim() === "1";
+    case "dateTime.iso8601": {
+      const match = /^(\d{4})-?(\d{2})-?(\d{2})T(\d{2}):(\d{2}):(\d{2})/.exec(raw.trim());
+      return match
+        ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]))
+        : raw;
+    }
+    case "base64":
+      return Buffer.from(raw.trim(), "base64").toString("utf8");
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertWeighment, LorryQueue } from "@shared/schema";
+import { createSqliteDb } from "./db";
+import { DuplicateTagPolicy } from "./services/duplicateTagPolicy";
+import { MemStorage, SqliteStorage, weighmentSortValue, type IStorage, type WeighmentHistoryFilter } from "./storage";
+
+// The same behaviour is expected of every backend; MySQL needs a server and is left out
+const backends: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["SqliteStorage", () => new SqliteStorage(createSqliteDb(":memory:"))],
+];
+
+function bag(lorryId: string, tagId: string, overrides: Partial<InsertWeighment> = {}): InsertWeighment {
+  return {
+    lorryId,
+    tagId,
+    plcWeight: 52,
+    serialWeight: 51.5,
+    finalWeight: 52,
+    tareWeight: 2,
+    netWeight: 50,
+    weightSource: "plc",
+    toleranceStatus: "good",
+    weightDifference: 0.5,
+    ...overrides,
+  };
+}
+
+describe.each(backends)("%s", (_name, create) => {
+  let storage: IStorage;
+  let lorry: LorryQueue;
+
+  beforeEach(async () => {
+    storage = create();
+    await storage.migrate();
+    const tareConfig = await storage.createTareConfig({ date: "2025-01-01", tareWeight: 2 });
+    lorry = await storage.createLorry({
+      lorryNumber: "KA-01-1234",
+      line: "Line 1",
+      lineManager: "Ravi",
+      tareConfigId: tareConfig.id,
+    });
+  });
+
+  describe("weighments", () => {
+    it("creates a weighment with its defaults filled in", async () => {
+      const weighment = await storage.createWeighment(bag(lorry.id, "TAG-1"));
+
+      expect(weighment).toMatchObject({
+        lorryId: lorry.id,
+        tagId: "TAG-1",
+        netWeight: 50,
+        status: "accepted",
+        syncStatus: "unsynced",
+        pass: null,
+        idempotencyKey: null,
+      });
+      expect(weighment.createdAt).toBeInstanceOf(Date);
+      expect(await storage.getWeighmentById(weighment.id)).toEqual(weighment);
+    });
+
+    it("lists the weighments of a lorry and of today", async () => {
+      const other = await storage.createLorry({ lorryNumber: "KA-02-9999", line: "Line 2", lineManager: "Asha" });
+      await storage.createWeighment(bag(lorry.id, "TAG-1"));
+      await storage.createWeighment(bag(lorry.id, "TAG-2"));
+      await storage.createWeighment(bag(other.id, "TAG-3"));
+
+      const lorryWeighments = await storage.getWeighmentsByLorryId(lorry.id);
+      expect(lorryWeighments.map((w) => w.tagId).sort()).toEqual(["TAG-1", "TAG-2"]);
+
+      const today = await storage.getTodaysWeighments();
+      expect(today).toHaveLength(3);
+      expect(today.find((w) => w.tagId === "TAG-3")?.lorry.lorryNumber).toBe("KA-02-9999");
+    });
+
+    it("finds a weighment by its idempotency key and rejects a second use", async () => {
+      const weighment = await storage.createWeighment(bag(lorry.id, "TAG-1", { idempotencyKey: "key-1" }));
+
+      expect((await storage.getWeighmentByIdempotencyKey("key-1"))?.id).toBe(weighment.id);
+      expect(await storage.getWeighmentByIdempotencyKey("key-2")).toBeUndefined();
+      await expect(storage.createWeighment(bag(lorry.id, "TAG-2", { idempotencyKey: "key-1" }))).rejects.toThrow();
+    });
+
+    it("updates a weighment and lists it by status", async () => {
+      const weighment = await storage.createWeighment(bag(lorry.id, "TAG-1", { status: "pending_review" }));
+      expect((await storage.getWeighmentsByStatus("pending_review")).map((w) => w.id)).toEqual([weighment.id]);
+
+      const updated = await storage.updateWeighment(weighment.id, { status: "approved", reviewedBy: "supervisor" });
+      expect(updated).toMatchObject({ status: "approved", reviewedBy: "supervisor" });
+      expect(await storage.getWeighmentsByStatus("pending_review")).toEqual([]);
+      expect(await storage.updateWeighment("missing", { status: "approved" })).toBeUndefined();
+    });
+
+    it("finds earlier weighments of a tag, leaving out uncounted ones", async () => {
+      const kept = await storage.createWeighment(bag(lorry.id, "TAG-1"));
+      await storage.createWeighment(bag(lorry.id, "TAG-1", { status: "rejected" }));
+      await storage.createWeighment(bag(lorry.id, "TAG-1", { status: "voided" }));
+      await storage.createWeighment(bag(lorry.id, "TAG-2"));
+
+      expect((await storage.findWeighmentsByTag("TAG-1")).map((w) => w.id)).toEqual([kept.id]);
+      expect(await storage.findWeighmentsByTag("TAG-1", { lorryId: "another-lorry" })).toEqual([]);
+      expect(await storage.findWeighmentsByTag("TAG-1", { since: new Date(Date.now() + 60000) })).toEqual([]);
+    });
+
+    it("lets a voided bag be weighed again under the duplicate tag policy", async () => {
+      const policy = new DuplicateTagPolicy({ action: "reject", scope: "day" });
+      const search = policy.getSearch(lorry.id);
+      const first = await storage.createWeighment(bag(lorry.id, "TAG-1"));
+      expect(policy.evaluate(await storage.findWeighmentsByTag("TAG-1", search)).outcome).toBe("reject");
+
+      await storage.updateWeighment(first.id, { status: "voided" });
+      expect(policy.evaluate(await storage.findWeighmentsByTag("TAG-1", search)).outcome).toBe("unique");
+
+      const reweighed = await storage.createWeighment(bag(lorry.id, "TAG-1"));
+      expect((await storage.findWeighmentsByTag("TAG-1", search)).map((w) => w.id)).toEqual([reweighed.id]);
+    });
+  });
+
+  describe("lorry queue", () => {
+    it("defaults a new lorry to a waiting bag lorry", async () => {
+      expect(lorry).toMatchObject({ status: "waiting", weighingMode: "bags", grossWeight: null, tareWeight: null });
+    });
+
+    it("updates the status and bag count", async () => {
+      const updated = await storage.updateLorryStatus(lorry.id, "completed", 12);
+      expect(updated).toMatchObject({ status: "completed", totalBags: 12 });
+
+      const active = await storage.updateLorryStatus(lorry.id, "active");
+      expect(active).toMatchObject({ status: "active", totalBags: 12 });
+      expect(await storage.updateLorryStatus("missing", "active")).toBeUndefined();
+    });
+
+    it("returns the queue with tare configuration and weighment count", async () => {
+      await storage.createWeighment(bag(lorry.id, "TAG-1"));
+      await storage.createWeighment(bag(lorry.id, "TAG-2"));
+
+      const [queued] = await storage.getLorryQueue();
+      expect(queued).toMatchObject({ id: lorry.id, weighmentCount: 2, tareConfig: { tareWeight: 2 } });
+      expect(await storage.getLorryById(lorry.id)).toMatchObject({ weighmentCount: 2, tareConfig: { tareWeight: 2 } });
+    });
+
+    it("removes a lorry from the queue", async () => {
+      expect(await storage.removeLorryFromQueue(lorry.id)).toBe(true);
+      expect(await storage.getLorryById(lorry.id)).toBeUndefined();
+      expect(await storage.getLorryQueue()).toEqual([]);
+    });
+
+    it("refuses to remove a lorry that has weighments", async () => {
+      await storage.createWeighment(bag(lorry.id, "TAG-1"));
+
+      await expect(storage.removeLorryFromQueue(lorry.id)).rejects.toThrow();
+      expect(await storage.getLorryById(lorry.id)).toMatchObject({ weighmentCount: 1 });
+      expect(await storage.getWeighmentsByLorryId(lorry.id)).toHaveLength(1);
+    });
+
+    it("stores the weights of a weighbridge lorry", async () => {
+      const weighbridge = await storage.createLorry({
+        lorryNumber: "KA-03-0001",
+        line: "Line 1",
+        lineManager: "Ravi",
+        weighingMode: "weighbridge",
+      });
+      const weighed = await storage.updateLorryWeights(weighbridge.id, { grossWeight: 18000, tareWeight: 7000 });
+      expect(weighed).toMatchObject({ weighingMode: "weighbridge", grossWeight: 18000, tareWeight: 7000 });
+      expect(await storage.getLorryById(weighbridge.id)).toMatchObject({ grossWeight: 18000, tareWeight: 7000 });
+    });
+  });
+
+  describe("tare configuration", () => {
+    it("looks a configuration up by date and updates it", async () => {
+      const config = await storage.getTareConfigByDate("2025-01-01");
+      expect(config).toMatchObject({ tareWeight: 2 });
+      expect(await storage.getTareConfigByDate("2025-01-02")).toBeUndefined();
+
+      const updated = await storage.updateTareConfig(config!.id, { tareWeight: 2.5 });
+      expect(updated).toMatchObject({ date: "2025-01-01", tareWeight: 2.5 });
+      expect(await storage.getTareConfigByDate("2025-01-01")).toMatchObject({ tareWeight: 2.5 });
+      expect(await storage.updateTareConfig("missing", { tareWeight: 3 })).toBeUndefined();
+    });
+  });
+
+  describe("stats", () => {
+    it("counts today's counted weighments only", async () => {
+      await storage.createWeighment(bag(lorry.id, "TAG-1", { netWeight: 50 }));
+      await storage.createWeighment(bag(lorry.id, "TAG-2", { netWeight: 49, toleranceStatus: "warning" }));
+      await storage.createWeighment(bag(lorry.id, "TAG-3", { netWeight: 10, status: "voided" }));
+      await storage.createWeighment(bag(lorry.id, "TAG-4", { netWeight: 10, status: "rejected" }));
+
+      expect(await storage.getWeighmentStats()).toEqual({
+        totalWeighments: 2,
+        toleranceViolations: 1,
+        avgWeight: 49.5,
+      });
+    });
+
+    it("aggregates counted weighments by lorry field", async () => {
+      const other = await storage.createLorry({ lorryNumber: "KA-02-9999", line: "Line 2", lineManager: "Asha" });
+      await storage.createWeighment(bag(lorry.id, "TAG-1", { netWeight: 50 }));
+      await storage.createWeighment(bag(lorry.id, "TAG-2", { netWeight: 48, toleranceStatus: "error" }));
+      await storage.createWeighment(bag(other.id, "TAG-3", { netWeight: 51, plcWeight: null }));
+      await storage.createWeighment(bag(other.id, "TAG-4", { status: "voided" }));
+
+      const byLine = await storage.getWeighmentAggregates({}, "line");
+      expect(byLine.sort((a, b) => String(a.key).localeCompare(String(b.key)))).toEqual([
+        { key: "Line 1", bags: 2, totalNet: 98, violations: 1, plcSerialDiffSum: 1, plcSerialCompared: 2 },
+        { key: "Line 2", bags: 1, totalNet: 51, violations: 0, plcSerialDiffSum: 0, plcSerialCompared: 0 },
+      ]);
+    });
+  });
+
+  describe("history", () => {
+    const page = (overrides: Partial<WeighmentHistoryFilter> = {}): WeighmentHistoryFilter => ({
+      sort: "netWeight",
+      order: "desc",
+      limit: 2,
+      ...overrides,
+    });
+
+    it("pages through every row once with the cursor", async () => {
+      // Equal net weights exercise the id tiebreaker
+      for (const [tagId, netWeight] of [["A", 50], ["B", 49], ["C", 50], ["D", 48], ["E", 50]] as const) {
+        await storage.createWeighment(bag(lorry.id, tagId, { netWeight }));
+      }
+
+      const seen: string[] = [];
+      let filter = page();
+      for (;;) {
+        const rows = await storage.getWeighmentHistory(filter);
+        seen.push(...rows.map((w) => w.tagId));
+        if (rows.length < filter.limit) break;
+        const last = rows[rows.length - 1];
+        filter = page({ after: { value: weighmentSortValue(last, filter.sort), id: last.id } });
+      }
+
+      expect(seen).toHaveLength(5);
+      expect(new Set(seen).size).toBe(5);
+      expect(seen.slice(3)).toEqual(["B", "D"]);
+    });
+
+    it("continues a createdAt cursor from epoch milliseconds", async () => {
+      for (const tagId of ["A", "B", "C"]) {
+        await storage.createWeighment(bag(lorry.id, tagId));
+      }
+
+      const first = await storage.getWeighmentHistory(page({ sort: "createdAt", order: "asc" }));
+      const last = first[first.length - 1];
+      const rest = await storage.getWeighmentHistory(
+        page({ sort: "createdAt", order: "asc", after: { value: weighmentSortValue(last, "createdAt"), id: last.id } })
+      );
+
+      expect([...first, ...rest].map((w) => w.tagId).sort()).toEqual(["A", "B", "C"]);
+    });
+
+    it("filters by lorry fields and tag substring", async () => {
+      const other = await storage.createLorry({ lorryNumber: "KA-02-9999", line: "Line 2", lineManager: "Asha" });
+      await storage.createWeighment(bag(lorry.id, "TAG-100"));
+      await storage.createWeighment(bag(lorry.id, "TAG-200"));
+      await storage.createWeighment(bag(other.id, "TAG-101"));
+
+      const byLine = await storage.getWeighmentHistory(page({ limit: 10, line: "Line 2" }));
+      expect(byLine.map((w) => w.tagId)).toEqual(["TAG-101"]);
+      expect(byLine[0].lorry.lineManager).toBe("Asha");
+
+      const byTag = await storage.getWeighmentHistory(page({ limit: 10, tagId: "tag-10", lorryNumber: "ka-01" }));
+      expect(byTag.map((w) => w.tagId)).toEqual(["TAG-100"]);
+    });
+  });
+});
@@ -12,9 +12,79 @@ import {
   type SystemActivity,
   type InsertSystemActivity,
   type LorryWithTareConfig,
-  type WeighmentWithLorry
+  type WeighmentWithLorry,
+  type WeighmentSortField,
+  type StatsBucket,
+  type StatsBreakdown,
+  type WeighmentAudit,
+  type InsertWeighmentAudit,
+  type SyncJob,
+  type InsertSyncJob,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  UNCOUNTED_WEIGHMENT_STATUSES,
+  users,
+  tareConfigurations,
+  lorryQueue,
+  weighments,
+  weighmentAudits,
+  syncJobs,
+  webhookSubscriptions,
+  webhookDeliveries,
+  systemSettings,
+  systemActivities
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, notInArray, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import * as sqlite from "@shared/sqliteSchema";
+import { createDb, createSqliteDb, type MySqlDatabase, type SqliteDatabase } from "./db";
+import { migrateMySql, migrateSqlite } from "./migrate";
+
+export type LorryWeights = Pick<LorryQueue, "grossWeight" | "tareWeight">;
+
+export type SyncJobFilter = {
+  status?: string;
+  weighmentId?: string;
+  dueBy?: Date;
+  limit?: number;
+};
+
+export type WeighmentHistoryFilter = {
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+  line?: string;
+  lineManager?: string;
+  lorryNumber?: string; // case-insensitive substring
+  tagId?: string; // case-insensitive substring
+  toleranceStatus?: string;
+  weightSource?: string;
+  sort: WeighmentSortField;
+  order: "asc" | "desc";
+  // Continue after this row: its sort value (epoch ms for createdAt) and id
+  after?: { value: string | number; id: string };
+  limit: number;
+};
+
+export type WeighmentStatsFilter = Pick<WeighmentHistoryFilter, "from" | "to" | "line" | "lineManager" | "lorryNumber">;
+
+// Raw sums per group; the route derives averages and rates from them so
+// buckets can be added up without losing precision
+export type WeighmentAggregate = {
+  key: string | number; // bucket start in epoch ms, or the line, manager or lorry number
+  bags: number;
+  totalNet: number;
+  violations: number;
+  plcSerialDiffSum: number;
+  plcSerialCompared: number;
+};
+
+export type WebhookDeliveryFilter = {
+  subscriptionId?: string;
+  status?: string;
+  limit?: number;
+};
 
 export interface IStorage {
   // Users
@@ -32,17 +102,57 @@ export interface IStorage {
   getLorryById(id: string): Promise<LorryWithTareConfig | undefined>;
   createLorry(lorry: InsertLorryQueue): Promise<LorryQueue>;
   updateLorryStatus(id: string, status: string, totalBags?: number): Promise<LorryQueue | undefined>;
+  // Gross and tare of a weighbridge lorry, as settled from its weighments
+  updateLorryWeights(id: string, weights: LorryWeights): Promise<LorryQueue | undefined>;
+  // Throws for a lorry that has weighments; they keep their lorry
   removeLorryFromQueue(id: string): Promise<boolean>;
 
   // Weighments
   getWeighmentsByLorryId(lorryId: string): Promise<Weighment[]>;
   getTodaysWeighments(): Promise<WeighmentWithLorry[]>;
+  getWeighmentById(id: string): Promise<Weighment | undefined>;
+  getWeighmentByIdempotencyKey(key: string): Promise<Weighment | undefined>;
+  getWeighmentsByStatus(status: string): Promise<WeighmentWithLorry[]>;
+  // One page of history, ordered by the sort field with id as the tiebreaker
+  getWeighmentHistory(filter: WeighmentHistoryFilter): Promise<WeighmentWithLorry[]>;
+  // Earlier counted weighments of a tag, optionally limited to a lorry or a start time
+  findWeighmentsByTag(tagId: string, filter?: { lorryId?: string; since?: Date }): Promise<Weighment[]>;
   createWeighment(weighment: InsertWeighment): Promise<Weighment>;
+  updateWeighment(id: string, updates: Partial<InsertWeighment>): Promise<Weighment | undefined>;
   getWeighmentStats(): Promise<{
     totalWeighments: number;
     toleranceViolations: number;
     avgWeight: number;
   }>;
+  // Counted weighments in the range, grouped by time bucket or lorry field
+  getWeighmentAggregates(filter: WeighmentStatsFilter, groupBy: StatsBucket | StatsBreakdown): Promise<WeighmentAggregate[]>;
+
+  // Weighment Audits
+  getWeighmentAudits(weighmentId: string): Promise<WeighmentAudit[]>;
+  createWeighmentAudit(audit: InsertWeighmentAudit): Promise<WeighmentAudit>;
+
+  // Sync Outbox
+  getSyncJobById(id: string): Promise<SyncJob | undefined>;
+  // Oldest first; dueBy limits the result to jobs whose nextAttemptAt has passed
+  getSyncJobs(filter?: SyncJobFilter): Promise<SyncJob[]>;
+  createSyncJob(job: InsertSyncJob): Promise<SyncJob>;
+  updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob | undefined>;
+  deleteSyncJobs(statuses: string[]): Promise<number>;
+
+  // Webhooks
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  // Also removes the subscription's delivery history
+  deleteWebhookSubscription(id: string): Promise<boolean>;
+  getWebhookDeliveryById(id: string): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  getWebhookDeliveries(filter?: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose nextAttemptAt has passed, oldest first
+  getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]>;
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined>;
 
   // System Settings
   getSettingsByCategory(category: string): Promise<SystemSettings | undefined>;
@@ -51,6 +161,9 @@ export interface IStorage {
   // System Activities
   getRecentActivities(limit?: number): Promise<SystemActivity[]>;
   createActivity(activity: InsertSystemActivity): Promise<SystemActivity>;
+
+  // Schema
+  migrate(): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
@@ -58,6 +171,10 @@ export class MemStorage implements IStorage {
   private tareConfigs: Map<string, TareConfiguration>;
   private lorryQueue: Map<string, LorryQueue>;
   private weighments: Map<string, Weighment>;
+  private weighmentAudits: Map<string, WeighmentAudit>;
+  private syncJobs: Map<string, SyncJob>;
+  private webhookSubscriptions: Map<string, WebhookSubscription>;
+  private webhookDeliveries: Map<string, WebhookDelivery>;
   private systemSettings: Map<string, SystemSettings>;
   private systemActivities: Map<string, SystemActivity>;
 
@@ -66,6 +183,10 @@ export class MemStorage implements IStorage {
     this.tareConfigs = new Map();
     this.lorryQueue = new Map();
     this.weighments = new Map();
+    this.weighmentAudits = new Map();
+    this.syncJobs = new Map();
+    this.webhookSubscriptions = new Map();
+    this.webhookDeliveries = new Map();
     this.systemSettings = new Map();
     this.systemActivities = new Map();
     this.loadSettingsFromDisk();
@@ -164,6 +285,9 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       phone: lorry.phone ?? null,
       tareConfigId: lorry.tareConfigId ?? null,
+      weighingMode: lorry.weighingMode || "bags",
+      grossWeight: lorry.grossWeight ?? null,
+      tareWeight: lorry.tareWeight ?? null,
       totalBags: lorry.totalBags ?? null
     };
     this.lorryQueue.set(id, newLorry);
@@ -183,7 +307,20 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async updateLorryWeights(id: string, weights: LorryWeights): Promise<LorryQueue | undefined> {
+    const existing = this.lorryQueue.get(id);
+    if (!existing) return undefined;
+
+    const updated: LorryQueue = { ...existing, ...weights };
+    this.lorryQueue.set(id, updated);
+    return updated;
+  }
+
   async removeLorryFromQueue(id: string): Promise<boolean> {
+    // Mirror the weighments foreign key the database backends enforce
+    if (Array.from(this.weighments.values()).some(w => w.lorryId === id)) {
+      throw new Error(`Lorry ${id} has weighments`);
+    }
     return this.lorryQueue.delete(id);
   }
 
@@ -206,7 +343,72 @@ export class MemStorage implements IStorage {
     }));
   }
 
+  async getWeighmentById(id: string): Promise<Weighment | undefined> {
+    return this.weighments.get(id);
+  }
+
+  async getWeighmentByIdempotencyKey(key: string): Promise<Weighment | undefined> {
+    return Array.from(this.weighments.values()).find(w => w.idempotencyKey === key);
+  }
+
+  async getWeighmentsByStatus(status: string): Promise<WeighmentWithLorry[]> {
+    return Array.from(this.weighments.values())
+      .filter(w => w.status === status)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .map(weighment => ({
+        ...weighment,
+        lorry: this.lorryQueue.get(weighment.lorryId)!
+      }));
+  }
+
+  async getWeighmentHistory(filter: WeighmentHistoryFilter): Promise<WeighmentWithLorry[]> {
+    const contains = (value: string, search?: string) =>
+      !search || value.toLowerCase().includes(search.toLowerCase());
+    const direction = filter.order === "asc" ? 1 : -1;
+    const compare = (a: WeighmentWithLorry, b: { value: string | number; id: string }) => {
+      const value = weighmentSortValue(a, filter.sort);
+      if (value !== b.value) return (value < b.value ? -1 : 1) * direction;
+      return (a.id < b.id ? -1 : a.id > b.id ? 1 : 0) * direction;
+    };
+
+    return Array.from(this.weighments.values())
+      .map(weighment => ({ ...weighment, lorry: this.lorryQueue.get(weighment.lorryId)! }))
+      .filter(w => {
+        const createdAt = w.createdAt?.getTime() || 0;
+        return (
+          !!w.lorry &&
+          (!filter.from || createdAt >= filter.from.getTime()) &&
+          (!filter.to || createdAt < filter.to.getTime()) &&
+          (!filter.line || w.lorry.line === filter.line) &&
+          (!filter.lineManager || w.lorry.lineManager === filter.lineManager) &&
+          contains(w.lorry.lorryNumber, filter.lorryNumber) &&
+          contains(w.tagId, filter.tagId) &&
+          (!filter.toleranceStatus || w.toleranceStatus === filter.toleranceStatus) &&
+          (!filter.weightSource || w.weightSource === filter.weightSource) &&
+          (!filter.after || compare(w, filter.after) > 0)
+        );
+      })
+      .sort((a, b) => compare(a, { value: weighmentSortValue(b, filter.sort), id: b.id }))
+      .slice(0, filter.limit);
+  }
+
+  async findWeighmentsByTag(tagId: string, filter: { lorryId?: string; since?: Date } = {}): Promise<Weighment[]> {
+    return Array.from(this.weighments.values())
+      .filter(w =>
+        w.tagId === tagId &&
+        !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status) &&
+        (!filter.lorryId || w.lorryId === filter.lorryId) &&
+        (!filter.since || (w.createdAt?.getTime() || 0) >= filter.since.getTime())
+      )
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
   async createWeighment(weighment: InsertWeighment): Promise<Weighment> {
+    // Mirror the unique index the database backends enforce
+    if (weighment.idempotencyKey && await this.getWeighmentByIdempotencyKey(weighment.idempotencyKey)) {
+      throw new Error(`Duplicate idempotency key: ${weighment.idempotencyKey}`);
+    }
+
     const id = randomUUID();
     const newWeighment: Weighment = { 
       ...weighment, 
@@ -214,12 +416,30 @@ export class MemStorage implements IStorage {
       plcWeight: weighment.plcWeight ?? null,
       serialWeight: weighment.serialWeight ?? null,
       weightDifference: weighment.weightDifference ?? null,
+      status: weighment.status ?? "accepted",
+      reviewedBy: weighment.reviewedBy ?? null,
+      reviewReason: weighment.reviewReason ?? null,
+      reviewedAt: weighment.reviewedAt ?? null,
+      originalFinalWeight: weighment.originalFinalWeight ?? null,
+      syncStatus: weighment.syncStatus ?? "unsynced",
+      syncedAt: weighment.syncedAt ?? null,
+      idempotencyKey: weighment.idempotencyKey ?? null,
+      pass: weighment.pass ?? null,
       createdAt: new Date() 
     };
     this.weighments.set(id, newWeighment);
     return newWeighment;
   }
 
+  async updateWeighment(id: string, updates: Partial<InsertWeighment>): Promise<Weighment | undefined> {
+    const existing = this.weighments.get(id);
+    if (!existing) return undefined;
+
+    const updated: Weighment = { ...existing, ...updates };
+    this.weighments.set(id, updated);
+    return updated;
+  }
+
   async getWeighmentStats(): Promise<{
     totalWeighments: number;
     toleranceViolations: number;
@@ -227,7 +447,8 @@ export class MemStorage implements IStorage {
   }> {
     const today = new Date().toISOString().split('T')[0];
     const todaysWeighments = Array.from(this.weighments.values())
-      .filter(w => w.createdAt?.toISOString().startsWith(today));
+      .filter(w => w.createdAt?.toISOString().startsWith(today))
+      .filter(w => !UNCOUNTED_WEIGHMENT_STATUSES.includes(w.status));
 
     const totalWeighments = todaysWeighments.length;
     const toleranceViolations = todaysWeighments
@@ -244,6 +465,199 @@ export class MemStorage implements IStorage {
     };
   }
 
+  async getWeighmentAggregates(
+    filter: WeighmentStatsFilter,
+    groupBy: StatsBucket | StatsBreakdown
+  ): Promise<WeighmentAggregate[]> {
+    const lorryNumber = filter.lorryNumber?.toLowerCase();
+    const groups = new Map<string | number, WeighmentAggregate>();
+
+    for (const weighment of Array.from(this.weighments.values())) {
+      const lorry = this.lorryQueue.get(weighment.lorryId);
+      const createdAt = weighment.createdAt?.getTime() || 0;
+      if (
+        !lorry ||
+        UNCOUNTED_WEIGHMENT_STATUSES.includes(weighment.status) ||
+        (filter.from && createdAt < filter.from.getTime()) ||
+        (filter.to && createdAt >= filter.to.getTime()) ||
+        (filter.line && lorry.line !== filter.line) ||
+        (filter.lineManager && lorry.lineManager !== filter.lineManager) ||
+        (lorryNumber && !lorry.lorryNumber.toLowerCase().includes(lorryNumber))
+      ) {
+        continue;
+      }
+
+      const key = groupBy in STATS_BUCKET_SIZES
+        ? bucketStart(createdAt, groupBy as StatsBucket)
+        : lorry[groupBy as StatsBreakdown];
+      const group = groups.get(key) ?? { key, bags: 0, totalNet: 0, violations: 0, plcSerialDiffSum: 0, plcSerialCompared: 0 };
+      group.bags++;
+      group.totalNet += weighment.netWeight;
+      if (weighment.toleranceStatus !== "good") group.violations++;
+      if (weighment.plcWeight != null && weighment.serialWeight != null) {
+        group.plcSerialDiffSum += weighment.plcWeight - weighment.serialWeight;
+        group.plcSerialCompared++;
+      }
+      groups.set(key, group);
+    }
+
+    return Array.from(groups.values());
+  }
+
+  // Weighment Audits
+  async getWeighmentAudits(weighmentId: string): Promise<WeighmentAudit[]> {
+    return Array.from(this.weighmentAudits.values())
+      .filter(a => a.weighmentId === weighmentId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async createWeighmentAudit(audit: InsertWeighmentAudit): Promise<WeighmentAudit> {
+    const id = randomUUID();
+    const newAudit: WeighmentAudit = {
+      ...audit,
+      id,
+      createdAt: new Date()
+    };
+    this.weighmentAudits.set(id, newAudit);
+    return newAudit;
+  }
+
+  // Sync Outbox
+  async getSyncJobById(id: string): Promise<SyncJob | undefined> {
+    return this.syncJobs.get(id);
+  }
+
+  async getSyncJobs(filter: SyncJobFilter = {}): Promise<SyncJob[]> {
+    const jobs = Array.from(this.syncJobs.values())
+      .filter(j =>
+        (!filter.status || j.status === filter.status) &&
+        (!filter.weighmentId || j.weighmentId === filter.weighmentId) &&
+        (!filter.dueBy || j.nextAttemptAt.getTime() <= filter.dueBy.getTime())
+      )
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+    return filter.limit ? jobs.slice(0, filter.limit) : jobs;
+  }
+
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    const id = randomUUID();
+    const newJob: SyncJob = {
+      ...job,
+      id,
+      status: job.status ?? "pending",
+      attempts: job.attempts ?? 0,
+      lastError: job.lastError ?? null,
+      nextAttemptAt: job.nextAttemptAt ?? new Date(),
+      completedAt: job.completedAt ?? null,
+      createdAt: new Date()
+    };
+    this.syncJobs.set(id, newJob);
+    return newJob;
+  }
+
+  async updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob | undefined> {
+    const existing = this.syncJobs.get(id);
+    if (!existing) return undefined;
+
+    const updated: SyncJob = { ...existing, ...updates };
+    this.syncJobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteSyncJobs(statuses: string[]): Promise<number> {
+    let deleted = 0;
+    Array.from(this.syncJobs.values()).forEach(job => {
+      if (statuses.includes(job.status) && this.syncJobs.delete(job.id)) {
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values());
+  }
+
+  async getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptions.get(id);
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const id = randomUUID();
+    const newSubscription: WebhookSubscription = {
+      ...subscription,
+      id,
+      active: subscription.active ?? true,
+      description: subscription.description ?? null,
+      updatedAt: new Date()
+    };
+    this.webhookSubscriptions.set(id, newSubscription);
+    return newSubscription;
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    const existing = this.webhookSubscriptions.get(id);
+    if (!existing) return undefined;
+
+    const updated: WebhookSubscription = { ...existing, ...updates, updatedAt: new Date() };
+    this.webhookSubscriptions.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    Array.from(this.webhookDeliveries.values()).forEach(delivery => {
+      if (delivery.subscriptionId === id) this.webhookDeliveries.delete(delivery.id);
+    });
+    return this.webhookSubscriptions.delete(id);
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const deliveries = Array.from(this.webhookDeliveries.values())
+      .filter(d =>
+        (!filter.subscriptionId || d.subscriptionId === filter.subscriptionId) &&
+        (!filter.status || d.status === filter.status)
+      )
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return filter.limit ? deliveries.slice(0, filter.limit) : deliveries;
+  }
+
+  async getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(d => d.status === "pending" && d.nextAttemptAt.getTime() <= dueBy.getTime())
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    const newDelivery: WebhookDelivery = {
+      ...delivery,
+      id,
+      status: delivery.status ?? "pending",
+      attempts: delivery.attempts ?? 0,
+      responseStatus: delivery.responseStatus ?? null,
+      lastError: delivery.lastError ?? null,
+      nextAttemptAt: delivery.nextAttemptAt ?? new Date(),
+      deliveredAt: delivery.deliveredAt ?? null,
+      createdAt: new Date()
+    };
+    this.webhookDeliveries.set(id, newDelivery);
+    return newDelivery;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+
+    const updated: WebhookDelivery = { ...existing, ...updates };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
   // System Settings
   async getSettingsByCategory(category: string): Promise<SystemSettings | undefined> {
     return Array.from(this.systemSettings.values()).find(
@@ -298,6 +712,11 @@ export class MemStorage implements IStorage {
     return newActivity;
   }
 
+  // Schema
+  async migrate(): Promise<void> {
+    // Nothing to migrate for in-memory storage
+  }
+
   private settingsFilePath(): string {
     return process.env.SETTINGS_PATH || './.data/settings.json';
   }
@@ -331,4 +750,1124 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+// The value a history page is ordered by; dates become epoch ms so cursors stay plain JSON
+export function weighmentSortValue(weighment: Weighment, sort: WeighmentSortField): string | number {
+  return sort === "createdAt" ? weighment.createdAt?.getTime() || 0 : weighment[sort];
+}
+
+// Bucket widths in ms. ISO weeks start on Monday, and the epoch fell on a
+// Thursday, so week buckets are shifted by four days.
+export const STATS_BUCKET_SIZES: Record<StatsBucket, { size: number; offset: number }> = {
+  hour: { size: 3600000, offset: 0 },
+  day: { size: 86400000, offset: 0 },
+  week: { size: 604800000, offset: 4 * 86400000 },
+};
+
+export function bucketStart(time: number, bucket: StatsBucket): number {
+  const { size, offset } = STATS_BUCKET_SIZES[bucket];
+  return Math.floor((time - offset) / size) * size + offset;
+}
+
+// LIKE with % and _ escaped; case-insensitive under MySQL's default collation and for ASCII in SQLite
+function containsIgnoreCase(column: AnyColumn, search: string): SQL {
+  const pattern = `%${search.replace(/[!%_]/g, (c) => `!${c}`)}%`;
+  return sql`lower(${column}) like lower(${pattern}) escape '!'`;
+}
+
+// Rows strictly after the cursor in (sort column, id) order
+function keysetAfter(sortColumn: AnyColumn, idColumn: AnyColumn, filter: WeighmentHistoryFilter): SQL | undefined {
+  const { value, id } = filter.after!;
+  const cursorValue = filter.sort === "createdAt" ? new Date(value) : value;
+  const beyond = filter.order === "asc" ? gt : lt;
+  return or(beyond(sortColumn, cursorValue), and(eq(sortColumn, cursorValue), beyond(idColumn, id)));
+}
+
+// Start/end of the current UTC day, matching MemStorage's ISO date prefix check
+function todayRange(): [Date, Date] {
+  const start = new Date();
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return [start, end];
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: MySqlDatabase) {}
+
+  // Schema
+  async migrate(): Promise<void> {
+    await migrateMySql(this.db);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    await this.db.insert(users).values({ ...insertUser, id });
+    return (await this.getUser(id))!;
+  }
+
+  // Tare Configurations
+  async getTareConfigByDate(date: string): Promise<TareConfiguration | undefined> {
+    const [config] = await this.db
+      .select()
+      .from(tareConfigurations)
+      .where(eq(tareConfigurations.date, date))
+      .orderBy(desc(tareConfigurations.createdAt))
+      .limit(1);
+    return config;
+  }
+
+  async createTareConfig(config: InsertTareConfiguration): Promise<TareConfiguration> {
+    const id = randomUUID();
+    await this.db.insert(tareConfigurations).values({ ...config, id });
+    return (await this.getTareConfigById(id))!;
+  }
+
+  async updateTareConfig(id: string, config: Partial<InsertTareConfiguration>): Promise<TareConfiguration | undefined> {
+    const existing = await this.getTareConfigById(id);
+    if (!existing) return undefined;
+
+    // created_at is ON UPDATE CURRENT_TIMESTAMP, so pin it explicitly
+    await this.db
+      .update(tareConfigurations)
+      .set({ ...config, createdAt: existing.createdAt })
+      .where(eq(tareConfigurations.id, id));
+    return this.getTareConfigById(id);
+  }
+
+  private async getTareConfigById(id: string): Promise<TareConfiguration | undefined> {
+    const [config] = await this.db
+      .select()
+      .from(tareConfigurations)
+      .where(eq(tareConfigurations.id, id));
+    return config;
+  }
+
+  // Lorry Queue
+  async getLorryQueue(): Promise<LorryWithTareConfig[]> {
+    const rows = await this.db
+      .select({ lorry: lorryQueue, tareConfig: tareConfigurations })
+      .from(lorryQueue)
+      .leftJoin(tareConfigurations, eq(lorryQueue.tareConfigId, tareConfigurations.id))
+      .orderBy(asc(lorryQueue.createdAt));
+
+    const counts = await this.db
+      .select({ lorryId: weighments.lorryId, count: count() })
+      .from(weighments)
+      .groupBy(weighments.lorryId);
+    const countByLorry = new Map(counts.map(c => [c.lorryId, c.count]));
+
+    return rows.map(({ lorry, tareConfig }) => ({
+      ...lorry,
+      tareConfig: tareConfig ?? undefined,
+      weighmentCount: countByLorry.get(lorry.id) ?? 0
+    }));
+  }
+
+  async getLorryById(id: string): Promise<LorryWithTareConfig | undefined> {
+    const [row] = await this.db
+      .select({ lorry: lorryQueue, tareConfig: tareConfigurations })
+      .from(lorryQueue)
+      .leftJoin(tareConfigurations, eq(lorryQueue.tareConfigId, tareConfigurations.id))
+      .where(eq(lorryQueue.id, id));
+    if (!row) return undefined;
+
+    const [{ weighmentCount }] = await this.db
+      .select({ weighmentCount: count() })
+      .from(weighments)
+      .where(eq(weighments.lorryId, id));
+
+    return {
+      ...row.lorry,
+      tareConfig: row.tareConfig ?? undefined,
+      weighmentCount
+    };
+  }
+
+  async createLorry(lorry: InsertLorryQueue): Promise<LorryQueue> {
+    const id = randomUUID();
+    await this.db.insert(lorryQueue).values({
+      ...lorry,
+      id,
+      status: lorry.status || "waiting"
+    });
+    const [created] = await this.db.select().from(lorryQueue).where(eq(lorryQueue.id, id));
+    return created;
+  }
+
+  async updateLorryStatus(id: string, status: string, totalBags?: number): Promise<LorryQueue | undefined> {
+    const [existing] = await this.db.select().from(lorryQueue).where(eq(lorryQueue.id, id));
+    if (!existing) return undefined;
+
+    // created_at is ON UPDATE CURRENT_TIMESTAMP; pin it so the queue order is stable
+    await this.db
+      .update(lorryQueue)
+      .set({
+        status,
+        createdAt: existing.createdAt,
+        ...(totalBags !== undefined && { totalBags })
+      })
+      .where(eq(lorryQueue.id, id));
+
+    const [updated] = await this.db.select().from(lorryQueue).where(eq(lorryQueue.id, id));
+    return updated;
+  }
+
+  async updateLorryWeights(id: string, weights: LorryWeights): Promise<LorryQueue | undefined> {
+    const [existing] = await this.db.select().from(lorryQueue).where(eq(lorryQueue.id, id));
+    if (!existing) return undefined;
+
+    await this.db
+      .update(lorryQueue)
+      .set({ ...weights, createdAt: existing.createdAt })
+      .where(eq(lorryQueue.id, id));
+
+    const [updated] = await this.db.select().from(lorryQueue).where(eq(lorryQueue.id, id));
+    return updated;
+  }
+
+  async removeLorryFromQueue(id: string): Promise<boolean> {
+    // Lorries with recorded weighments are protected by the weighments FK and will throw here
+    const [result] = await this.db.delete(lorryQueue).where(eq(lorryQueue.id, id));
+    return result.affectedRows > 0;
+  }
+
+  // Weighments
+  async getWeighmentsByLorryId(lorryId: string): Promise<Weighment[]> {
+    return this.db
+      .select()
+      .from(weighments)
+      .where(eq(weighments.lorryId, lorryId))
+      .orderBy(desc(weighments.createdAt));
+  }
+
+  async getTodaysWeighments(): Promise<WeighmentWithLorry[]> {
+    const [start, end] = todayRange();
+    const rows = await this.db
+      .select({ weighment: weighments, lorry: lorryQueue })
+      .from(weighments)
+      .innerJoin(lorryQueue, eq(weighments.lorryId, lorryQueue.id))
+      .where(and(gte(weighments.createdAt, start), lt(weighments.createdAt, end)))
+      .orderBy(desc(weighments.createdAt));
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async getWeighmentById(id: string): Promise<Weighment | undefined> {
+    const [weighment] = await this.db.select().from(weighments).where(eq(weighments.id, id));
+    return weighment;
+  }
+
+  async getWeighmentByIdempotencyKey(key: string): Promise<Weighment | undefined> {
+    const [weighment] = await this.db.select().from(weighments).where(eq(weighments.idempotencyKey, key));
+    return weighment;
+  }
+
+  async getWeighmentsByStatus(status: string): Promise<WeighmentWithLorry[]> {
+    const rows = await this.db
+      .select({ weighment: weighments, lorry: lorryQueue })
+      .from(weighments)
+      .innerJoin(lorryQueue, eq(weighments.lorryId, lorryQueue.id))
+      .where(eq(weighments.status, status))
+      .orderBy(asc(weighments.createdAt));
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async getWeighmentHistory(filter: WeighmentHistoryFilter): Promise<WeighmentWithLorry[]> {
+    const sortColumn = {
+      createdAt: weighments.createdAt,
+      netWeight: weighments.netWeight,
+      finalWeight: weighments.finalWeight,
+      tagId: weighments.tagId,
+    }[filter.sort];
+    const order = filter.order === "asc" ? asc : desc;
+
+    const rows = await this.db
+      .select({ weighment: weighments, lorry: lorryQueue })
+      .from(weighments)
+      .innerJoin(lorryQueue, eq(weighments.lorryId, lorryQueue.id))
+      .where(and(
+        filter.from ? gte(weighments.createdAt, filter.from) : undefined,
+        filter.to ? lt(weighments.createdAt, filter.to) : undefined,
+        filter.line ? eq(lorryQueue.line, filter.line) : undefined,
+        filter.lineManager ? eq(lorryQueue.lineManager, filter.lineManager) : undefined,
+        filter.lorryNumber ? containsIgnoreCase(lorryQueue.lorryNumber, filter.lorryNumber) : undefined,
+        filter.tagId ? containsIgnoreCase(weighments.tagId, filter.tagId) : undefined,
+        filter.toleranceStatus ? eq(weighments.toleranceStatus, filter.toleranceStatus) : undefined,
+        filter.weightSource ? eq(weighments.weightSource, filter.weightSource) : undefined,
+        filter.after ? keysetAfter(sortColumn, weighments.id, filter) : undefined
+      ))
+      .orderBy(order(sortColumn), order(weighments.id))
+      .limit(filter.limit);
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async findWeighmentsByTag(tagId: string, filter: { lorryId?: string; since?: Date } = {}): Promise<Weighment[]> {
+    return this.db
+      .select()
+      .from(weighments)
+      .where(and(
+        eq(weighments.tagId, tagId),
+        notInArray(weighments.status, UNCOUNTED_WEIGHMENT_STATUSES),
+        filter.lorryId ? eq(weighments.lorryId, filter.lorryId) : undefined,
+        filter.since ? gte(weighments.createdAt, filter.since) : undefined
+      ))
+      .orderBy(asc(weighments.createdAt));
+  }
+
+  async createWeighment(weighment: InsertWeighment): Promise<Weighment> {
+    const id = randomUUID();
+    await this.db.insert(weighments).values({ ...weighment, id });
+    return (await this.getWeighmentById(id))!;
+  }
+
+  async updateWeighment(id: string, updates: Partial<InsertWeighment>): Promise<Weighment | undefined> {
+    const existing = await this.getWeighmentById(id);
+    if (!existing) return undefined;
+
+    // created_at is ON UPDATE CURRENT_TIMESTAMP; pin it to the original weighing time
+    await this.db
+      .update(weighments)
+      .set({ ...updates, createdAt: existing.createdAt })
+      .where(eq(weighments.id, id));
+    return this.getWeighmentById(id);
+  }
+
+  async getWeighmentStats(): Promise<{
+    totalWeighments: number;
+    toleranceViolations: number;
+    avgWeight: number;
+  }> {
+    const [start, end] = todayRange();
+    const [row] = await this.db
+      .select({
+        totalWeighments: count(),
+        toleranceViolations: sql<string | null>`sum(case when ${weighments.toleranceStatus} <> 'good' then 1 else 0 end)`,
+        avgWeight: sql<string | null>`avg(${weighments.netWeight})`
+      })
+      .from(weighments)
+      .where(and(
+        gte(weighments.createdAt, start),
+        lt(weighments.createdAt, end),
+        notInArray(weighments.status, UNCOUNTED_WEIGHMENT_STATUSES)
+      ));
+
+    const avgWeight = Number(row?.avgWeight ?? 0);
+
+    return {
+      totalWeighments: row?.totalWeighments ?? 0,
+      toleranceViolations: Number(row?.toleranceViolations ?? 0),
+      avgWeight: Math.round(avgWeight * 100) / 100
+    };
+  }
+
+  async getWeighmentAggregates(
+    filter: WeighmentStatsFilter,
+    groupBy: StatsBucket | StatsBreakdown
+  ): Promise<WeighmentAggregate[]> {
+    let key: SQL;
+    if (groupBy in STATS_BUCKET_SIZES) {
+      // Whole seconds since the epoch, bucketed in SQL; constants are inlined so
+      // the grouped expression matches the selected one under ONLY_FULL_GROUP_BY
+      const { size, offset } = STATS_BUCKET_SIZES[groupBy as StatsBucket];
+      const [sizeSeconds, offsetSeconds] = [sql.raw(String(size / 1000)), sql.raw(String(offset / 1000))];
+      key = sql`floor((unix_timestamp(${weighments.createdAt}) - ${offsetSeconds}) / ${sizeSeconds}) * ${sizeSeconds} + ${offsetSeconds}`;
+    } else {
+      key = sql`${lorryQueue[groupBy as StatsBreakdown]}`;
+    }
+
+    const rows = await this.db
+      .select({
+        key,
+        bags: count(),
+        totalNet: sql<string | null>`sum(${weighments.netWeight})`,
+        violations: sql<string | null>`sum(case when ${weighments.toleranceStatus} <> 'good' then 1 else 0 end)`,
+        plcSerialDiffSum: sql<string | null>`sum(${weighments.plcWeight} - ${weighments.serialWeight})`,
+        plcSerialCompared: sql<string | null>`count(${weighments.plcWeight} - ${weighments.serialWeight})`
+      })
+      .from(weighments)
+      .innerJoin(lorryQueue, eq(weighments.lorryId, lorryQueue.id))
+      .where(and(
+        notInArray(weighments.status, UNCOUNTED_WEIGHMENT_STATUSES),
+        filter.from ? gte(weighments.createdAt, filter.from) : undefined,
+        filter.to ? lt(weighments.createdAt, filter.to) : undefined,
+        filter.line ? eq(lorryQueue.line, filter.line) : undefined,
+        filter.lineManager ? eq(lorryQueue.lineManager, filter.lineManager) : undefined,
+        filter.lorryNumber ? containsIgnoreCase(lorryQueue.lorryNumber, filter.lorryNumber) : undefined
+      ))
+      .groupBy(key);
+
+    return rows.map(row => ({
+      key: groupBy in STATS_BUCKET_SIZES ? Number(row.key) * 1000 : String(row.key),
+      bags: row.bags,
+      totalNet: Number(row.totalNet ?? 0),
+      violations: Number(row.violations ?? 0),
+      plcSerialDiffSum: Number(row.plcSerialDiffSum ?? 0),
+      plcSerialCompared: Number(row.plcSerialCompared ?? 0)
+    }));
+  }
+
+  // Weighment Audits
+  async getWeighmentAudits(weighmentId: string): Promise<WeighmentAudit[]> {
+    return this.db
+      .select()
+      .from(weighmentAudits)
+      .where(eq(weighmentAudits.weighmentId, weighmentId))
+      .orderBy(asc(weighmentAudits.createdAt));
+  }
+
+  async createWeighmentAudit(audit: InsertWeighmentAudit): Promise<WeighmentAudit> {
+    const id = randomUUID();
+    await this.db.insert(weighmentAudits).values({ ...audit, id });
+    const [created] = await this.db
+      .select()
+      .from(weighmentAudits)
+      .where(eq(weighmentAudits.id, id));
+    return created;
+  }
+
+  // Sync Outbox
+  async getSyncJobById(id: string): Promise<SyncJob | undefined> {
+    const [job] = await this.db.select().from(syncJobs).where(eq(syncJobs.id, id));
+    return job;
+  }
+
+  async getSyncJobs(filter: SyncJobFilter = {}): Promise<SyncJob[]> {
+    const query = this.db
+      .select()
+      .from(syncJobs)
+      .where(and(
+        filter.status ? eq(syncJobs.status, filter.status) : undefined,
+        filter.weighmentId ? eq(syncJobs.weighmentId, filter.weighmentId) : undefined,
+        filter.dueBy ? lte(syncJobs.nextAttemptAt, filter.dueBy) : undefined
+      ))
+      .orderBy(asc(syncJobs.createdAt));
+    return filter.limit ? query.limit(filter.limit) : query;
+  }
+
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    const id = randomUUID();
+    await this.db.insert(syncJobs).values({ ...job, id });
+    return (await this.getSyncJobById(id))!;
+  }
+
+  async updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob | undefined> {
+    const existing = await this.getSyncJobById(id);
+    if (!existing) return undefined;
+
+    // created_at is ON UPDATE CURRENT_TIMESTAMP; keep the original enqueue time
+    await this.db
+      .update(syncJobs)
+      .set({ ...updates, createdAt: existing.createdAt })
+      .where(eq(syncJobs.id, id));
+    return this.getSyncJobById(id);
+  }
+
+  async deleteSyncJobs(statuses: string[]): Promise<number> {
+    if (statuses.length === 0) return 0;
+    const [result] = await this.db.delete(syncJobs).where(inArray(syncJobs.status, statuses));
+    return result.affectedRows;
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.db.select().from(webhookSubscriptions);
+  }
+
+  async getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await this.db
+      .select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.id, id));
+    return subscription;
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const id = randomUUID();
+    await this.db.insert(webhookSubscriptions).values({ ...subscription, id });
+    return (await this.getWebhookSubscriptionById(id))!;
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    await this.db
+      .update(webhookSubscriptions)
+      .set(updates)
+      .where(eq(webhookSubscriptions.id, id));
+    return this.getWebhookSubscriptionById(id);
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    await this.db.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, id));
+    const [result] = await this.db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    return result.affectedRows > 0;
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const query = this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        filter.subscriptionId ? eq(webhookDeliveries.subscriptionId, filter.subscriptionId) : undefined,
+        filter.status ? eq(webhookDeliveries.status, filter.status) : undefined
+      ))
+      .orderBy(desc(webhookDeliveries.createdAt));
+    return filter.limit ? query.limit(filter.limit) : query;
+  }
+
+  async getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(
+        eq(webhookDeliveries.status, "pending"),
+        lte(webhookDeliveries.nextAttemptAt, dueBy)
+      ))
+      .orderBy(asc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = randomUUID();
+    await this.db.insert(webhookDeliveries).values({ ...delivery, id });
+    return (await this.getWebhookDeliveryById(id))!;
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = await this.getWebhookDeliveryById(id);
+    if (!existing) return undefined;
+
+    // created_at is ON UPDATE CURRENT_TIMESTAMP; keep the original event time
+    await this.db
+      .update(webhookDeliveries)
+      .set({ ...updates, createdAt: existing.createdAt })
+      .where(eq(webhookDeliveries.id, id));
+    return this.getWebhookDeliveryById(id);
+  }
+
+  // System Settings
+  async getSettingsByCategory(category: string): Promise<SystemSettings | undefined> {
+    const [setting] = await this.db
+      .select()
+      .from(systemSettings)
+      .where(eq(systemSettings.category, category));
+    return setting;
+  }
+
+  async upsertSettings(category: string, settings: any): Promise<SystemSettings> {
+    const existing = await this.getSettingsByCategory(category);
+
+    if (existing) {
+      await this.db
+        .update(systemSettings)
+        .set({ settings, updatedAt: new Date() })
+        .where(eq(systemSettings.id, existing.id));
+    } else {
+      await this.db
+        .insert(systemSettings)
+        .values({ id: randomUUID(), category, settings });
+    }
+
+    return (await this.getSettingsByCategory(category))!;
+  }
+
+  // System Activities
+  async getRecentActivities(limit: number = 50): Promise<SystemActivity[]> {
+    return this.db
+      .select()
+      .from(systemActivities)
+      .orderBy(desc(systemActivities.createdAt))
+      .limit(limit);
+  }
+
+  async createActivity(activity: InsertSystemActivity): Promise<SystemActivity> {
+    const id = randomUUID();
+    await this.db.insert(systemActivities).values({ ...activity, id });
+    const [created] = await this.db
+      .select()
+      .from(systemActivities)
+      .where(eq(systemActivities.id, id));
+    return created;
+  }
+}
+
+export class SqliteStorage implements IStorage {
+  constructor(private db: SqliteDatabase) {}
+
+  // Schema
+  async migrate(): Promise<void> {
+    migrateSqlite(this.db);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.db.select().from(sqlite.users).where(eq(sqlite.users.id, id)).get();
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.users)
+      .where(eq(sqlite.users.username, username))
+      .get();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db
+      .insert(sqlite.users)
+      .values({ ...insertUser, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  // Tare Configurations
+  async getTareConfigByDate(date: string): Promise<TareConfiguration | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.tareConfigurations)
+      .where(eq(sqlite.tareConfigurations.date, date))
+      .orderBy(desc(sqlite.tareConfigurations.createdAt))
+      .limit(1)
+      .get();
+  }
+
+  async createTareConfig(config: InsertTareConfiguration): Promise<TareConfiguration> {
+    return this.db
+      .insert(sqlite.tareConfigurations)
+      .values({ ...config, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  async updateTareConfig(id: string, config: Partial<InsertTareConfiguration>): Promise<TareConfiguration | undefined> {
+    return this.db
+      .update(sqlite.tareConfigurations)
+      .set(config)
+      .where(eq(sqlite.tareConfigurations.id, id))
+      .returning()
+      .get();
+  }
+
+  // Lorry Queue
+  async getLorryQueue(): Promise<LorryWithTareConfig[]> {
+    const rows = this.db
+      .select({ lorry: sqlite.lorryQueue, tareConfig: sqlite.tareConfigurations })
+      .from(sqlite.lorryQueue)
+      .leftJoin(sqlite.tareConfigurations, eq(sqlite.lorryQueue.tareConfigId, sqlite.tareConfigurations.id))
+      .orderBy(asc(sqlite.lorryQueue.createdAt))
+      .all();
+
+    const counts = this.db
+      .select({ lorryId: sqlite.weighments.lorryId, count: count() })
+      .from(sqlite.weighments)
+      .groupBy(sqlite.weighments.lorryId)
+      .all();
+    const countByLorry = new Map(counts.map(c => [c.lorryId, c.count]));
+
+    return rows.map(({ lorry, tareConfig }) => ({
+      ...lorry,
+      tareConfig: tareConfig ?? undefined,
+      weighmentCount: countByLorry.get(lorry.id) ?? 0
+    }));
+  }
+
+  async getLorryById(id: string): Promise<LorryWithTareConfig | undefined> {
+    const row = this.db
+      .select({ lorry: sqlite.lorryQueue, tareConfig: sqlite.tareConfigurations })
+      .from(sqlite.lorryQueue)
+      .leftJoin(sqlite.tareConfigurations, eq(sqlite.lorryQueue.tareConfigId, sqlite.tareConfigurations.id))
+      .where(eq(sqlite.lorryQueue.id, id))
+      .get();
+    if (!row) return undefined;
+
+    const { weighmentCount } = this.db
+      .select({ weighmentCount: count() })
+      .from(sqlite.weighments)
+      .where(eq(sqlite.weighments.lorryId, id))
+      .get()!;
+
+    return {
+      ...row.lorry,
+      tareConfig: row.tareConfig ?? undefined,
+      weighmentCount
+    };
+  }
+
+  async createLorry(lorry: InsertLorryQueue): Promise<LorryQueue> {
+    return this.db
+      .insert(sqlite.lorryQueue)
+      .values({
+        ...lorry,
+        id: randomUUID(),
+        status: lorry.status || "waiting"
+      })
+      .returning()
+      .get();
+  }
+
+  async updateLorryStatus(id: string, status: string, totalBags?: number): Promise<LorryQueue | undefined> {
+    return this.db
+      .update(sqlite.lorryQueue)
+      .set({
+        status,
+        ...(totalBags !== undefined && { totalBags })
+      })
+      .where(eq(sqlite.lorryQueue.id, id))
+      .returning()
+      .get();
+  }
+
+  async updateLorryWeights(id: string, weights: LorryWeights): Promise<LorryQueue | undefined> {
+    return this.db
+      .update(sqlite.lorryQueue)
+      .set(weights)
+      .where(eq(sqlite.lorryQueue.id, id))
+      .returning()
+      .get();
+  }
+
+  async removeLorryFromQueue(id: string): Promise<boolean> {
+    // Lorries with recorded weighments are protected by the weighments FK and will throw here
+    const result = this.db
+      .delete(sqlite.lorryQueue)
+      .where(eq(sqlite.lorryQueue.id, id))
+      .run();
+    return result.changes > 0;
+  }
+
+  // Weighments
+  async getWeighmentsByLorryId(lorryId: string): Promise<Weighment[]> {
+    return this.db
+      .select()
+      .from(sqlite.weighments)
+      .where(eq(sqlite.weighments.lorryId, lorryId))
+      .orderBy(desc(sqlite.weighments.createdAt))
+      .all();
+  }
+
+  async getTodaysWeighments(): Promise<WeighmentWithLorry[]> {
+    const [start, end] = todayRange();
+    const rows = this.db
+      .select({ weighment: sqlite.weighments, lorry: sqlite.lorryQueue })
+      .from(sqlite.weighments)
+      .innerJoin(sqlite.lorryQueue, eq(sqlite.weighments.lorryId, sqlite.lorryQueue.id))
+      .where(and(gte(sqlite.weighments.createdAt, start), lt(sqlite.weighments.createdAt, end)))
+      .orderBy(desc(sqlite.weighments.createdAt))
+      .all();
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async getWeighmentById(id: string): Promise<Weighment | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.weighments)
+      .where(eq(sqlite.weighments.id, id))
+      .get();
+  }
+
+  async getWeighmentByIdempotencyKey(key: string): Promise<Weighment | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.weighments)
+      .where(eq(sqlite.weighments.idempotencyKey, key))
+      .get();
+  }
+
+  async getWeighmentsByStatus(status: string): Promise<WeighmentWithLorry[]> {
+    const rows = this.db
+      .select({ weighment: sqlite.weighments, lorry: sqlite.lorryQueue })
+      .from(sqlite.weighments)
+      .innerJoin(sqlite.lorryQueue, eq(sqlite.weighments.lorryId, sqlite.lorryQueue.id))
+      .where(eq(sqlite.weighments.status, status))
+      .orderBy(asc(sqlite.weighments.createdAt))
+      .all();
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async getWeighmentHistory(filter: WeighmentHistoryFilter): Promise<WeighmentWithLorry[]> {
+    const sortColumn = {
+      createdAt: sqlite.weighments.createdAt,
+      netWeight: sqlite.weighments.netWeight,
+      finalWeight: sqlite.weighments.finalWeight,
+      tagId: sqlite.weighments.tagId,
+    }[filter.sort];
+    const order = filter.order === "asc" ? asc : desc;
+
+    const rows = this.db
+      .select({ weighment: sqlite.weighments, lorry: sqlite.lorryQueue })
+      .from(sqlite.weighments)
+      .innerJoin(sqlite.lorryQueue, eq(sqlite.weighments.lorryId, sqlite.lorryQueue.id))
+      .where(and(
+        filter.from ? gte(sqlite.weighments.createdAt, filter.from) : undefined,
+        filter.to ? lt(sqlite.weighments.createdAt, filter.to) : undefined,
+        filter.line ? eq(sqlite.lorryQueue.line, filter.line) : undefined,
+        filter.lineManager ? eq(sqlite.lorryQueue.lineManager, filter.lineManager) : undefined,
+        filter.lorryNumber ? containsIgnoreCase(sqlite.lorryQueue.lorryNumber, filter.lorryNumber) : undefined,
+        filter.tagId ? containsIgnoreCase(sqlite.weighments.tagId, filter.tagId) : undefined,
+        filter.toleranceStatus ? eq(sqlite.weighments.toleranceStatus, filter.toleranceStatus) : undefined,
+        filter.weightSource ? eq(sqlite.weighments.weightSource, filter.weightSource) : undefined,
+        filter.after ? keysetAfter(sortColumn, sqlite.weighments.id, filter) : undefined
+      ))
+      .orderBy(order(sortColumn), order(sqlite.weighments.id))
+      .limit(filter.limit)
+      .all();
+
+    return rows.map(({ weighment, lorry }) => ({ ...weighment, lorry }));
+  }
+
+  async findWeighmentsByTag(tagId: string, filter: { lorryId?: string; since?: Date } = {}): Promise<Weighment[]> {
+    return this.db
+      .select()
+      .from(sqlite.weighments)
+      .where(and(
+        eq(sqlite.weighments.tagId, tagId),
+        notInArray(sqlite.weighments.status, UNCOUNTED_WEIGHMENT_STATUSES),
+        filter.lorryId ? eq(sqlite.weighments.lorryId, filter.lorryId) : undefined,
+        filter.since ? gte(sqlite.weighments.createdAt, filter.since) : undefined
+      ))
+      .orderBy(asc(sqlite.weighments.createdAt))
+      .all();
+  }
+
+  async createWeighment(weighment: InsertWeighment): Promise<Weighment> {
+    return this.db
+      .insert(sqlite.weighments)
+      .values({ ...weighment, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  async updateWeighment(id: string, updates: Partial<InsertWeighment>): Promise<Weighment | undefined> {
+    return this.db
+      .update(sqlite.weighments)
+      .set(updates)
+      .where(eq(sqlite.weighments.id, id))
+      .returning()
+      .get();
+  }
+
+  async getWeighmentStats(): Promise<{
+    totalWeighments: number;
+    toleranceViolations: number;
+    avgWeight: number;
+  }> {
+    const [start, end] = todayRange();
+    const row = this.db
+      .select({
+        totalWeighments: count(),
+        toleranceViolations: sql<number | null>`sum(case when ${sqlite.weighments.toleranceStatus} <> 'good' then 1 else 0 end)`,
+        avgWeight: sql<number | null>`avg(${sqlite.weighments.netWeight})`
+      })
+      .from(sqlite.weighments)
+      .where(and(
+        gte(sqlite.weighments.createdAt, start),
+        lt(sqlite.weighments.createdAt, end),
+        notInArray(sqlite.weighments.status, UNCOUNTED_WEIGHMENT_STATUSES)
+      ))
+      .get();
+
+    const avgWeight = row?.avgWeight ?? 0;
+
+    return {
+      totalWeighments: row?.totalWeighments ?? 0,
+      toleranceViolations: row?.toleranceViolations ?? 0,
+      avgWeight: Math.round(avgWeight * 100) / 100
+    };
+  }
+
+  async getWeighmentAggregates(
+    filter: WeighmentStatsFilter,
+    groupBy: StatsBucket | StatsBreakdown
+  ): Promise<WeighmentAggregate[]> {
+    let key: SQL;
+    if (groupBy in STATS_BUCKET_SIZES) {
+      // created_at holds epoch ms; the constants are inlined as integers so the
+      // division truncates instead of going through a bound REAL
+      const { size, offset } = STATS_BUCKET_SIZES[groupBy as StatsBucket];
+      const [sizeMs, offsetMs] = [sql.raw(String(size)), sql.raw(String(offset))];
+      key = sql`((${sqlite.weighments.createdAt} - ${offsetMs}) / ${sizeMs}) * ${sizeMs} + ${offsetMs}`;
+    } else {
+      key = sql`${sqlite.lorryQueue[groupBy as StatsBreakdown]}`;
+    }
+
+    const rows = this.db
+      .select({
+        key,
+        bags: count(),
+        totalNet: sql<number | null>`sum(${sqlite.weighments.netWeight})`,
+        violations: sql<number | null>`sum(case when ${sqlite.weighments.toleranceStatus} <> 'good' then 1 else 0 end)`,
+        plcSerialDiffSum: sql<number | null>`sum(${sqlite.weighments.plcWeight} - ${sqlite.weighments.serialWeight})`,
+        plcSerialCompared: sql<number | null>`count(${sqlite.weighments.plcWeight} - ${sqlite.weighments.serialWeight})`
+      })
+      .from(sqlite.weighments)
+      .innerJoin(sqlite.lorryQueue, eq(sqlite.weighments.lorryId, sqlite.lorryQueue.id))
+      .where(and(
+        notInArray(sqlite.weighments.status, UNCOUNTED_WEIGHMENT_STATUSES),
+        filter.from ? gte(sqlite.weighments.createdAt, filter.from) : undefined,
+        filter.to ? lt(sqlite.weighments.createdAt, filter.to) : undefined,
+        filter.line ? eq(sqlite.lorryQueue.line, filter.line) : undefined,
+        filter.lineManager ? eq(sqlite.lorryQueue.lineManager, filter.lineManager) : undefined,
+        filter.lorryNumber ? containsIgnoreCase(sqlite.lorryQueue.lorryNumber, filter.lorryNumber) : undefined
+      ))
+      .groupBy(key)
+      .all();
+
+    return rows.map(row => ({
+      key: groupBy in STATS_BUCKET_SIZES ? Number(row.key) : String(row.key),
+      bags: row.bags,
+      totalNet: row.totalNet ?? 0,
+      violations: row.violations ?? 0,
+      plcSerialDiffSum: row.plcSerialDiffSum ?? 0,
+      plcSerialCompared: row.plcSerialCompared ?? 0
+    }));
+  }
+
+  // Weighment Audits
+  async getWeighmentAudits(weighmentId: string): Promise<WeighmentAudit[]> {
+    return this.db
+      .select()
+      .from(sqlite.weighmentAudits)
+      .where(eq(sqlite.weighmentAudits.weighmentId, weighmentId))
+      .orderBy(asc(sqlite.weighmentAudits.createdAt))
+      .all();
+  }
+
+  async createWeighmentAudit(audit: InsertWeighmentAudit): Promise<WeighmentAudit> {
+    return this.db
+      .insert(sqlite.weighmentAudits)
+      .values({ ...audit, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  // Sync Outbox
+  async getSyncJobById(id: string): Promise<SyncJob | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.syncJobs)
+      .where(eq(sqlite.syncJobs.id, id))
+      .get();
+  }
+
+  async getSyncJobs(filter: SyncJobFilter = {}): Promise<SyncJob[]> {
+    const query = this.db
+      .select()
+      .from(sqlite.syncJobs)
+      .where(and(
+        filter.status ? eq(sqlite.syncJobs.status, filter.status) : undefined,
+        filter.weighmentId ? eq(sqlite.syncJobs.weighmentId, filter.weighmentId) : undefined,
+        filter.dueBy ? lte(sqlite.syncJobs.nextAttemptAt, filter.dueBy) : undefined
+      ))
+      .orderBy(asc(sqlite.syncJobs.createdAt));
+    return (filter.limit ? query.limit(filter.limit) : query).all();
+  }
+
+  async createSyncJob(job: InsertSyncJob): Promise<SyncJob> {
+    return this.db
+      .insert(sqlite.syncJobs)
+      .values({ ...job, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  async updateSyncJob(id: string, updates: Partial<InsertSyncJob>): Promise<SyncJob | undefined> {
+    return this.db
+      .update(sqlite.syncJobs)
+      .set(updates)
+      .where(eq(sqlite.syncJobs.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteSyncJobs(statuses: string[]): Promise<number> {
+    if (statuses.length === 0) return 0;
+    const result = this.db
+      .delete(sqlite.syncJobs)
+      .where(inArray(sqlite.syncJobs.status, statuses))
+      .run();
+    return result.changes;
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.db.select().from(sqlite.webhookSubscriptions).all();
+  }
+
+  async getWebhookSubscriptionById(id: string): Promise<WebhookSubscription | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.webhookSubscriptions)
+      .where(eq(sqlite.webhookSubscriptions.id, id))
+      .get();
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    return this.db
+      .insert(sqlite.webhookSubscriptions)
+      .values({ ...subscription, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  async updateWebhookSubscription(id: string, updates: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined> {
+    return this.db
+      .update(sqlite.webhookSubscriptions)
+      .set(updates)
+      .where(eq(sqlite.webhookSubscriptions.id, id))
+      .returning()
+      .get();
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<boolean> {
+    this.db
+      .delete(sqlite.webhookDeliveries)
+      .where(eq(sqlite.webhookDeliveries.subscriptionId, id))
+      .run();
+    const result = this.db
+      .delete(sqlite.webhookSubscriptions)
+      .where(eq(sqlite.webhookSubscriptions.id, id))
+      .run();
+    return result.changes > 0;
+  }
+
+  async getWebhookDeliveryById(id: string): Promise<WebhookDelivery | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.webhookDeliveries)
+      .where(eq(sqlite.webhookDeliveries.id, id))
+      .get();
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter = {}): Promise<WebhookDelivery[]> {
+    const query = this.db
+      .select()
+      .from(sqlite.webhookDeliveries)
+      .where(and(
+        filter.subscriptionId ? eq(sqlite.webhookDeliveries.subscriptionId, filter.subscriptionId) : undefined,
+        filter.status ? eq(sqlite.webhookDeliveries.status, filter.status) : undefined
+      ))
+      .orderBy(desc(sqlite.webhookDeliveries.createdAt));
+    return (filter.limit ? query.limit(filter.limit) : query).all();
+  }
+
+  async getDueWebhookDeliveries(dueBy: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(sqlite.webhookDeliveries)
+      .where(and(
+        eq(sqlite.webhookDeliveries.status, "pending"),
+        lte(sqlite.webhookDeliveries.nextAttemptAt, dueBy)
+      ))
+      .orderBy(asc(sqlite.webhookDeliveries.createdAt))
+      .limit(limit)
+      .all();
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    return this.db
+      .insert(sqlite.webhookDeliveries)
+      .values({ ...delivery, id: randomUUID() })
+      .returning()
+      .get();
+  }
+
+  async updateWebhookDelivery(id: string, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    return this.db
+      .update(sqlite.webhookDeliveries)
+      .set(updates)
+      .where(eq(sqlite.webhookDeliveries.id, id))
+      .returning()
+      .get();
+  }
+
+  // System Settings
+  async getSettingsByCategory(category: string): Promise<SystemSettings | undefined> {
+    return this.db
+      .select()
+      .from(sqlite.systemSettings)
+      .where(eq(sqlite.systemSettings.category, category))
+      .get();
+  }
+
+  async upsertSettings(category: string, settings: any): Promise<SystemSettings> {
+    const existing = await this.getSettingsByCategory(category);
+
+    if (existing) {
+      return this.db
+        .update(sqlite.systemSettings)
+        .set({ settings })
+        .where(eq(sqlite.systemSettings.id, existing.id))
+        .returning()
+        .get();
+    }
+
+    return this.db
+      .insert(sqlite.systemSettings)
+      .values({ id: randomUUID(), category, settings })
+      .returning()
+      .get();
+  }
+
+  // System Activities
+  async getRecentActivities(limit: number = 50): Promise<SystemActivity[]> {
+    return this.db
+      .select()
+      .from(sqlite.systemActivities)
+      .orderBy(desc(sqlite.systemActivities.createdAt))
+      .limit(limit)
+      .all();
+  }
+
+  async createActivity(activity: InsertSystemActivity): Promise<SystemActivity> {
+    return this.db
+      .insert(sqlite.systemActivities)
+      .values({ ...activity, id: randomUUID() })
+      .returning()
+      .get();
+  }
+}
+
+// STORAGE_DRIVER picks the backend explicitly (memory, mysql, sqlite). Without it,
+// MySQL is used when DATABASE_URL is configured and in-memory storage otherwise.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "mysql" : "memory");
+
+  switch (driver) {
+    case "mysql":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=mysql requires DATABASE_URL");
+      }
+      return new DbStorage(createDb(process.env.DATABASE_URL));
+    case "sqlite":
+      return new SqliteStorage(createSqliteDb(process.env.SQLITE_PATH || "./.data/weightsyncpro.db"));
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
@@ -1,11 +1,11 @@
 import { sql } from "drizzle-orm";
-import { mysqlTable, text, varchar, real, int, timestamp, json } from "drizzle-orm/mysql-core";
+import { mysqlTable, text, varchar, real, int, timestamp, json, boolean, index } from "drizzle-orm/mysql-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = mysqlTable("users", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
-  username: text("username").notNull().unique(),
+  username: varchar("username", { length: 255 }).notNull().unique(),
   password: text("password").notNull(),
 });
 
@@ -24,6 +24,9 @@ export const lorryQueue = mysqlTable("lorry_queue", {
   phone: text("phone"),
   tareConfigId: varchar("tare_config_id", { length: 36 }).references(() => tareConfigurations.id),
   status: text("status").notNull().default("waiting"), // waiting, active, completed
+  weighingMode: text("weighing_mode").notNull().default("bags"), // bags, weighbridge
+  grossWeight: real("gross_weight"), // weighbridge: first pass, lorry loaded
+  tareWeight: real("tare_weight"), // weighbridge: second pass, lorry empty
   totalBags: int("total_bags").default(0),
   createdAt: timestamp("created_at").defaultNow().onUpdateNow(),
 });
@@ -40,19 +43,97 @@ export const weighments = mysqlTable("weighments", {
   weightSource: text("weight_source").notNull(), // plc, serial, average
   toleranceStatus: text("tolerance_status").notNull(), // good, warning, error
   weightDifference: real("weight_difference"),
+  pass: text("pass"), // gross, tare; null for bag weighments
+  status: text("status").notNull().default("accepted"), // accepted, pending_review, approved, rejected, voided
+  reviewedBy: text("reviewed_by"),
+  reviewReason: text("review_reason"),
+  reviewedAt: timestamp("reviewed_at"),
+  originalFinalWeight: real("original_final_weight"), // set when a reviewer overrides finalWeight
+  syncStatus: text("sync_status").notNull().default("unsynced"), // unsynced, pending, synced, failed
+  syncedAt: timestamp("synced_at"),
+  idempotencyKey: varchar("idempotency_key", { length: 64 }).unique(), // Idempotency-Key of the POST that created it
+  createdAt: timestamp("created_at").defaultNow().onUpdateNow(),
+}, (table) => [
+  // Date-range history queries
+  index("weighments_created_at_idx").on(table.createdAt),
+]);
+
+// Weighments in these states stay on record but no longer count as bags
+export const UNCOUNTED_WEIGHMENT_STATUSES = ["voided", "rejected"];
+
+// bags: every bag is weighed on the hook against the day's tare configuration.
+// weighbridge: the whole lorry is weighed in loaded (gross) and out empty (tare),
+// and its net is the difference; the tare is kept on the lorry itself.
+export const WEIGHING_MODES = ["bags", "weighbridge"] as const;
+export const WEIGHBRIDGE_PASSES = ["gross", "tare"] as const;
+
+// Every void, correction or weighbridge settle of a saved weighment, with the row before and after
+export const weighmentAudits = mysqlTable("weighment_audits", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
+  weighmentId: varchar("weighment_id", { length: 36 }).references(() => weighments.id).notNull(),
+  action: text("action").notNull(), // void, correct, settle
+  performedBy: text("performed_by").notNull(),
+  reason: text("reason").notNull(),
+  before: json("before").notNull(),
+  after: json("after").notNull(),
+  createdAt: timestamp("created_at").defaultNow().onUpdateNow(),
+});
+
+// Pending deliveries of weighments to the external API, drained by the auto-sync timer
+export const syncJobs = mysqlTable("sync_jobs", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
+  weighmentId: varchar("weighment_id", { length: 36 }).references(() => weighments.id).notNull(),
+  status: text("status").notNull().default("pending"), // pending, synced, dead, cancelled
+  attempts: int("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().onUpdateNow(),
+});
+
+// Events that can be delivered to webhook subscribers; the same names are broadcast over Socket.IO
+export const WEBHOOK_EVENTS = [
+  "weighment_created",
+  "lorry_status_updated",
+  "lorry_removed",
+  "tare_config_updated",
+] as const;
+
+export const webhookSubscriptions = mysqlTable("webhook_subscriptions", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC key for the X-WeightSync-Signature header
+  events: json("events").$type<string[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  description: text("description"),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
+});
+
+// Queued and past webhook deliveries; doubles as the delivery history shown in Settings
+export const webhookDeliveries = mysqlTable("webhook_deliveries", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
+  subscriptionId: varchar("subscription_id", { length: 36 }).references(() => webhookSubscriptions.id).notNull(),
+  event: text("event").notNull(),
+  payload: json("payload").notNull(),
+  status: text("status").notNull().default("pending"), // pending, delivered, dead, cancelled
+  attempts: int("attempts").notNull().default(0),
+  responseStatus: int("response_status"),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"),
   createdAt: timestamp("created_at").defaultNow().onUpdateNow(),
 });
 
 export const systemSettings = mysqlTable("system_settings", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
-  category: text("category").notNull(), // api, mqtt, serial, tolerance
+  category: text("category").notNull(), // api, mqtt, serial, tagReader, tolerance, stability, duplicates, odoo, documents, printer
   settings: json("settings").notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow(),
 });
 
 export const systemActivities = mysqlTable("system_activities", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`(uuid())`),
-  type: text("type").notNull(), // weighment, tolerance_violation, api_sync, connection_status
+  type: text("type").notNull(), // weighment, tolerance_violation, duplicate_tag, api_sync, webhook, printer, connection_status
   message: text("message").notNull(),
   status: text("status").notNull(), // success, warning, error
   metadata: json("metadata"),
@@ -62,11 +143,150 @@ export const systemActivities = mysqlTable("system_activities", {
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 export const insertTareConfigSchema = createInsertSchema(tareConfigurations).omit({ id: true, createdAt: true });
-export const insertLorryQueueSchema = createInsertSchema(lorryQueue).omit({ id: true, createdAt: true });
+export const insertLorryQueueSchema = createInsertSchema(lorryQueue, {
+  weighingMode: z.enum(WEIGHING_MODES).optional(),
+}).omit({ id: true, createdAt: true });
 export const insertWeighmentSchema = createInsertSchema(weighments).omit({ id: true, createdAt: true });
+export const insertWeighmentAuditSchema = createInsertSchema(weighmentAudits).omit({ id: true, createdAt: true });
+export const insertSyncJobSchema = createInsertSchema(syncJobs).omit({ id: true, createdAt: true });
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions, {
+  url: z.string().url(),
+  secret: z.string().min(16),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+}).omit({ id: true, updatedAt: true });
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({ id: true, createdAt: true });
 export const insertSystemSettingsSchema = createInsertSchema(systemSettings).omit({ id: true, updatedAt: true });
 export const insertSystemActivitySchema = createInsertSchema(systemActivities).omit({ id: true, createdAt: true });
 
+// POST /api/weighments body. Weights are computed on the server from its own
+// readings; client figures are only cross-checked against them.
+export const createWeighmentRequestSchema = z.object({
+  lorryId: z.string().min(1),
+  tagId: z.string().min(1),
+  plcWeight: z.number().nullish(),
+  serialWeight: z.number().nullish(),
+  finalWeight: z.number().nullish(),
+  // Required to record a repeated tag when the duplicate policy is allow_with_reason
+  duplicateReason: z.string().nullish(),
+});
+
+// Query string of GET /api/weighments. `from` is inclusive and `to` exclusive;
+// a date-only `to` (YYYY-MM-DD) includes that whole UTC day.
+export const WEIGHMENT_SORT_FIELDS = ["createdAt", "netWeight", "finalWeight", "tagId"] as const;
+
+const isoDateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: "must be an ISO date",
+});
+
+export const weighmentHistoryQuerySchema = z.object({
+  from: isoDateString.optional(),
+  to: isoDateString.optional(),
+  line: z.string().optional(),
+  lineManager: z.string().optional(),
+  lorryNumber: z.string().optional(), // partial match
+  tagId: z.string().optional(), // partial match
+  toleranceStatus: z.enum(["good", "warning", "error"]).optional(),
+  weightSource: z.enum(["plc", "serial", "average"]).optional(),
+  sort: z.enum(WEIGHMENT_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  cursor: z.string().optional(), // nextCursor of the previous page
+});
+
+// Query string of GET /api/stats/history. Buckets are UTC hours, days or
+// ISO weeks (Monday to Sunday); without a range the last seven days are used.
+export const STATS_BUCKETS = ["hour", "day", "week"] as const;
+export const STATS_BREAKDOWNS = ["line", "lineManager", "lorryNumber"] as const;
+
+export const weighmentStatsQuerySchema = z.object({
+  from: isoDateString.optional(),
+  to: isoDateString.optional(),
+  bucket: z.enum(STATS_BUCKETS).default("day"),
+  line: z.string().optional(),
+  lineManager: z.string().optional(),
+  lorryNumber: z.string().optional(), // partial match
+  top: z.coerce.number().int().min(1).max(500).default(50), // rows per breakdown, largest net weight first
+});
+
+// Query strings of the CSV/XLSX export endpoints: the history filters without
+// paging. `locale` sets the CSV number format and defaults to Accept-Language.
+export const EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export const LORRY_SORT_FIELDS = ["createdAt", "lorryNumber", "weighmentCount"] as const;
+
+const exportOptions = {
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+  locale: z.string().optional(),
+};
+
+export const weighmentExportQuerySchema = weighmentHistoryQuerySchema
+  .omit({ limit: true, cursor: true })
+  .extend(exportOptions);
+
+export const lorryExportQuerySchema = z.object({
+  from: isoDateString.optional(),
+  to: isoDateString.optional(),
+  line: z.string().optional(),
+  lineManager: z.string().optional(),
+  lorryNumber: z.string().optional(), // partial match
+  sort: z.enum(LORRY_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  ...exportOptions,
+});
+
+// Raw scale readings still held in memory; `since` is inclusive, `until`
+// exclusive, and without either the last five minutes are returned
+export const weightReadingsQuerySchema = z.object({
+  since: isoDateString.optional(),
+  until: isoDateString.optional(),
+  source: z.enum(["plc", "serial"]).optional(),
+});
+
+// Readings in the long-term archive behind /api/weights, newest first
+export const archivedReadingsQuerySchema = weightReadingsQuerySchema.extend({
+  stable: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+});
+
+// Webhook subscription bodies; a signing secret is generated when none is given
+export const createWebhookSubscriptionSchema = insertWebhookSubscriptionSchema.extend({
+  secret: z.string().min(16).optional(),
+});
+export const updateWebhookSubscriptionSchema = insertWebhookSubscriptionSchema.partial();
+
+// Supervisor decisions on weighments held for manual review
+export const approveWeighmentSchema = z
+  .object({
+    reviewedBy: z.string().min(1),
+    finalWeight: z.number().positive().optional(),
+    reason: z.string().optional(),
+  })
+  .refine((data) => data.finalWeight === undefined || !!data.reason?.trim(), {
+    message: "A reason is required when overriding the final weight",
+    path: ["reason"],
+  });
+
+export const rejectWeighmentSchema = z.object({
+  reviewedBy: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+// Corrections to saved weighments; the original values are kept in weighment_audits
+export const voidWeighmentSchema = z.object({
+  performedBy: z.string().min(1),
+  reason: z.string().min(1),
+});
+
+export const correctWeighmentSchema = z
+  .object({
+    performedBy: z.string().min(1),
+    reason: z.string().min(1),
+    tagId: z.string().min(1).optional(),
+    finalWeight: z.number().positive().optional(),
+  })
+  .refine((data) => data.tagId !== undefined || data.finalWeight !== undefined, {
+    message: "Provide a corrected tagId or finalWeight",
+  });
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -80,12 +300,41 @@ export type InsertLorryQueue = z.infer<typeof insertLorryQueueSchema>;
 export type Weighment = typeof weighments.$inferSelect;
 export type InsertWeighment = z.infer<typeof insertWeighmentSchema>;
 
+export type WeighmentAudit = typeof weighmentAudits.$inferSelect;
+export type InsertWeighmentAudit = z.infer<typeof insertWeighmentAuditSchema>;
+
+export type SyncJob = typeof syncJobs.$inferSelect;
+export type InsertSyncJob = z.infer<typeof insertSyncJobSchema>;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
 export type SystemSettings = typeof systemSettings.$inferSelect;
 export type InsertSystemSettings = z.infer<typeof insertSystemSettingsSchema>;
 
 export type SystemActivity = typeof systemActivities.$inferSelect;
 export type InsertSystemActivity = z.infer<typeof insertSystemActivitySchema>;
 
+export type CreateWeighmentRequest = z.infer<typeof createWeighmentRequestSchema>;
+export type ApproveWeighment = z.infer<typeof approveWeighmentSchema>;
+export type RejectWeighment = z.infer<typeof rejectWeighmentSchema>;
+export type VoidWeighment = z.infer<typeof voidWeighmentSchema>;
+export type CorrectWeighment = z.infer<typeof correctWeighmentSchema>;
+
+export type WeighingMode = (typeof WEIGHING_MODES)[number];
+export type WeighbridgePass = (typeof WEIGHBRIDGE_PASSES)[number];
+// Where a weighbridge lorry is: not weighed yet, weighed in, or weighed in and out
+export type WeighbridgeState = "awaiting_gross" | "awaiting_tare" | "complete";
+
+export function weighbridgeState(lorry: Pick<LorryQueue, "grossWeight" | "tareWeight">): WeighbridgeState {
+  if (lorry.grossWeight == null) return "awaiting_gross";
+  return lorry.tareWeight == null ? "awaiting_tare" : "complete";
+}
+
 // Extended types for API responses
 export type LorryWithTareConfig = LorryQueue & {
   tareConfig?: TareConfiguration;
@@ -96,6 +345,43 @@ export type WeighmentWithLorry = Weighment & {
   lorry: LorryQueue;
 };
 
+export type WeighmentSortField = (typeof WEIGHMENT_SORT_FIELDS)[number];
+export type WeighmentHistoryQuery = z.infer<typeof weighmentHistoryQuerySchema>;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type WeighmentExportQuery = z.infer<typeof weighmentExportQuerySchema>;
+export type LorryExportQuery = z.infer<typeof lorryExportQuerySchema>;
+export type WeightReadingsQuery = z.infer<typeof weightReadingsQuerySchema>;
+export type ArchivedReadingsQuery = z.infer<typeof archivedReadingsQuerySchema>;
+
+export type StatsBucket = (typeof STATS_BUCKETS)[number];
+export type StatsBreakdown = (typeof STATS_BREAKDOWNS)[number];
+
+// Voided and rejected weighments are left out of every figure
+export type WeighmentStatsSummary = {
+  bags: number;
+  totalNetKg: number;
+  avgBagKg: number;
+  toleranceViolations: number;
+  violationRate: number; // 0..1, warnings and errors over bags
+  meanPlcSerialDiffKg: number | null; // mean of PLC minus serial over bags read by both
+};
+
+export type WeighmentStatsReport = {
+  from: string;
+  to: string;
+  bucket: StatsBucket;
+  totals: WeighmentStatsSummary;
+  // One entry per bucket in the range, empty ones included
+  series: (WeighmentStatsSummary & { bucketStart: string })[];
+  breakdowns: Record<StatsBreakdown, (WeighmentStatsSummary & { key: string })[]>;
+};
+
+export type WeighmentHistoryPage = {
+  weighments: WeighmentWithLorry[];
+  nextCursor: string | null; // null on the last page
+};
+
 export type WeightReading = {
   plcWeight?: number;
   serialWeight?: number;
@@ -103,6 +389,19 @@ export type WeightReading = {
   tagId?: string;
 };
 
+// One reading as it arrived from a scale, before any averaging or tolerance check
+export type RawWeightReading = {
+  source: "plc" | "serial";
+  weight: number;
+  stable: boolean;
+  timestamp: Date;
+};
+
+export type ArchivedWeightReading = RawWeightReading & {
+  id: string;
+  unit: string;
+};
+
 export type ToleranceCheck = {
   difference: number;
   tolerance: number;
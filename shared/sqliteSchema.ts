@@ -0,0 +1,121 @@
+import { sqliteTable, text, real, integer, index } from "drizzle-orm/sqlite-core";
+
+// SQLite mirror of the MySQL tables in ./schema.ts. Column names and row
+// shapes must stay identical so both backends satisfy the same types.
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const tareConfigurations = sqliteTable("tare_configurations", {
+  id: text("id").primaryKey(),
+  date: text("date").notNull(),
+  tareWeight: real("tare_weight").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const lorryQueue = sqliteTable("lorry_queue", {
+  id: text("id").primaryKey(),
+  lorryNumber: text("lorry_number").notNull(),
+  line: text("line").notNull(),
+  lineManager: text("line_manager").notNull(),
+  phone: text("phone"),
+  tareConfigId: text("tare_config_id").references(() => tareConfigurations.id),
+  status: text("status").notNull().default("waiting"), // waiting, active, completed
+  weighingMode: text("weighing_mode").notNull().default("bags"), // bags, weighbridge
+  grossWeight: real("gross_weight"), // weighbridge: first pass, lorry loaded
+  tareWeight: real("tare_weight"), // weighbridge: second pass, lorry empty
+  totalBags: integer("total_bags").default(0),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const weighments = sqliteTable("weighments", {
+  id: text("id").primaryKey(),
+  lorryId: text("lorry_id").references(() => lorryQueue.id).notNull(),
+  tagId: text("tag_id").notNull(),
+  plcWeight: real("plc_weight"),
+  serialWeight: real("serial_weight"),
+  finalWeight: real("final_weight").notNull(),
+  tareWeight: real("tare_weight").notNull(),
+  netWeight: real("net_weight").notNull(),
+  weightSource: text("weight_source").notNull(), // plc, serial, average
+  toleranceStatus: text("tolerance_status").notNull(), // good, warning, error
+  weightDifference: real("weight_difference"),
+  pass: text("pass"), // gross, tare; null for bag weighments
+  status: text("status").notNull().default("accepted"), // accepted, pending_review, approved, rejected, voided
+  reviewedBy: text("reviewed_by"),
+  reviewReason: text("review_reason"),
+  reviewedAt: integer("reviewed_at", { mode: "timestamp_ms" }),
+  originalFinalWeight: real("original_final_weight"), // set when a reviewer overrides finalWeight
+  syncStatus: text("sync_status").notNull().default("unsynced"), // unsynced, pending, synced, failed
+  syncedAt: integer("synced_at", { mode: "timestamp_ms" }),
+  idempotencyKey: text("idempotency_key").unique(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+}, (table) => [
+  // Date-range history queries
+  index("weighments_created_at_idx").on(table.createdAt),
+]);
+
+export const weighmentAudits = sqliteTable("weighment_audits", {
+  id: text("id").primaryKey(),
+  weighmentId: text("weighment_id").references(() => weighments.id).notNull(),
+  action: text("action").notNull(), // void, correct, settle
+  performedBy: text("performed_by").notNull(),
+  reason: text("reason").notNull(),
+  before: text("before", { mode: "json" }).notNull(),
+  after: text("after", { mode: "json" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const syncJobs = sqliteTable("sync_jobs", {
+  id: text("id").primaryKey(),
+  weighmentId: text("weighment_id").references(() => weighments.id).notNull(),
+  status: text("status").notNull().default("pending"), // pending, synced, dead, cancelled
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: integer("next_attempt_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const webhookSubscriptions = sqliteTable("webhook_subscriptions", {
+  id: text("id").primaryKey(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: text("events", { mode: "json" }).$type<string[]>().notNull(),
+  active: integer("active", { mode: "boolean" }).notNull().default(true),
+  description: text("description"),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()).$onUpdateFn(() => new Date()),
+});
+
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: text("id").primaryKey(),
+  subscriptionId: text("subscription_id").references(() => webhookSubscriptions.id).notNull(),
+  event: text("event").notNull(),
+  payload: text("payload", { mode: "json" }).notNull(),
+  status: text("status").notNull().default("pending"), // pending, delivered, dead, cancelled
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  nextAttemptAt: integer("next_attempt_at", { mode: "timestamp_ms" }).notNull().$defaultFn(() => new Date()),
+  deliveredAt: integer("delivered_at", { mode: "timestamp_ms" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
+
+export const systemSettings = sqliteTable("system_settings", {
+  id: text("id").primaryKey(),
+  category: text("category").notNull(), // api, mqtt, serial, tagReader, tolerance, stability, duplicates, odoo, documents, printer
+  settings: text("settings", { mode: "json" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()).$onUpdateFn(() => new Date()),
+});
+
+export const systemActivities = sqliteTable("system_activities", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(), // weighment, tolerance_violation, duplicate_tag, api_sync, webhook, printer, connection_status
+  message: text("message").notNull(),
+  status: text("status").notNull(), // success, warning, error
+  metadata: text("metadata", { mode: "json" }),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()),
+});
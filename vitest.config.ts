@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Server and shared tests only; vite.config.ts is rooted at client/ for the app build
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    root: import.meta.dirname,
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    environment: "node",
+    env: {
+      // Keep MemStorage away from the real settings file
+      SETTINGS_PATH: path.join(import.meta.dirname, "node_modules", ".vitest", "settings.json"),
+    },
+  },
+});